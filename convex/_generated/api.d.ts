@@ -10,8 +10,17 @@
 
 import type * as auth from "../auth.js";
 import type * as bands from "../bands.js";
+import type * as bounces from "../bounces.js";
 import type * as files from "../files.js";
+import type * as gearDelta from "../gearDelta.js";
 import type * as http from "../http.js";
+import type * as practiceLoops from "../practiceLoops.js";
+import type * as practiceQueue from "../practiceQueue.js";
+import type * as practiceSessions from "../practiceSessions.js";
+import type * as practiceStats from "../practiceStats.js";
+import type * as recordingProjects from "../recordingProjects.js";
+import type * as sectionDrafts from "../sectionDrafts.js";
+import type * as setlists from "../setlists.js";
 import type * as songSections from "../songSections.js";
 import type * as songs from "../songs.js";
 import type * as users from "../users.js";
@@ -26,8 +35,17 @@ import type {
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
   bands: typeof bands;
+  bounces: typeof bounces;
   files: typeof files;
+  gearDelta: typeof gearDelta;
   http: typeof http;
+  practiceLoops: typeof practiceLoops;
+  practiceQueue: typeof practiceQueue;
+  practiceSessions: typeof practiceSessions;
+  practiceStats: typeof practiceStats;
+  recordingProjects: typeof recordingProjects;
+  sectionDrafts: typeof sectionDrafts;
+  setlists: typeof setlists;
   songSections: typeof songSections;
   songs: typeof songs;
   users: typeof users;
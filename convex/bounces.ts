@@ -0,0 +1,470 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id, Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============ CONSTANTS ============
+
+const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100MB
+const MAX_USER_STORAGE_BYTES = 2 * 1024 * 1024 * 1024; // 2GB
+const MAX_COMMENT_LENGTH = 2000;
+
+// ============ HELPERS ============
+
+async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+/**
+ * Verify user owns the project that holds the recording song
+ */
+async function verifyRecordingSongAccess(
+  ctx: QueryCtx | MutationCtx,
+  recordingSongId: Id<"recordingSongs">,
+  userId: Id<"users">
+): Promise<Doc<"recordingSongs">> {
+  const recordingSong = await ctx.db.get(recordingSongId);
+  if (!recordingSong || recordingSong.deletedAt) {
+    throw new Error("Recording song not found");
+  }
+
+  const project = await ctx.db.get(recordingSong.projectId);
+  if (!project || project.deletedAt) {
+    throw new Error("Project not found");
+  }
+
+  if (project.userId !== userId) {
+    throw new Error("Not authorized to access this project");
+  }
+
+  return recordingSong;
+}
+
+async function verifyBounceAccess(
+  ctx: QueryCtx | MutationCtx,
+  bounceId: Id<"bounces">,
+  userId: Id<"users">
+): Promise<Doc<"bounces">> {
+  const bounce = await ctx.db.get(bounceId);
+  if (!bounce || bounce.deletedAt) {
+    throw new Error("Bounce not found");
+  }
+
+  await verifyRecordingSongAccess(ctx, bounce.recordingSongId, userId);
+
+  return bounce;
+}
+
+async function getActiveComments(
+  ctx: QueryCtx | MutationCtx,
+  bounceId: Id<"bounces">
+): Promise<Doc<"bounceComments">[]> {
+  const comments = await ctx.db
+    .query("bounceComments")
+    .withIndex("by_bounce", (q) => q.eq("bounceId", bounceId))
+    .collect();
+
+  return comments.filter((c) => !c.deletedAt);
+}
+
+// ============ QUERIES ============
+
+/**
+ * Get all bounces for a recording song, newest first
+ */
+export const listBySong = query({
+  args: { recordingSongId: v.id("recordingSongs") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      await verifyRecordingSongAccess(ctx, args.recordingSongId, userId);
+    } catch {
+      return [];
+    }
+
+    const bounces = await ctx.db
+      .query("bounces")
+      .withIndex("by_song", (q) => q.eq("recordingSongId", args.recordingSongId))
+      .collect();
+
+    const activeBounces = bounces.filter((b) => !b.deletedAt);
+
+    const bouncesWithUrls = await Promise.all(
+      activeBounces.map(async (bounce) => {
+        const url = await ctx.storage.getUrl(bounce.storageId);
+        const comments = await getActiveComments(ctx, bounce._id);
+        return {
+          ...bounce,
+          url,
+          commentCount: comments.length,
+        };
+      })
+    );
+
+    return bouncesWithUrls.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+/**
+ * Loudness of the linked song's primary audio, as a reference for mixes
+ * Returns null when the recording song isn't linked or nothing was measured
+ */
+export const getReferenceLoudness = query({
+  args: { recordingSongId: v.id("recordingSongs") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    let recordingSong: Doc<"recordingSongs">;
+    try {
+      recordingSong = await verifyRecordingSongAccess(ctx, args.recordingSongId, userId);
+    } catch {
+      return null;
+    }
+
+    if (!recordingSong.sourceSongId) {
+      return null;
+    }
+    const song = await ctx.db.get(recordingSong.sourceSongId);
+    if (!song || song.deletedAt) {
+      return null;
+    }
+
+    const files = await ctx.db
+      .query("songFiles")
+      .withIndex("by_song_active", (q) =>
+        q.eq("songId", song._id).eq("deletedAt", undefined)
+      )
+      .collect();
+    const reference = files.find(
+      (f) => f.isPrimary && f.fileType === "audio" && f.integratedLoudness !== undefined
+    );
+    if (!reference) {
+      return null;
+    }
+
+    return {
+      label: reference.fileName ?? song.title,
+      integratedLoudness: reference.integratedLoudness!,
+    };
+  },
+});
+
+/**
+ * Get comments on a bounce, in playback order
+ *
+ * Comments without a timestamp are general notes and sort last.
+ */
+export const getComments = query({
+  args: { bounceId: v.id("bounces") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      await verifyBounceAccess(ctx, args.bounceId, userId);
+    } catch {
+      return [];
+    }
+
+    const comments = await getActiveComments(ctx, args.bounceId);
+
+    const authorIds = [...new Set(comments.map((c) => c.userId))];
+    const authors = await Promise.all(authorIds.map((id) => ctx.db.get(id)));
+    const authorNames = new Map(
+      authors.flatMap((author) => (author ? [[author._id, author.name]] : []))
+    );
+
+    return comments
+      .map((comment) => ({
+        _id: comment._id,
+        content: comment.content,
+        timestampSeconds: comment.timestampSeconds,
+        createdAt: comment.createdAt,
+        authorName: authorNames.get(comment.userId) ?? null,
+        isOwn: comment.userId === userId,
+      }))
+      .sort((a, b) => {
+        const aTime = a.timestampSeconds ?? Infinity;
+        const bTime = b.timestampSeconds ?? Infinity;
+        if (aTime !== bTime) return aTime - bTime;
+        return a.createdAt - b.createdAt;
+      });
+  },
+});
+
+// ============ MUTATIONS ============
+
+/**
+ * Save an uploaded bounce to a recording song
+ *
+ * Storage is charged against the uploader's quota, same as song files.
+ */
+export const saveBounce = mutation({
+  args: {
+    recordingSongId: v.id("recordingSongs"),
+    storageId: v.id("_storage"),
+    versionLabel: v.optional(v.string()),
+    fileName: v.optional(v.string()),
+    fileSize: v.number(),
+    mimeType: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    try {
+      await verifyRecordingSongAccess(ctx, args.recordingSongId, userId);
+    } catch (err) {
+      await ctx.storage.delete(args.storageId);
+      throw err;
+    }
+
+    // Validate file size
+    if (args.fileSize > MAX_FILE_SIZE_BYTES) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error(`File too large. Maximum size is 100MB.`);
+    }
+
+    // Check user storage quota
+    const user = await ctx.db.get(userId);
+    const currentUsage = user?.storageUsedBytes ?? 0;
+    if (currentUsage + args.fileSize > MAX_USER_STORAGE_BYTES) {
+      await ctx.storage.delete(args.storageId);
+      const remainingMB = Math.floor(
+        (MAX_USER_STORAGE_BYTES - currentUsage) / 1024 / 1024
+      );
+      throw new Error(
+        `Storage quota exceeded. You have ${remainingMB}MB remaining.`
+      );
+    }
+
+    await ctx.db.patch(userId, {
+      storageUsedBytes: currentUsage + args.fileSize,
+      updatedAt: Date.now(),
+    });
+
+    // Default label continues the numbering: "Mix 1", "Mix 2", ...
+    let versionLabel = args.versionLabel?.trim();
+    if (!versionLabel) {
+      const existing = await ctx.db
+        .query("bounces")
+        .withIndex("by_song", (q) => q.eq("recordingSongId", args.recordingSongId))
+        .collect();
+      versionLabel = `Mix ${existing.length + 1}`;
+    }
+
+    const bounceId = await ctx.db.insert("bounces", {
+      recordingSongId: args.recordingSongId,
+      versionLabel,
+      storageId: args.storageId,
+      fileName: args.fileName,
+      fileSize: args.fileSize,
+      mimeType: args.mimeType,
+      uploadedBy: userId,
+      createdAt: Date.now(),
+    });
+
+    return bounceId;
+  },
+});
+
+/**
+ * Save waveform peaks, duration and level report for a bounce
+ * Called from client after analyzing the audio with Web Audio API
+ */
+export const saveBounceAnalysis = mutation({
+  args: {
+    id: v.id("bounces"),
+    waveformPeaks: v.array(v.number()),
+    durationSeconds: v.optional(v.number()),
+    integratedLoudness: v.optional(v.number()),
+    truePeak: v.optional(v.number()),
+    crestFactor: v.optional(v.number()),
+    clippedRuns: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyBounceAccess(ctx, args.id, userId);
+
+    const updates: Partial<{
+      waveformPeaks: number[];
+      durationSeconds: number;
+      integratedLoudness: number;
+      truePeak: number;
+      crestFactor: number;
+      clippedRuns: number;
+    }> = {
+      waveformPeaks: args.waveformPeaks,
+    };
+
+    if (args.durationSeconds !== undefined) {
+      updates.durationSeconds = args.durationSeconds;
+    }
+    if (args.integratedLoudness !== undefined) {
+      updates.integratedLoudness = args.integratedLoudness;
+    }
+    if (args.truePeak !== undefined) {
+      updates.truePeak = args.truePeak;
+    }
+    if (args.crestFactor !== undefined) {
+      updates.crestFactor = args.crestFactor;
+    }
+    if (args.clippedRuns !== undefined) {
+      updates.clippedRuns = args.clippedRuns;
+    }
+
+    await ctx.db.patch(args.id, updates);
+
+    return args.id;
+  },
+});
+
+/**
+ * Rename a bounce's version label
+ */
+export const updateLabel = mutation({
+  args: {
+    id: v.id("bounces"),
+    versionLabel: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyBounceAccess(ctx, args.id, userId);
+
+    const versionLabel = args.versionLabel.trim();
+    if (!versionLabel) {
+      throw new Error("Version label cannot be empty");
+    }
+
+    await ctx.db.patch(args.id, { versionLabel });
+
+    return args.id;
+  },
+});
+
+/**
+ * Delete a bounce and its comments
+ *
+ * Bounces are superseded rather than archived, so the audio is removed
+ * from storage right away and the uploader's quota reclaimed.
+ */
+export const remove = mutation({
+  args: { id: v.id("bounces") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const bounce = await verifyBounceAccess(ctx, args.id, userId);
+
+    await ctx.storage.delete(bounce.storageId);
+
+    const uploaderId = bounce.uploadedBy ?? userId;
+    const uploader = await ctx.db.get(uploaderId);
+    if (uploader) {
+      await ctx.db.patch(uploaderId, {
+        storageUsedBytes: Math.max(0, (uploader.storageUsedBytes ?? 0) - bounce.fileSize),
+        updatedAt: Date.now(),
+      });
+    }
+
+    const comments = await ctx.db
+      .query("bounceComments")
+      .withIndex("by_bounce", (q) => q.eq("bounceId", args.id))
+      .collect();
+    for (const comment of comments) {
+      await ctx.db.delete(comment._id);
+    }
+
+    await ctx.db.delete(args.id);
+
+    return args.id;
+  },
+});
+
+/**
+ * Leave a comment on a bounce, optionally pinned to a moment in the mix
+ */
+export const addComment = mutation({
+  args: {
+    bounceId: v.id("bounces"),
+    content: v.string(),
+    timestampSeconds: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const bounce = await verifyBounceAccess(ctx, args.bounceId, userId);
+
+    const content = args.content.trim();
+    if (!content) {
+      throw new Error("Comment cannot be empty");
+    }
+    if (content.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`Comment must be ${MAX_COMMENT_LENGTH} characters or less`);
+    }
+
+    let timestampSeconds: number | undefined;
+    if (args.timestampSeconds !== undefined) {
+      if (args.timestampSeconds < 0) {
+        throw new Error("Timestamp cannot be negative");
+      }
+      timestampSeconds =
+        bounce.durationSeconds !== undefined
+          ? Math.min(args.timestampSeconds, bounce.durationSeconds)
+          : args.timestampSeconds;
+    }
+
+    const commentId = await ctx.db.insert("bounceComments", {
+      bounceId: args.bounceId,
+      userId,
+      timestampSeconds,
+      content,
+      createdAt: Date.now(),
+    });
+
+    return commentId;
+  },
+});
+
+/**
+ * Remove one of your own comments (soft delete)
+ */
+export const removeComment = mutation({
+  args: { id: v.id("bounceComments") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const comment = await ctx.db.get(args.id);
+    if (!comment || comment.deletedAt) {
+      throw new Error("Comment not found");
+    }
+
+    await verifyBounceAccess(ctx, comment.bounceId, userId);
+
+    if (comment.userId !== userId) {
+      throw new Error("You can only delete your own comments");
+    }
+
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
+
+    return args.id;
+  },
+});
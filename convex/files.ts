@@ -1,7 +1,9 @@
 import { v } from "convex/values";
 import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { Id, Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { isSameKey, isSameMode } from "./musicalKeys";
 
 // ============ CONSTANTS ============
 
@@ -423,17 +425,24 @@ export const setPrimary = mutation({
     // Set this file as primary
     await ctx.db.patch(args.id, { isPrimary: true });
 
+    // Setlist durations fall back to the primary audio file's length
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId: file.songId,
+    });
+
     // If this is an audio file with analysis data, return diff for client confirmation
-    if (file.fileType === "audio" && (file.detectedTempo !== undefined || file.detectedKey !== undefined || file.durationSeconds !== undefined)) {
+    if (file.fileType === "audio" && (file.detectedTempo !== undefined || file.detectedKey !== undefined || file.detectedMode !== undefined || file.durationSeconds !== undefined)) {
       const hasConflict =
         (file.durationSeconds !== undefined && song.durationSeconds !== undefined && song.durationSeconds !== Math.round(file.durationSeconds)) ||
         (file.detectedTempo !== undefined && song.tempo !== undefined && song.tempo !== file.detectedTempo) ||
-        (file.detectedKey !== undefined && song.key !== undefined && song.key !== file.detectedKey);
+        (file.detectedKey !== undefined && song.key !== undefined && !isSameKey(song.key, file.detectedKey)) ||
+        (file.detectedMode !== undefined && song.mode !== undefined && !isSameMode(song.mode, file.detectedMode));
 
       const songHasNoMetadata =
         song.durationSeconds === undefined &&
         song.tempo === undefined &&
-        song.key === undefined;
+        song.key === undefined &&
+        song.mode === undefined;
 
       return {
         fileId: args.id,
@@ -444,11 +453,14 @@ export const setPrimary = mutation({
           durationSeconds: file.durationSeconds ? Math.round(file.durationSeconds) : undefined,
           tempo: file.detectedTempo,
           key: file.detectedKey,
+          mode: file.detectedMode,
+          analysisConfidence: file.analysisConfidence,
         },
         current: {
           durationSeconds: song.durationSeconds,
           tempo: song.tempo,
           key: song.key,
+          mode: song.mode,
         },
       };
     }
@@ -463,6 +475,7 @@ export const setPrimary = mutation({
         durationSeconds: song.durationSeconds,
         tempo: song.tempo,
         key: song.key,
+        mode: song.mode,
       },
     };
   },
@@ -498,6 +511,10 @@ export const softDelete = mutation({
 
     // If this was the primary file, promote the next file
     if (wasPrimary) {
+      await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+        songId: file.songId,
+      });
+
       const remainingFiles = await ctx.db
         .query("songFiles")
         .withIndex("by_song_active", (q) =>
@@ -516,17 +533,20 @@ export const softDelete = mutation({
         if (newPrimary.fileType === "audio" && (
           newPrimary.detectedTempo !== undefined ||
           newPrimary.detectedKey !== undefined ||
+          newPrimary.detectedMode !== undefined ||
           newPrimary.durationSeconds !== undefined
         )) {
           const hasConflict =
             (newPrimary.durationSeconds !== undefined && song.durationSeconds !== undefined && song.durationSeconds !== Math.round(newPrimary.durationSeconds)) ||
             (newPrimary.detectedTempo !== undefined && song.tempo !== undefined && song.tempo !== newPrimary.detectedTempo) ||
-            (newPrimary.detectedKey !== undefined && song.key !== undefined && song.key !== newPrimary.detectedKey);
+            (newPrimary.detectedKey !== undefined && song.key !== undefined && !isSameKey(song.key, newPrimary.detectedKey)) ||
+            (newPrimary.detectedMode !== undefined && song.mode !== undefined && !isSameMode(song.mode, newPrimary.detectedMode));
 
           const songHasNoMetadata =
             song.durationSeconds === undefined &&
             song.tempo === undefined &&
-            song.key === undefined;
+            song.key === undefined &&
+            song.mode === undefined;
 
           return {
             archivedFileId: args.id,
@@ -538,11 +558,14 @@ export const softDelete = mutation({
               durationSeconds: newPrimary.durationSeconds ? Math.round(newPrimary.durationSeconds) : undefined,
               tempo: newPrimary.detectedTempo,
               key: newPrimary.detectedKey,
+              mode: newPrimary.detectedMode,
+              analysisConfidence: newPrimary.analysisConfidence,
             },
             current: {
               durationSeconds: song.durationSeconds,
               tempo: song.tempo,
               key: song.key,
+              mode: song.mode,
             },
           };
         }
@@ -558,6 +581,7 @@ export const softDelete = mutation({
             durationSeconds: song.durationSeconds,
             tempo: song.tempo,
             key: song.key,
+            mode: song.mode,
           },
         };
       }
@@ -575,6 +599,7 @@ export const softDelete = mutation({
         durationSeconds: song.durationSeconds,
         tempo: song.tempo,
         key: song.key,
+        mode: song.mode,
       },
     };
   },
@@ -589,6 +614,7 @@ export const updateMetadata = mutation({
     variantLabel: v.optional(v.string()),
     fileName: v.optional(v.string()),
     fileType: v.optional(v.string()),
+    instrument: v.optional(v.string()), // Empty string clears the tag
   },
   handler: async (ctx, args) => {
     const userId = await getCurrentUserId(ctx);
@@ -605,6 +631,7 @@ export const updateMetadata = mutation({
       variantLabel: string;
       fileName: string;
       fileType: string;
+      instrument: string | undefined;
     }> = {};
 
     if (args.variantLabel !== undefined) {
@@ -619,6 +646,9 @@ export const updateMetadata = mutation({
       }
       updates.fileType = args.fileType;
     }
+    if (args.instrument !== undefined) {
+      updates.instrument = args.instrument.trim() || undefined;
+    }
 
     await ctx.db.patch(args.id, updates);
 
@@ -711,21 +741,30 @@ export const restore = mutation({
       isPrimary: willBePrimary,
     });
 
+    if (willBePrimary) {
+      await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+        songId: file.songId,
+      });
+    }
+
     // If this file becomes primary and is audio with metadata, return info for dialog
     if (willBePrimary && file.fileType === "audio" && (
       file.detectedTempo !== undefined ||
       file.detectedKey !== undefined ||
+      file.detectedMode !== undefined ||
       file.durationSeconds !== undefined
     )) {
       const hasConflict =
         (file.durationSeconds !== undefined && song.durationSeconds !== undefined && song.durationSeconds !== Math.round(file.durationSeconds)) ||
         (file.detectedTempo !== undefined && song.tempo !== undefined && song.tempo !== file.detectedTempo) ||
-        (file.detectedKey !== undefined && song.key !== undefined && song.key !== file.detectedKey);
+        (file.detectedKey !== undefined && song.key !== undefined && !isSameKey(song.key, file.detectedKey)) ||
+        (file.detectedMode !== undefined && song.mode !== undefined && !isSameMode(song.mode, file.detectedMode));
 
       const songHasNoMetadata =
         song.durationSeconds === undefined &&
         song.tempo === undefined &&
-        song.key === undefined;
+        song.key === undefined &&
+        song.mode === undefined;
 
       return {
         restoredFileId: args.id,
@@ -737,11 +776,14 @@ export const restore = mutation({
           durationSeconds: file.durationSeconds ? Math.round(file.durationSeconds) : undefined,
           tempo: file.detectedTempo,
           key: file.detectedKey,
+          mode: file.detectedMode,
+          analysisConfidence: file.analysisConfidence,
         },
         current: {
           durationSeconds: song.durationSeconds,
           tempo: song.tempo,
           key: song.key,
+          mode: song.mode,
         },
       };
     }
@@ -757,6 +799,7 @@ export const restore = mutation({
         durationSeconds: song.durationSeconds,
         tempo: song.tempo,
         key: song.key,
+        mode: song.mode,
       },
     };
   },
@@ -797,6 +840,31 @@ export const permanentDelete = mutation({
       }
     }
 
+    // Zoom levels, saved loops and suggested sections are only reachable through the file
+    const waveformLevels = await ctx.db
+      .query("waveformLevels")
+      .withIndex("by_file", (q) => q.eq("songFileId", args.id))
+      .collect();
+    for (const level of waveformLevels) {
+      await ctx.db.delete(level._id);
+    }
+
+    const loops = await ctx.db
+      .query("practiceLoops")
+      .withIndex("by_file", (q) => q.eq("songFileId", args.id))
+      .collect();
+    for (const loop of loops) {
+      await ctx.db.delete(loop._id);
+    }
+
+    const drafts = await ctx.db
+      .query("sectionDrafts")
+      .withIndex("by_file", (q) => q.eq("songFileId", args.id))
+      .collect();
+    for (const draft of drafts) {
+      await ctx.db.delete(draft._id);
+    }
+
     // Permanently delete the record
     await ctx.db.delete(args.id);
 
@@ -0,0 +1,225 @@
+import { Doc } from "./_generated/dataModel";
+
+/**
+ * Gear delta computation for setlists
+ *
+ * Pure helpers (no database access) that diff two gear configurations and
+ * describe what has to physically change between them: pedals switched
+ * on/off, knobs turned, synth patches changed.
+ */
+
+// ============ TYPES ============
+
+export type GearSettings = NonNullable<Doc<"songSections">["gearSettings"]>;
+export type GearPiece = GearSettings["gear"][number];
+export type StartingGearSettings = NonNullable<Doc<"setlists">["startingGearSettings"]>;
+
+export interface KnobChange {
+  label: string;
+  /** Previous position (0-1), undefined if the knob wasn't set before */
+  from?: number;
+  /** New position (0-1) */
+  to: number;
+}
+
+export interface PatchChange {
+  from?: string;
+  fromName?: string;
+  to?: string;
+  toName?: string;
+}
+
+export interface GearPieceDelta {
+  name: string;
+  type: string;
+  /** Set when the piece's on/off state changes */
+  toggle?: "on" | "off";
+  knobChanges: KnobChange[];
+  patchChange?: PatchChange;
+}
+
+export interface InstrumentGearDelta {
+  instrument: string;
+  changes: GearPieceDelta[];
+}
+
+// ============ CONSTANTS ============
+
+// Knob moves smaller than this are ignored (half a step on the 0-10 dial)
+const KNOB_CHANGE_THRESHOLD = 0.05;
+
+// Instruments with a dedicated slot in setlists.startingGearSettings;
+// anything else lives under startingGearSettings.other[instrument]
+const STARTING_GEAR_SLOTS = ["guitar", "synth", "bass", "drums"] as const;
+
+type StartingGearSlot = (typeof STARTING_GEAR_SLOTS)[number];
+
+// ============ HELPERS ============
+
+/**
+ * Look up the starting gear for an instrument
+ */
+export function getStartingGear(
+  starting: StartingGearSettings | undefined,
+  instrument: string
+): GearSettings | undefined {
+  if (!starting) return undefined;
+  if (STARTING_GEAR_SLOTS.includes(instrument as StartingGearSlot)) {
+    return starting[instrument as StartingGearSlot];
+  }
+  return starting.other?.[instrument];
+}
+
+/**
+ * List every instrument that has starting gear configured
+ */
+function getStartingInstruments(starting: StartingGearSettings | undefined): string[] {
+  if (!starting) return [];
+  const instruments: string[] = STARTING_GEAR_SLOTS.filter((slot) => starting[slot]);
+  if (starting.other) {
+    instruments.push(...Object.keys(starting.other));
+  }
+  return instruments;
+}
+
+function findKnobChanges(
+  fromKnobs: GearPiece["knobs"],
+  toKnobs: GearPiece["knobs"]
+): KnobChange[] {
+  const fromMap = new Map(fromKnobs.map((k) => [k.label, k.position]));
+  const changes: KnobChange[] = [];
+
+  for (const toKnob of toKnobs) {
+    const fromPosition = fromMap.get(toKnob.label);
+    if (
+      fromPosition === undefined ||
+      Math.abs(fromPosition - toKnob.position) > KNOB_CHANGE_THRESHOLD
+    ) {
+      changes.push({ label: toKnob.label, from: fromPosition, to: toKnob.position });
+    }
+  }
+
+  return changes;
+}
+
+function findPatchChange(
+  fromPiece: GearPiece | undefined,
+  toPiece: GearPiece
+): PatchChange | undefined {
+  if (!toPiece.patch && !toPiece.patchName) return undefined;
+  if (
+    fromPiece &&
+    fromPiece.patch === toPiece.patch &&
+    fromPiece.patchName === toPiece.patchName
+  ) {
+    return undefined;
+  }
+  return {
+    from: fromPiece?.patch,
+    fromName: fromPiece?.patchName,
+    to: toPiece.patch,
+    toName: toPiece.patchName,
+  };
+}
+
+// ============ DELTA COMPUTATION ============
+
+/**
+ * Diff two gear configurations for a single instrument
+ *
+ * Pieces are matched by name. A piece that only exists on one side is
+ * treated as switched off on the other side.
+ */
+export function computeGearDelta(
+  fromGear: GearSettings | undefined,
+  toGear: GearSettings | undefined
+): GearPieceDelta[] {
+  const fromMap = new Map((fromGear?.gear ?? []).map((g) => [g.name, g]));
+  const toMap = new Map((toGear?.gear ?? []).map((g) => [g.name, g]));
+  const deltas: GearPieceDelta[] = [];
+
+  // Walk the destination in signal chain order
+  for (const [name, toPiece] of toMap) {
+    const fromPiece = fromMap.get(name);
+    const wasEnabled = fromPiece?.enabled ?? false;
+
+    if (!toPiece.enabled) {
+      if (wasEnabled) {
+        deltas.push({ name, type: toPiece.type, toggle: "off", knobChanges: [] });
+      }
+      continue;
+    }
+
+    const knobChanges = findKnobChanges(fromPiece?.knobs ?? [], toPiece.knobs);
+    const patchChange = findPatchChange(fromPiece, toPiece);
+    const toggle = wasEnabled ? undefined : "on";
+
+    if (toggle || knobChanges.length > 0 || patchChange) {
+      deltas.push({ name, type: toPiece.type, toggle, knobChanges, patchChange });
+    }
+  }
+
+  // Pieces dropped from the chain entirely
+  for (const [name, fromPiece] of fromMap) {
+    if (!toMap.has(name) && fromPiece.enabled) {
+      deltas.push({ name, type: fromPiece.type, toggle: "off", knobChanges: [] });
+    }
+  }
+
+  return deltas;
+}
+
+/**
+ * Count the physical actions in a delta (toggles, knob turns, patch changes)
+ */
+export function countGearActions(instruments: InstrumentGearDelta[]): number {
+  let count = 0;
+  for (const instrument of instruments) {
+    for (const change of instrument.changes) {
+      if (change.toggle) count++;
+      if (change.patchChange) count++;
+      count += change.knobChanges.length;
+    }
+  }
+  return count;
+}
+
+/**
+ * Walk songs in setlist order and compute the gear changes needed before each one
+ *
+ * Each song's sections are grouped by instrument. The first section's gear is
+ * diffed against the current state of that instrument (the previous song's
+ * last section, or the setlist's starting gear), then the state advances to
+ * the song's last section. Instruments a song doesn't use keep their state.
+ */
+export function computeSetlistGearDeltas(
+  starting: StartingGearSettings | undefined,
+  songs: { sections: Doc<"songSections">[] }[]
+): InstrumentGearDelta[][] {
+  const state = new Map<string, GearSettings | undefined>();
+  for (const instrument of getStartingInstruments(starting)) {
+    state.set(instrument, getStartingGear(starting, instrument));
+  }
+
+  return songs.map(({ sections }) => {
+    // Group sections with gear by instrument, in position order
+    const byInstrument = new Map<string, GearSettings[]>();
+    for (const section of [...sections].sort((a, b) => a.position - b.position)) {
+      if (!section.gearSettings) continue;
+      const list = byInstrument.get(section.instrument) ?? [];
+      list.push(section.gearSettings);
+      byInstrument.set(section.instrument, list);
+    }
+
+    const songDeltas: InstrumentGearDelta[] = [];
+    for (const [instrument, gearList] of byInstrument) {
+      const changes = computeGearDelta(state.get(instrument), gearList[0]);
+      if (changes.length > 0) {
+        songDeltas.push({ instrument, changes });
+      }
+      state.set(instrument, gearList[gearList.length - 1]);
+    }
+
+    return songDeltas;
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Key and mode comparison
+ *
+ * Pure helpers (no database access) for comparing song metadata with what
+ * audio analysis detected, where the same key can be spelled several ways.
+ */
+
+// ============ CONSTANTS ============
+
+// Semitones above C for each natural note, to compare keys across spellings
+const NATURAL_PITCH_CLASSES: Record<string, number> = {
+  C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11,
+};
+
+// Modes that are the same scale under another name
+const MODE_ALIASES: Record<string, string> = {
+  aeolian: "minor",
+  ionian: "major",
+};
+
+// ============ HELPERS ============
+
+/**
+ * Pitch class (0-11) of a key name such as "Bb" or "A#"
+ * Returns null for names that don't start with a note letter
+ */
+function getPitchClass(key: string): number | null {
+  const match = /^([A-G])([#b]?)/.exec(key.trim());
+  if (!match) return null;
+  const offset = match[2] === "#" ? 1 : match[2] === "b" ? -1 : 0;
+  return (NATURAL_PITCH_CLASSES[match[1]] + offset + 12) % 12;
+}
+
+/**
+ * Whether two key names are the same key, so "Bb" matches a detected "A#"
+ */
+export function isSameKey(a: string, b: string): boolean {
+  const pitchA = getPitchClass(a);
+  const pitchB = getPitchClass(b);
+  if (pitchA === null || pitchB === null) return a === b;
+  return pitchA === pitchB;
+}
+
+/**
+ * Whether two mode names are the same scale, so "Aeolian" matches "Minor"
+ */
+export function isSameMode(a: string, b: string): boolean {
+  const normalize = (mode: string) => {
+    const lower = mode.trim().toLowerCase();
+    return MODE_ALIASES[lower] ?? lower;
+  };
+  return normalize(a) === normalize(b);
+}
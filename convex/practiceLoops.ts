@@ -0,0 +1,178 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id, Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============ CONSTANTS ============
+
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 1;
+const MAX_NAME_LENGTH = 60;
+
+// ============ HELPERS ============
+
+async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+/**
+ * Verify user owns the band that owns the file's song
+ */
+async function verifyFileAccess(
+  ctx: QueryCtx | MutationCtx,
+  fileId: Id<"songFiles">,
+  userId: Id<"users">
+): Promise<Doc<"songFiles">> {
+  const file = await ctx.db.get(fileId);
+  if (!file || file.deletedAt) {
+    throw new Error("File not found");
+  }
+
+  const song = await ctx.db.get(file.songId);
+  if (!song || song.deletedAt) {
+    throw new Error("Song not found");
+  }
+
+  const band = await ctx.db.get(song.bandId);
+  if (!band || band.deletedAt) {
+    throw new Error("Band not found");
+  }
+
+  if (band.createdBy !== userId) {
+    throw new Error("Not authorized to access this song");
+  }
+
+  return file;
+}
+
+function validatePlaybackRate(rate: number): number {
+  if (!Number.isFinite(rate) || rate < MIN_PLAYBACK_RATE || rate > MAX_PLAYBACK_RATE) {
+    throw new Error("Playback rate must be between 50% and 100%");
+  }
+  return Math.round(rate * 100) / 100;
+}
+
+// ============ QUERIES ============
+
+/**
+ * Get the user's saved loops for a song file, in playback order
+ */
+export const listByFile = query({
+  args: { fileId: v.id("songFiles") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      await verifyFileAccess(ctx, args.fileId, userId);
+    } catch {
+      return [];
+    }
+
+    const loops = await ctx.db
+      .query("practiceLoops")
+      .withIndex("by_file", (q) => q.eq("songFileId", args.fileId))
+      .collect();
+
+    return loops
+      .filter((loop) => loop.userId === userId)
+      .sort((a, b) => a.startSeconds - b.startSeconds);
+  },
+});
+
+// ============ MUTATIONS ============
+
+/**
+ * Save a loop region on a song file
+ */
+export const create = mutation({
+  args: {
+    fileId: v.id("songFiles"),
+    name: v.string(),
+    startSeconds: v.number(),
+    endSeconds: v.number(),
+    playbackRate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const file = await verifyFileAccess(ctx, args.fileId, userId);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Loop name is required");
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Loop name must be ${MAX_NAME_LENGTH} characters or less`);
+    }
+
+    if (args.startSeconds < 0 || args.endSeconds <= args.startSeconds) {
+      throw new Error("Loop must end after it starts");
+    }
+    if (file.durationSeconds !== undefined && args.startSeconds >= file.durationSeconds) {
+      throw new Error("Loop starts after the end of the file");
+    }
+
+    return await ctx.db.insert("practiceLoops", {
+      userId,
+      songFileId: args.fileId,
+      name,
+      startSeconds: args.startSeconds,
+      endSeconds: args.endSeconds,
+      playbackRate:
+        args.playbackRate !== undefined ? validatePlaybackRate(args.playbackRate) : undefined,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remember the rate a loop was last practiced at
+ */
+export const updatePlaybackRate = mutation({
+  args: {
+    id: v.id("practiceLoops"),
+    playbackRate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const loop = await ctx.db.get(args.id);
+    if (!loop || loop.userId !== userId) {
+      throw new Error("Loop not found");
+    }
+
+    await ctx.db.patch(args.id, { playbackRate: validatePlaybackRate(args.playbackRate) });
+
+    return args.id;
+  },
+});
+
+/**
+ * Delete a saved loop
+ */
+export const remove = mutation({
+  args: { id: v.id("practiceLoops") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const loop = await ctx.db.get(args.id);
+    if (!loop || loop.userId !== userId) {
+      throw new Error("Loop not found");
+    }
+
+    await ctx.db.delete(args.id);
+
+    return args.id;
+  },
+});
@@ -0,0 +1,211 @@
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============ CONSTANTS ============
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_QUEUE_SIZE = 5;
+const MAX_QUEUE_SIZE = 20;
+
+// Target days between runs for each status; a song is "due" once this much
+// time has passed since it was last practiced
+const REVIEW_INTERVAL_DAYS: Record<string, number> = {
+  new: 3,
+  learning: 1,
+  solid: 4,
+  performance_ready: 10,
+};
+
+// How much each status matters when equally overdue
+const STATUS_WEIGHT: Record<string, number> = {
+  new: 0.8,
+  learning: 1.2,
+  solid: 1,
+  performance_ready: 0.9,
+};
+
+// Never-practiced songs count as this many days stale
+const NEVER_PRACTICED_DAYS = 30;
+// Cap on overdue ratio so one ancient song can't drown out a gig
+const MAX_OVERDUE = 5;
+
+// Gigs within this window boost their songs, more as the date gets closer
+const SETLIST_HORIZON_DAYS = 30;
+const MAX_SETLIST_BOOST = 3;
+// Extra boost for gig songs that aren't performance ready yet
+const UNREADY_GIG_BOOST = 1.5;
+
+// ============ HELPERS ============
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+function dateToDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * Soonest upcoming setlist date per song, across the given bands
+ */
+async function getUpcomingGigs(
+  ctx: QueryCtx,
+  bandIds: Id<"bands">[],
+  today: number
+): Promise<Map<Id<"songs">, { daysUntil: number; setlistName: string }>> {
+  const gigs = new Map<Id<"songs">, { daysUntil: number; setlistName: string }>();
+
+  for (const bandId of bandIds) {
+    const setlists = await ctx.db
+      .query("setlists")
+      .withIndex("by_band_active", (q) => q.eq("bandId", bandId).eq("deletedAt", undefined))
+      .collect();
+
+    for (const setlist of setlists) {
+      if (!setlist.date || !DATE_PATTERN.test(setlist.date)) continue;
+      const daysUntil = dateToDayNumber(setlist.date) - today;
+      if (daysUntil < 0 || daysUntil > SETLIST_HORIZON_DAYS) continue;
+
+      const items = await ctx.db
+        .query("setlistItems")
+        .withIndex("by_setlist", (q) => q.eq("setlistId", setlist._id))
+        .collect();
+
+      for (const item of items) {
+        const existing = gigs.get(item.songId);
+        if (!existing || daysUntil < existing.daysUntil) {
+          gigs.set(item.songId, {
+            daysUntil,
+            setlistName: setlist.name || setlist.venue || "Upcoming show",
+          });
+        }
+      }
+    }
+  }
+
+  return gigs;
+}
+
+// ============ QUERIES ============
+
+/**
+ * Today's practice queue across all of the current user's bands
+ *
+ * Songs are scored by how overdue they are for their practice status, and
+ * boosted when they're on a setlist in the next few weeks. Songs already
+ * practiced today drop out. `today` is the client's local date (YYYY-MM-DD).
+ */
+export const getToday = query({
+  args: {
+    today: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId || !DATE_PATTERN.test(args.today)) {
+      return [];
+    }
+
+    const today = dateToDayNumber(args.today);
+    const limit = Math.min(Math.max(Math.round(args.limit ?? DEFAULT_QUEUE_SIZE), 1), MAX_QUEUE_SIZE);
+
+    const bands = (
+      await ctx.db
+        .query("bands")
+        .withIndex("by_created_by", (q) => q.eq("createdBy", userId))
+        .collect()
+    ).filter((b) => !b.deletedAt);
+    const bandNames = new Map(bands.map((b) => [b._id, b.name]));
+
+    const songs = (
+      await Promise.all(
+        bands.map((band) =>
+          ctx.db
+            .query("songs")
+            .withIndex("by_band_active", (q) => q.eq("bandId", band._id).eq("deletedAt", undefined))
+            .collect()
+        )
+      )
+    ).flat();
+
+    // Most recent session date per song
+    const sessions = await ctx.db
+      .query("practiceSessions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const lastPracticed = new Map<Id<"songs">, number>();
+    for (const session of sessions) {
+      const day = dateToDayNumber(session.date);
+      if (isNaN(day)) continue;
+      for (const songId of session.songsWorked ?? []) {
+        const previous = lastPracticed.get(songId);
+        if (previous === undefined || day > previous) {
+          lastPracticed.set(songId, day);
+        }
+      }
+    }
+
+    const gigs = await getUpcomingGigs(
+      ctx,
+      bands.map((b) => b._id),
+      today
+    );
+
+    const scored = songs.flatMap((song) => {
+      const last = lastPracticed.get(song._id);
+      const daysSince = last !== undefined ? today - last : null;
+      if (daysSince !== null && daysSince <= 0) return [];
+
+      const interval = REVIEW_INTERVAL_DAYS[song.practiceStatus] ?? REVIEW_INTERVAL_DAYS.new;
+      const weight = STATUS_WEIGHT[song.practiceStatus] ?? STATUS_WEIGHT.new;
+      const overdue = Math.min((daysSince ?? NEVER_PRACTICED_DAYS) / interval, MAX_OVERDUE);
+
+      const reasons: string[] = [];
+      let boost = 1;
+
+      const gig = gigs.get(song._id);
+      if (gig) {
+        boost += ((SETLIST_HORIZON_DAYS - gig.daysUntil) / SETLIST_HORIZON_DAYS) * (MAX_SETLIST_BOOST - 1);
+        if (song.practiceStatus !== "performance_ready") {
+          boost *= UNREADY_GIG_BOOST;
+        }
+        reasons.push(
+          gig.daysUntil === 0
+            ? `On tonight's setlist (${gig.setlistName})`
+            : `${gig.setlistName} in ${gig.daysUntil} ${gig.daysUntil === 1 ? "day" : "days"}`
+        );
+      }
+
+      if (daysSince === null) {
+        reasons.push("Never practiced");
+      } else if (daysSince >= interval) {
+        reasons.push(`Not practiced in ${daysSince} ${daysSince === 1 ? "day" : "days"}`);
+      }
+
+      if (song.practiceStatus === "learning") {
+        reasons.push("Still learning");
+      }
+
+      return [
+        {
+          _id: song._id,
+          bandId: song.bandId,
+          bandName: bandNames.get(song.bandId) ?? "",
+          title: song.title,
+          practiceStatus: song.practiceStatus,
+          daysSincePracticed: daysSince,
+          score: weight * overdue * boost,
+          reasons,
+        },
+      ];
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+      .slice(0, limit);
+  },
+});
@@ -0,0 +1,373 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id, Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============ CONSTANTS ============
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_DURATION_MINUTES = 24 * 60;
+// Same range songs accept for tempo
+const MIN_TEMPO = 1;
+const MAX_TEMPO = 400;
+
+// ============ HELPERS ============
+
+async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+/**
+ * Verify user owns the band
+ */
+async function verifyBandOwnership(
+  ctx: QueryCtx | MutationCtx,
+  bandId: Id<"bands">,
+  userId: Id<"users">
+): Promise<Doc<"bands">> {
+  const band = await ctx.db.get(bandId);
+  if (!band || band.deletedAt) {
+    throw new Error("Band not found");
+  }
+
+  if (band.createdBy !== userId) {
+    throw new Error("Not authorized to access this band");
+  }
+
+  return band;
+}
+
+/**
+ * Verify every worked song belongs to one of the user's bands (and to the
+ * session's band, when one is set). Duplicates are dropped.
+ */
+async function verifySongsWorked(
+  ctx: MutationCtx,
+  songIds: Id<"songs">[],
+  userId: Id<"users">,
+  bandId: Id<"bands"> | undefined
+): Promise<Id<"songs">[]> {
+  const uniqueIds = [...new Set(songIds)];
+
+  for (const songId of uniqueIds) {
+    const song = await ctx.db.get(songId);
+    if (!song || song.deletedAt) {
+      throw new Error("Song not found");
+    }
+    if (bandId && song.bandId !== bandId) {
+      throw new Error("Songs must belong to the session's band");
+    }
+    await verifyBandOwnership(ctx, song.bandId, userId);
+  }
+
+  return uniqueIds;
+}
+
+/**
+ * Songs the user can still log practice against, from ids recorded on the
+ * client. Unknown, malformed, archived and other users' songs are dropped.
+ */
+async function getAvailableSongs(
+  ctx: MutationCtx,
+  songIds: string[],
+  userId: Id<"users">
+): Promise<Doc<"songs">[]> {
+  const songs: Doc<"songs">[] = [];
+
+  for (const rawId of new Set(songIds)) {
+    const songId = ctx.db.normalizeId("songs", rawId);
+    if (!songId) continue;
+
+    const song = await ctx.db.get(songId);
+    if (!song || song.deletedAt) continue;
+
+    const band = await ctx.db.get(song.bandId);
+    if (!band || band.deletedAt || band.createdBy !== userId) continue;
+
+    songs.push(song);
+  }
+
+  return songs;
+}
+
+function validateDate(date: string): string {
+  const trimmed = date.trim();
+  if (!DATE_PATTERN.test(trimmed) || isNaN(Date.parse(trimmed))) {
+    throw new Error("Date must be in YYYY-MM-DD format");
+  }
+  return trimmed;
+}
+
+function validateDuration(durationMinutes: number): number {
+  const rounded = Math.round(durationMinutes);
+  if (rounded < 1 || rounded > MAX_DURATION_MINUTES) {
+    throw new Error("Duration must be between 1 minute and 24 hours");
+  }
+  return rounded;
+}
+
+function validateTempo(tempo: number): number {
+  if (tempo < MIN_TEMPO || tempo > MAX_TEMPO) {
+    throw new Error(`Tempo must be between ${MIN_TEMPO} and ${MAX_TEMPO} BPM`);
+  }
+  return Math.round(tempo);
+}
+
+/**
+ * Attach band name and worked songs for display
+ */
+async function withDetails(ctx: QueryCtx, session: Doc<"practiceSessions">) {
+  const band = session.bandId ? await ctx.db.get(session.bandId) : null;
+
+  const songs = await Promise.all(
+    (session.songsWorked ?? []).map((songId) => ctx.db.get(songId))
+  );
+
+  return {
+    ...session,
+    bandName: band && !band.deletedAt ? band.name : undefined,
+    songs: songs.flatMap((song) =>
+      song && !song.deletedAt
+        ? [{ _id: song._id, bandId: song.bandId, title: song.title }]
+        : []
+    ),
+  };
+}
+
+function sortNewestFirst(a: Doc<"practiceSessions">, b: Doc<"practiceSessions">): number {
+  if (a.date !== b.date) return b.date.localeCompare(a.date);
+  return b.createdAt - a.createdAt;
+}
+
+// ============ QUERIES ============
+
+/**
+ * List the current user's practice sessions, newest first
+ */
+export const list = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const sessions = await ctx.db
+      .query("practiceSessions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const sorted = sessions.sort(sortNewestFirst);
+    const limited = args.limit ? sorted.slice(0, args.limit) : sorted;
+
+    return await Promise.all(limited.map((session) => withDetails(ctx, session)));
+  },
+});
+
+/**
+ * List the current user's practice sessions that worked on a song
+ */
+export const listBySong = query({
+  args: { songId: v.id("songs") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const sessions = await ctx.db
+      .query("practiceSessions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const matching = sessions
+      .filter((s) => s.songsWorked?.includes(args.songId))
+      .sort(sortNewestFirst);
+
+    return await Promise.all(matching.map((session) => withDetails(ctx, session)));
+  },
+});
+
+// ============ MUTATIONS ============
+
+/**
+ * Log a practice session
+ *
+ * Speed trainer runs also record the tempo reached, which only makes sense
+ * for a single song. Returns the worked songs with their current practice
+ * status so the client can offer to bump them.
+ */
+export const create = mutation({
+  args: {
+    date: v.string(),
+    durationMinutes: v.optional(v.number()),
+    bandId: v.optional(v.id("bands")),
+    songIds: v.optional(v.array(v.id("songs"))),
+    notes: v.optional(v.string()),
+    maxTempo: v.optional(v.number()),
+    targetTempo: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const date = validateDate(args.date);
+    const durationMinutes =
+      args.durationMinutes !== undefined ? validateDuration(args.durationMinutes) : undefined;
+
+    if (args.bandId) {
+      await verifyBandOwnership(ctx, args.bandId, userId);
+    }
+
+    const songsWorked = await verifySongsWorked(ctx, args.songIds ?? [], userId, args.bandId);
+
+    const maxTempo = args.maxTempo !== undefined ? validateTempo(args.maxTempo) : undefined;
+    const targetTempo =
+      args.targetTempo !== undefined ? validateTempo(args.targetTempo) : undefined;
+    if ((maxTempo !== undefined || targetTempo !== undefined) && songsWorked.length !== 1) {
+      throw new Error("Tempo can only be logged for a single song");
+    }
+
+    const sessionId = await ctx.db.insert("practiceSessions", {
+      userId,
+      date,
+      durationMinutes,
+      bandId: args.bandId,
+      songsWorked: songsWorked.length > 0 ? songsWorked : undefined,
+      notes: args.notes?.trim() || undefined,
+      maxTempo,
+      targetTempo,
+      createdAt: Date.now(),
+    });
+
+    const songs = await Promise.all(songsWorked.map((songId) => ctx.db.get(songId)));
+
+    return {
+      sessionId,
+      songs: songs.flatMap((song) =>
+        song
+          ? [{ _id: song._id, title: song.title, practiceStatus: song.practiceStatus }]
+          : []
+      ),
+    };
+  },
+});
+
+/**
+ * Log a session timed with the practice timer
+ *
+ * The timer records songs as they're visited, and any of them may have been
+ * archived (or never been valid) by the time it stops. Those are skipped
+ * rather than failing the session. The band is set when every remaining
+ * song shares one.
+ */
+export const createFromTimer = mutation({
+  args: {
+    date: v.string(),
+    durationMinutes: v.number(),
+    songIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const date = validateDate(args.date);
+    const durationMinutes = validateDuration(args.durationMinutes);
+
+    const songs = await getAvailableSongs(ctx, args.songIds, userId);
+    const bandIds = new Set(songs.map((song) => song.bandId));
+    const bandId = bandIds.size === 1 ? [...bandIds][0] : undefined;
+
+    const sessionId = await ctx.db.insert("practiceSessions", {
+      userId,
+      date,
+      durationMinutes,
+      bandId,
+      songsWorked: songs.length > 0 ? songs.map((song) => song._id) : undefined,
+      createdAt: Date.now(),
+    });
+
+    return {
+      sessionId,
+      songs: songs.map((song) => ({
+        _id: song._id,
+        title: song.title,
+        practiceStatus: song.practiceStatus,
+      })),
+    };
+  },
+});
+
+/**
+ * Update a practice session
+ */
+export const update = mutation({
+  args: {
+    id: v.id("practiceSessions"),
+    date: v.optional(v.string()),
+    durationMinutes: v.optional(v.number()),
+    songIds: v.optional(v.array(v.id("songs"))),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const session = await ctx.db.get(args.id);
+    if (!session || session.userId !== userId) {
+      throw new Error("Practice session not found");
+    }
+
+    const updates: Partial<{
+      date: string;
+      durationMinutes: number;
+      songsWorked: Id<"songs">[];
+      notes: string;
+    }> = {};
+
+    if (args.date !== undefined) {
+      updates.date = validateDate(args.date);
+    }
+    if (args.durationMinutes !== undefined) {
+      updates.durationMinutes = validateDuration(args.durationMinutes);
+    }
+    if (args.songIds !== undefined) {
+      updates.songsWorked = await verifySongsWorked(ctx, args.songIds, userId, session.bandId);
+      if (session.maxTempo !== undefined && updates.songsWorked.length !== 1) {
+        throw new Error("Tempo can only be logged for a single song");
+      }
+    }
+    if (args.notes !== undefined) {
+      updates.notes = args.notes.trim();
+    }
+
+    await ctx.db.patch(args.id, updates);
+
+    return args.id;
+  },
+});
+
+/**
+ * Delete a practice session
+ */
+export const remove = mutation({
+  args: { id: v.id("practiceSessions") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const session = await ctx.db.get(args.id);
+    if (!session || session.userId !== userId) {
+      throw new Error("Practice session not found");
+    }
+
+    await ctx.db.delete(args.id);
+
+    return args.id;
+  },
+});
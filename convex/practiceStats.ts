@@ -0,0 +1,225 @@
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============ CONSTANTS ============
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKS = 12;
+const MAX_WEEKS = 52;
+
+// Statuses a song can be promoted into, in readiness order
+const TREND_STATUSES = ["learning", "solid", "performance_ready"] as const;
+
+// ============ HELPERS ============
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+// Dates are local calendar days (YYYY-MM-DD); do day math in UTC so DST
+// never shifts them.
+function dateToDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function dayNumberToDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Monday of the week containing the given day
+ */
+function getWeekStart(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday
+  const weekday = (day + 3) % 7;
+  return day - weekday;
+}
+
+/**
+ * Local calendar day for a timestamp, given the client's UTC offset
+ * (as returned by Date.getTimezoneOffset)
+ */
+function timestampToDayNumber(timestamp: number, utcOffsetMinutes: number): number {
+  return Math.floor((timestamp - utcOffsetMinutes * 60 * 1000) / DAY_MS);
+}
+
+/**
+ * Current and longest runs of consecutive days with practice. The current
+ * streak survives until the end of the day after the last session.
+ */
+function computeStreaks(days: Set<number>, today: number) {
+  const sorted = [...days].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const day of sorted) {
+    run = previous !== null && day === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  let current = 0;
+  let cursor = days.has(today) ? today : today - 1;
+  while (days.has(cursor)) {
+    current++;
+    cursor--;
+  }
+
+  return { current, longest };
+}
+
+// ============ QUERIES ============
+
+/**
+ * Practice statistics for the current user
+ *
+ * `today` and `utcOffsetMinutes` come from the client so weeks and streaks
+ * follow the user's calendar. Session minutes are split evenly across the
+ * songs worked in that session.
+ */
+export const get = query({
+  args: {
+    today: v.string(),
+    utcOffsetMinutes: v.number(),
+    weeks: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId || !DATE_PATTERN.test(args.today)) {
+      return null;
+    }
+
+    const today = dateToDayNumber(args.today);
+    const weekCount = Math.min(Math.max(Math.round(args.weeks ?? DEFAULT_WEEKS), 1), MAX_WEEKS);
+    const firstWeekStart = getWeekStart(today) - (weekCount - 1) * 7;
+
+    // Songs across all of the user's active bands
+    const bands = (
+      await ctx.db
+        .query("bands")
+        .withIndex("by_created_by", (q) => q.eq("createdBy", userId))
+        .collect()
+    ).filter((b) => !b.deletedAt);
+
+    const songsByBand = await Promise.all(
+      bands.map((band) =>
+        ctx.db
+          .query("songs")
+          .withIndex("by_band", (q) => q.eq("bandId", band._id))
+          .collect()
+      )
+    );
+    const bandNames = new Map(bands.map((b) => [b._id, b.name]));
+    const songs = songsByBand.flat().filter((s) => !s.deletedAt);
+
+    const sessions = await ctx.db
+      .query("practiceSessions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    // Weekly minutes, streaks and per-song totals
+    const weeklyMinutes = Array.from({ length: weekCount }, (_, i) => ({
+      weekStart: dayNumberToDate(firstWeekStart + i * 7),
+      minutes: 0,
+      sessions: 0,
+    }));
+    const practiceDays = new Set<number>();
+    const songTotals = new Map<
+      Id<"songs">,
+      { minutes: number; sessionCount: number; lastPracticed: string }
+    >();
+    let totalMinutes = 0;
+
+    for (const session of sessions) {
+      const day = dateToDayNumber(session.date);
+      if (isNaN(day)) continue;
+
+      const minutes = session.durationMinutes ?? 0;
+      practiceDays.add(day);
+      totalMinutes += minutes;
+
+      const weekIndex = Math.floor((getWeekStart(day) - firstWeekStart) / 7);
+      if (weekIndex >= 0 && weekIndex < weekCount) {
+        weeklyMinutes[weekIndex].minutes += minutes;
+        weeklyMinutes[weekIndex].sessions++;
+      }
+
+      const worked = session.songsWorked ?? [];
+      for (const songId of worked) {
+        const totals = songTotals.get(songId) ?? {
+          minutes: 0,
+          sessionCount: 0,
+          lastPracticed: session.date,
+        };
+        totals.minutes += minutes / worked.length;
+        totals.sessionCount++;
+        if (session.date > totals.lastPracticed) {
+          totals.lastPracticed = session.date;
+        }
+        songTotals.set(songId, totals);
+      }
+    }
+
+    // Promotions per week, from the status change history
+    const statusChanges = await ctx.db
+      .query("practiceStatusChanges")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const statusTrend = weeklyMinutes.map((week) => ({
+      weekStart: week.weekStart,
+      learning: 0,
+      solid: 0,
+      performance_ready: 0,
+    }));
+
+    for (const change of statusChanges) {
+      const fromIndex = TREND_STATUSES.indexOf(change.fromStatus as (typeof TREND_STATUSES)[number]);
+      const toIndex = TREND_STATUSES.indexOf(change.toStatus as (typeof TREND_STATUSES)[number]);
+      // Only count moves forward (new counts as before learning)
+      if (toIndex === -1 || toIndex <= fromIndex) continue;
+
+      const day = timestampToDayNumber(change.changedAt, args.utcOffsetMinutes);
+      const weekIndex = Math.floor((getWeekStart(day) - firstWeekStart) / 7);
+      if (weekIndex >= 0 && weekIndex < weekCount) {
+        statusTrend[weekIndex][TREND_STATUSES[toIndex]]++;
+      }
+    }
+
+    const statusCounts: Record<string, number> = {};
+    for (const song of songs) {
+      statusCounts[song.practiceStatus] = (statusCounts[song.practiceStatus] ?? 0) + 1;
+    }
+
+    const { current, longest } = computeStreaks(practiceDays, today);
+
+    return {
+      totalMinutes,
+      sessionCount: sessions.length,
+      currentStreak: current,
+      longestStreak: longest,
+      weeklyMinutes,
+      statusTrend,
+      statusCounts,
+      songs: songs.map((song) => {
+        const totals = songTotals.get(song._id);
+        return {
+          _id: song._id,
+          bandId: song.bandId,
+          bandName: bandNames.get(song.bandId) ?? "",
+          title: song.title,
+          practiceStatus: song.practiceStatus,
+          minutes: Math.round(totals?.minutes ?? 0),
+          sessionCount: totals?.sessionCount ?? 0,
+          lastPracticed: totals?.lastPracticed ?? null,
+          daysSincePracticed: totals ? today - dateToDayNumber(totals.lastPracticed) : null,
+        };
+      }),
+    };
+  },
+});
@@ -0,0 +1,807 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id, Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============ CONSTANTS ============
+
+// Project stages, in workflow order
+export const PROJECT_STATUSES = [
+  "pre_production",
+  "tracking",
+  "mixing",
+  "mastering",
+  "complete",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+// Tracking grid cell states, in the order a click cycles through them
+export const TRACKING_STATUSES = [
+  "not_started",
+  "in_progress",
+  "needs_redo",
+  "complete",
+] as const;
+
+export type TrackingStatus = (typeof TRACKING_STATUSES)[number];
+
+// ============ HELPERS ============
+
+async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+/**
+ * Verify user owns the band
+ */
+async function verifyBandOwnership(
+  ctx: QueryCtx | MutationCtx,
+  bandId: Id<"bands">,
+  userId: Id<"users">
+): Promise<boolean> {
+  const band = await ctx.db.get(bandId);
+  if (!band || band.deletedAt) {
+    return false;
+  }
+  return band.createdBy === userId;
+}
+
+/**
+ * Verify user owns the recording project
+ */
+async function verifyProjectAccess(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"recordingProjects">,
+  userId: Id<"users">
+): Promise<Doc<"recordingProjects">> {
+  const project = await ctx.db.get(projectId);
+  if (!project || project.deletedAt) {
+    throw new Error("Project not found");
+  }
+
+  if (project.userId !== userId) {
+    throw new Error("Not authorized to access this project");
+  }
+
+  return project;
+}
+
+/**
+ * Verify user owns the project a recording song belongs to
+ */
+async function verifyRecordingSongAccess(
+  ctx: QueryCtx | MutationCtx,
+  recordingSongId: Id<"recordingSongs">,
+  userId: Id<"users">
+): Promise<{ recordingSong: Doc<"recordingSongs">; project: Doc<"recordingProjects"> }> {
+  const recordingSong = await ctx.db.get(recordingSongId);
+  if (!recordingSong || recordingSong.deletedAt) {
+    throw new Error("Recording song not found");
+  }
+
+  const project = await verifyProjectAccess(ctx, recordingSong.projectId, userId);
+
+  return { recordingSong, project };
+}
+
+/**
+ * Get a project's active recording songs sorted by position
+ */
+async function getActiveSongs(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"recordingProjects">
+): Promise<Doc<"recordingSongs">[]> {
+  const songs = await ctx.db
+    .query("recordingSongs")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+
+  return songs
+    .filter((s) => !s.deletedAt)
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Check a band song can be linked into a project
+ *
+ * Projects tied to a band only take that band's songs; standalone projects
+ * take songs from any band the user owns.
+ */
+async function verifySourceSong(
+  ctx: MutationCtx,
+  project: Doc<"recordingProjects">,
+  songId: Id<"songs">,
+  userId: Id<"users">
+): Promise<Doc<"songs">> {
+  const song = await ctx.db.get(songId);
+  if (!song || song.deletedAt) {
+    throw new Error("Song not found");
+  }
+
+  if (project.bandId && song.bandId !== project.bandId) {
+    throw new Error("Song does not belong to this project's band");
+  }
+
+  const isOwner = await verifyBandOwnership(ctx, song.bandId, userId);
+  if (!isOwner) {
+    throw new Error("Not authorized to access this song");
+  }
+
+  return song;
+}
+
+/**
+ * Load the tracking grid cells for each recording song, in song order
+ */
+async function getGridCells(
+  ctx: QueryCtx | MutationCtx,
+  songs: Doc<"recordingSongs">[]
+): Promise<Doc<"trackingGrid">[][]> {
+  return Promise.all(
+    songs.map((song) =>
+      ctx.db
+        .query("trackingGrid")
+        .withIndex("by_song", (q) => q.eq("recordingSongId", song._id))
+        .collect()
+    )
+  );
+}
+
+/**
+ * Instrument names are stored trimmed and lowercased, so "Guitar" and
+ * "guitar" are the same grid column
+ */
+function normalizeInstrument(instrument: string): string {
+  return instrument.trim().toLowerCase();
+}
+
+/**
+ * The grid's instrument columns: every instrument with a cell on any song
+ */
+function getGridInstruments(cellsBySong: Doc<"trackingGrid">[][]): string[] {
+  const instruments: string[] = [];
+  for (const cells of cellsBySong) {
+    for (const cell of cells) {
+      if (!instruments.includes(cell.instrument)) {
+        instruments.push(cell.instrument);
+      }
+    }
+  }
+  return instruments;
+}
+
+/**
+ * Count complete cells in the tracking grid
+ *
+ * The grid is every song × every instrument column; a missing cell counts
+ * as not started.
+ */
+async function getTrackingProgress(
+  ctx: QueryCtx,
+  songs: Doc<"recordingSongs">[]
+): Promise<{ complete: number; total: number }> {
+  const cellsBySong = await getGridCells(ctx, songs);
+  const instruments = getGridInstruments(cellsBySong);
+
+  const complete = cellsBySong
+    .flat()
+    .filter((c) => c.status === "complete").length;
+
+  return { complete, total: songs.length * instruments.length };
+}
+
+// ============ QUERIES ============
+
+/**
+ * List the current user's active recording projects with progress
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const projects = await ctx.db
+      .query("recordingProjects")
+      .withIndex("by_user_active", (q) =>
+        q.eq("userId", userId).eq("deletedAt", undefined)
+      )
+      .collect();
+
+    const projectsWithProgress = await Promise.all(
+      projects.map(async (project) => {
+        const songs = await getActiveSongs(ctx, project._id);
+        const band = project.bandId ? await ctx.db.get(project.bandId) : null;
+
+        return {
+          ...project,
+          bandName: band && !band.deletedAt ? band.name : undefined,
+          songCount: songs.length,
+          trackingProgress: await getTrackingProgress(ctx, songs),
+        };
+      })
+    );
+
+    // Most recently touched first
+    return projectsWithProgress.sort(
+      (a, b) => (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt)
+    );
+  },
+});
+
+/**
+ * Get a single project with its recording songs and their bounce counts
+ */
+export const get = query({
+  args: { id: v.id("recordingProjects") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    let project: Doc<"recordingProjects">;
+    try {
+      project = await verifyProjectAccess(ctx, args.id, userId);
+    } catch {
+      return null;
+    }
+
+    const songs = await getActiveSongs(ctx, args.id);
+
+    // Attach the linked band song's title and band for navigation
+    const songsWithSource = await Promise.all(
+      songs.map(async (song) => {
+        const sourceSong = song.sourceSongId ? await ctx.db.get(song.sourceSongId) : null;
+        const bounces = await ctx.db
+          .query("bounces")
+          .withIndex("by_song", (q) => q.eq("recordingSongId", song._id))
+          .collect();
+        return {
+          ...song,
+          sourceSong:
+            sourceSong && !sourceSong.deletedAt
+              ? { _id: sourceSong._id, bandId: sourceSong.bandId, title: sourceSong.title }
+              : null,
+          bounceCount: bounces.filter((b) => !b.deletedAt).length,
+        };
+      })
+    );
+
+    const band = project.bandId ? await ctx.db.get(project.bandId) : null;
+
+    return {
+      ...project,
+      bandName: band && !band.deletedAt ? band.name : undefined,
+      songs: songsWithSource,
+      trackingProgress: await getTrackingProgress(ctx, songs),
+    };
+  },
+});
+
+/**
+ * Get the tracking grid for a project: songs × instruments with each cell's
+ * status, plus completion per song and per instrument
+ */
+export const getTrackingGrid = query({
+  args: { projectId: v.id("recordingProjects") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    try {
+      await verifyProjectAccess(ctx, args.projectId, userId);
+    } catch {
+      return null;
+    }
+
+    const songs = await getActiveSongs(ctx, args.projectId);
+    const cellsBySong = await getGridCells(ctx, songs);
+    const instruments = getGridInstruments(cellsBySong);
+
+    const rows = songs.map((song, index) => {
+      const cells = cellsBySong[index];
+      return {
+        _id: song._id,
+        title: song.title,
+        cells: cells.map((cell) => ({
+          _id: cell._id,
+          instrument: cell.instrument,
+          status: cell.status,
+          performer: cell.performer,
+          notes: cell.notes,
+        })),
+        progress: {
+          complete: cells.filter((c) => c.status === "complete").length,
+          total: instruments.length,
+        },
+      };
+    });
+
+    const instrumentProgress = instruments.map((instrument) => ({
+      instrument,
+      complete: cellsBySong.filter((cells) =>
+        cells.some((c) => c.instrument === instrument && c.status === "complete")
+      ).length,
+      total: songs.length,
+    }));
+
+    return {
+      instruments,
+      rows,
+      instrumentProgress,
+      progress: {
+        complete: rows.reduce((sum, row) => sum + row.progress.complete, 0),
+        total: songs.length * instruments.length,
+      },
+    };
+  },
+});
+
+// ============ MUTATIONS ============
+
+/**
+ * Create a new recording project
+ *
+ * With `seedFromBand`, every active song in the band becomes a recording song.
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    bandId: v.optional(v.id("bands")),
+    notes: v.optional(v.string()),
+    seedFromBand: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    if (!args.name.trim()) {
+      throw new Error("Project name is required");
+    }
+
+    if (args.bandId) {
+      const isOwner = await verifyBandOwnership(ctx, args.bandId, userId);
+      if (!isOwner) {
+        throw new Error("Not authorized to access this band");
+      }
+    }
+
+    const now = Date.now();
+
+    const projectId = await ctx.db.insert("recordingProjects", {
+      userId,
+      bandId: args.bandId,
+      name: args.name.trim(),
+      status: "pre_production",
+      notes: args.notes?.trim() || undefined,
+      createdAt: now,
+    });
+
+    if (args.seedFromBand && args.bandId) {
+      const bandId = args.bandId;
+      const bandSongs = await ctx.db
+        .query("songs")
+        .withIndex("by_band_active", (q) =>
+          q.eq("bandId", bandId).eq("deletedAt", undefined)
+        )
+        .collect();
+
+      const sorted = bandSongs.sort((a, b) => a.title.localeCompare(b.title));
+      for (let i = 0; i < sorted.length; i++) {
+        await ctx.db.insert("recordingSongs", {
+          projectId,
+          title: sorted[i].title,
+          sourceSongId: sorted[i]._id,
+          position: i,
+          createdAt: now,
+        });
+      }
+    }
+
+    return projectId;
+  },
+});
+
+/**
+ * Update a recording project
+ */
+export const update = mutation({
+  args: {
+    id: v.id("recordingProjects"),
+    name: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyProjectAccess(ctx, args.id, userId);
+
+    const updates: Partial<{
+      name: string;
+      notes: string;
+      updatedAt: number;
+    }> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.name !== undefined) {
+      if (!args.name.trim()) {
+        throw new Error("Project name is required");
+      }
+      updates.name = args.name.trim();
+    }
+
+    if (args.notes !== undefined) updates.notes = args.notes.trim();
+
+    await ctx.db.patch(args.id, updates);
+
+    return args.id;
+  },
+});
+
+/**
+ * Move a project to the next or previous stage of the workflow
+ * Stages can't be skipped, but stepping back (e.g. mixing to tracking for
+ * an overdub) is allowed.
+ */
+export const updateStatus = mutation({
+  args: {
+    id: v.id("recordingProjects"),
+    status: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const project = await verifyProjectAccess(ctx, args.id, userId);
+
+    if (!PROJECT_STATUSES.includes(args.status as ProjectStatus)) {
+      throw new Error(
+        `Invalid project status. Must be one of: ${PROJECT_STATUSES.join(", ")}`
+      );
+    }
+
+    // Projects with an unrecognized status can move anywhere to recover
+    const currentIndex = PROJECT_STATUSES.indexOf(project.status as ProjectStatus);
+    const nextIndex = PROJECT_STATUSES.indexOf(args.status as ProjectStatus);
+    if (currentIndex !== -1 && Math.abs(nextIndex - currentIndex) > 1) {
+      throw new Error("Projects can only move one stage forward or back");
+    }
+
+    await ctx.db.patch(args.id, {
+      status: args.status,
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+/**
+ * Soft delete a recording project
+ */
+export const softDelete = mutation({
+  args: { id: v.id("recordingProjects") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyProjectAccess(ctx, args.id, userId);
+
+    await ctx.db.patch(args.id, {
+      deletedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+/**
+ * Add a song to a project, either free-form or linked to a band song
+ */
+export const addSong = mutation({
+  args: {
+    projectId: v.id("recordingProjects"),
+    title: v.optional(v.string()),
+    sourceSongId: v.optional(v.id("songs")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const project = await verifyProjectAccess(ctx, args.projectId, userId);
+
+    // Linked songs default to the band song's title
+    let title = args.title?.trim();
+    if (args.sourceSongId) {
+      const sourceSong = await verifySourceSong(ctx, project, args.sourceSongId, userId);
+      title = title || sourceSong.title;
+    }
+
+    if (!title) {
+      throw new Error("Song title is required");
+    }
+
+    const existingSongs = await getActiveSongs(ctx, args.projectId);
+    const maxPosition =
+      existingSongs.length > 0
+        ? Math.max(...existingSongs.map((s) => s.position))
+        : -1;
+
+    const recordingSongId = await ctx.db.insert("recordingSongs", {
+      projectId: args.projectId,
+      title,
+      sourceSongId: args.sourceSongId,
+      position: maxPosition + 1,
+      createdAt: Date.now(),
+    });
+
+    await ctx.db.patch(args.projectId, { updatedAt: Date.now() });
+
+    return recordingSongId;
+  },
+});
+
+/**
+ * Update a recording song's title or mix notes
+ */
+export const updateSong = mutation({
+  args: {
+    id: v.id("recordingSongs"),
+    title: v.optional(v.string()),
+    mixNotes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyRecordingSongAccess(ctx, args.id, userId);
+
+    const updates: Partial<{
+      title: string;
+      mixNotes: string;
+      updatedAt: number;
+    }> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.title !== undefined) {
+      if (!args.title.trim()) {
+        throw new Error("Song title is required");
+      }
+      updates.title = args.title.trim();
+    }
+
+    if (args.mixNotes !== undefined) updates.mixNotes = args.mixNotes.trim();
+
+    await ctx.db.patch(args.id, updates);
+
+    return args.id;
+  },
+});
+
+/**
+ * Soft delete a recording song and close the gap in positions
+ */
+export const removeSong = mutation({
+  args: { id: v.id("recordingSongs") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const { recordingSong } = await verifyRecordingSongAccess(ctx, args.id, userId);
+
+    const now = Date.now();
+
+    await ctx.db.patch(args.id, {
+      deletedAt: now,
+      updatedAt: now,
+    });
+
+    const remainingSongs = await getActiveSongs(ctx, recordingSong.projectId);
+    for (let i = 0; i < remainingSongs.length; i++) {
+      if (remainingSongs[i].position !== i) {
+        await ctx.db.patch(remainingSongs[i]._id, { position: i });
+      }
+    }
+
+    await ctx.db.patch(recordingSong.projectId, { updatedAt: now });
+
+    return args.id;
+  },
+});
+
+/**
+ * Reorder songs within a project
+ */
+export const reorderSongs = mutation({
+  args: {
+    projectId: v.id("recordingProjects"),
+    songIds: v.array(v.id("recordingSongs")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyProjectAccess(ctx, args.projectId, userId);
+
+    // The new order must cover exactly the project's current songs
+    const existingSongs = await getActiveSongs(ctx, args.projectId);
+    const existingIds = new Set(existingSongs.map((s) => s._id));
+
+    if (
+      args.songIds.length !== existingSongs.length ||
+      new Set(args.songIds).size !== args.songIds.length ||
+      !args.songIds.every((id) => existingIds.has(id))
+    ) {
+      throw new Error("Song order must include every song in the project");
+    }
+
+    for (let i = 0; i < args.songIds.length; i++) {
+      await ctx.db.patch(args.songIds[i], { position: i });
+    }
+
+    await ctx.db.patch(args.projectId, { updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Add an instrument column to the tracking grid
+ *
+ * Creates a not-started cell for every song so the column exists even before
+ * anything is tracked.
+ */
+export const addTrackingInstrument = mutation({
+  args: {
+    projectId: v.id("recordingProjects"),
+    instrument: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyProjectAccess(ctx, args.projectId, userId);
+
+    const instrument = normalizeInstrument(args.instrument);
+    if (!instrument) {
+      throw new Error("Instrument is required");
+    }
+
+    const songs = await getActiveSongs(ctx, args.projectId);
+    if (songs.length === 0) {
+      throw new Error("Add songs before adding instruments");
+    }
+
+    const cellsBySong = await getGridCells(ctx, songs);
+    if (getGridInstruments(cellsBySong).includes(instrument)) {
+      throw new Error("Instrument is already in the grid");
+    }
+
+    const now = Date.now();
+    for (const song of songs) {
+      await ctx.db.insert("trackingGrid", {
+        recordingSongId: song._id,
+        instrument,
+        status: "not_started",
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.patch(args.projectId, { updatedAt: now });
+
+    return instrument;
+  },
+});
+
+/**
+ * Remove an instrument column (and its cells) from the tracking grid
+ */
+export const removeTrackingInstrument = mutation({
+  args: {
+    projectId: v.id("recordingProjects"),
+    instrument: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifyProjectAccess(ctx, args.projectId, userId);
+
+    const instrument = normalizeInstrument(args.instrument);
+    const songs = await getActiveSongs(ctx, args.projectId);
+    const cellsBySong = await getGridCells(ctx, songs);
+
+    for (const cell of cellsBySong.flat()) {
+      if (cell.instrument === instrument) {
+        await ctx.db.delete(cell._id);
+      }
+    }
+
+    await ctx.db.patch(args.projectId, { updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Update a tracking grid cell, creating it if the song doesn't have one yet
+ *
+ * The instrument must already be a grid column; columns are only added
+ * through addTrackingInstrument.
+ */
+export const updateTrackingCell = mutation({
+  args: {
+    recordingSongId: v.id("recordingSongs"),
+    instrument: v.string(),
+    status: v.optional(v.string()),
+    performer: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const { project } = await verifyRecordingSongAccess(ctx, args.recordingSongId, userId);
+
+    if (
+      args.status !== undefined &&
+      !TRACKING_STATUSES.includes(args.status as TrackingStatus)
+    ) {
+      throw new Error(
+        `Invalid tracking status. Must be one of: ${TRACKING_STATUSES.join(", ")}`
+      );
+    }
+
+    const instrument = normalizeInstrument(args.instrument);
+    const songs = await getActiveSongs(ctx, project._id);
+    const cellsBySong = await getGridCells(ctx, songs);
+    if (!getGridInstruments(cellsBySong).includes(instrument)) {
+      throw new Error("Instrument is not in the grid");
+    }
+
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("trackingGrid")
+      .withIndex("by_song", (q) => q.eq("recordingSongId", args.recordingSongId))
+      .filter((q) => q.eq(q.field("instrument"), instrument))
+      .first();
+
+    let cellId: Id<"trackingGrid">;
+
+    if (existing) {
+      const updates: Partial<{
+        status: string;
+        performer: string;
+        notes: string;
+        updatedAt: number;
+      }> = {
+        updatedAt: now,
+      };
+
+      if (args.status !== undefined) updates.status = args.status;
+      if (args.performer !== undefined) updates.performer = args.performer.trim();
+      if (args.notes !== undefined) updates.notes = args.notes.trim();
+
+      await ctx.db.patch(existing._id, updates);
+      cellId = existing._id;
+    } else {
+      cellId = await ctx.db.insert("trackingGrid", {
+        recordingSongId: args.recordingSongId,
+        instrument,
+        status: args.status ?? "not_started",
+        performer: args.performer?.trim() || undefined,
+        notes: args.notes?.trim() || undefined,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.patch(project._id, { updatedAt: now });
+
+    return cellId;
+  },
+});
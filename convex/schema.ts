@@ -89,6 +89,9 @@ export default defineSchema({
     position: v.number(), // Order within the song (0, 1, 2, ...)
     gearSettings: v.optional(gearSettingsValidator),
     notes: v.optional(v.string()), // Performance notes
+    // Where the section falls in the song's primary audio file
+    startSeconds: v.optional(v.number()),
+    endSeconds: v.optional(v.number()), // Open-ended: runs until the next timed section
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
     deletedAt: v.optional(v.number()),
@@ -97,6 +100,18 @@ export default defineSchema({
     .index("by_song_instrument", ["songId", "instrument"])
     .index("by_song_active", ["songId", "deletedAt"]),
 
+  // Sections proposed by audio analysis, until accepted into songSections or discarded
+  sectionDrafts: defineTable({
+    songId: v.id("songs"),
+    songFileId: v.id("songFiles"), // Primary audio file the times refer to
+    name: v.string(), // From SECTION_NAMES, e.g., "Verse 1"
+    startSeconds: v.number(),
+    endSeconds: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_song", ["songId"])
+    .index("by_file", ["songFileId"]),
+
   // ============ SONG FILES ============
   // Supports both uploaded files (storageId) and external URLs (externalUrl)
   songFiles: defineTable({
@@ -106,6 +121,7 @@ export default defineSchema({
     externalService: v.optional(v.string()), // e.g., "dropbox", "youtube"
     fileType: v.string(), // 'audio' | 'video' | 'chart' | 'tab' | 'gp' | 'stem' | 'other'
     variantLabel: v.optional(v.string()), // e.g., "Live Session", "Instrumental"
+    instrument: v.optional(v.string()), // For stems: the part it carries, e.g., "guitar"
     fileName: v.optional(v.string()),
     fileSize: v.optional(v.number()),
     mimeType: v.optional(v.string()),
@@ -114,8 +130,14 @@ export default defineSchema({
     // Auto-analyzed metadata
     detectedTempo: v.optional(v.number()),
     detectedKey: v.optional(v.string()),
+    detectedMode: v.optional(v.string()),
     analysisConfidence: v.optional(v.number()),
     durationSeconds: v.optional(v.number()), // Detected from audio analysis
+    // Level report, for spotting clipping or mismatched loudness
+    integratedLoudness: v.optional(v.number()), // LUFS
+    truePeak: v.optional(v.number()), // dBTP
+    crestFactor: v.optional(v.number()), // dB
+    clippedRuns: v.optional(v.number()),
     // Waveform data (pre-computed)
     waveformPeaks: v.optional(v.array(v.number())),
     createdAt: v.number(),
@@ -124,6 +146,15 @@ export default defineSchema({
     .index("by_song", ["songId"])
     .index("by_song_active", ["songId", "deletedAt"]),
 
+  // Higher-resolution waveform peaks, kept out of songFiles so file lists stay small
+  waveformLevels: defineTable({
+    songFileId: v.id("songFiles"),
+    bucketCount: v.number(), // e.g., 200, 2000, 20000
+    channelCount: v.number(),
+    data: v.bytes(), // Int8 [bucket][channel][min, max]
+    createdAt: v.number(),
+  }).index("by_file", ["songFileId", "bucketCount"]),
+
   // ============ INSTRUMENT PARTS ============
   instrumentParts: defineTable({
     songId: v.id("songs"),
@@ -176,7 +207,14 @@ export default defineSchema({
     storageId: v.id("_storage"),
     fileName: v.optional(v.string()),
     fileSize: v.number(),
+    mimeType: v.optional(v.string()),
     waveformPeaks: v.optional(v.array(v.number())),
+    durationSeconds: v.optional(v.number()),
+    integratedLoudness: v.optional(v.number()), // LUFS, for loudness-matched A/B
+    truePeak: v.optional(v.number()), // dBTP
+    crestFactor: v.optional(v.number()), // dB
+    clippedRuns: v.optional(v.number()),
+    uploadedBy: v.optional(v.id("users")), // Storage quota is charged to the uploader
     createdAt: v.number(),
     deletedAt: v.optional(v.number()),
   }).index("by_song", ["recordingSongId"]),
@@ -208,6 +246,9 @@ export default defineSchema({
       })
     ),
     estimatedDurationSeconds: v.optional(v.number()),
+    // Duration estimate settings (defaults applied when unset)
+    songGapSeconds: v.optional(v.number()), // Gap between songs
+    gearChangeGapSeconds: v.optional(v.number()), // Gap before songs with heavy gear changes
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
     deletedAt: v.optional(v.number()),
@@ -221,7 +262,9 @@ export default defineSchema({
     position: v.number(),
     transitionNotes: v.optional(v.string()),
     notes: v.optional(v.string()),
-  }).index("by_setlist", ["setlistId"]),
+  })
+    .index("by_setlist", ["setlistId"])
+    .index("by_song", ["songId"]),
 
   // ============ PRACTICE SESSIONS ============
   practiceSessions: defineTable({
@@ -231,9 +274,35 @@ export default defineSchema({
     bandId: v.optional(v.id("bands")),
     songsWorked: v.optional(v.array(v.id("songs"))),
     notes: v.optional(v.string()),
+    // Speed trainer runs (one song each): fastest BPM reached and the goal
+    maxTempo: v.optional(v.number()),
+    targetTempo: v.optional(v.number()),
     createdAt: v.number(),
   }).index("by_user", ["userId"]),
 
+  // History of practiceStatus changes, for readiness trends
+  practiceStatusChanges: defineTable({
+    userId: v.id("users"),
+    songId: v.id("songs"),
+    bandId: v.id("bands"),
+    fromStatus: v.string(),
+    toStatus: v.string(),
+    changedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_song", ["songId"]),
+
+  // Saved A-B loops on a song file (e.g., "Solo" 2:31-2:58 at 75%)
+  practiceLoops: defineTable({
+    userId: v.id("users"),
+    songFileId: v.id("songFiles"),
+    name: v.string(),
+    startSeconds: v.number(),
+    endSeconds: v.number(),
+    playbackRate: v.optional(v.number()), // 0.5-1, rate last used for this loop
+    createdAt: v.number(),
+  }).index("by_file", ["songFileId"]),
+
   // ============ RATE LIMITING ============
   uploadRateLimits: defineTable({
     userId: v.id("users"),
@@ -0,0 +1,350 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id, Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { SECTION_NAMES } from "./songSections";
+
+// ============ CONSTANTS ============
+
+const MAX_DRAFTS = 16;
+
+// First/last segments up to this long that don't recur are called Intro/Outro
+const MAX_INTRO_SECONDS = 30;
+const MAX_OUTRO_SECONDS = 45;
+
+// Names for parts heard after the verse and chorus, in order of first appearance
+const EXTRA_PART_NAMES = ["Bridge", "Solo", "Interlude", "Breakdown"] as const;
+
+const segmentValidator = v.object({
+  startSeconds: v.number(),
+  endSeconds: v.number(),
+  group: v.number(), // Segments that sound alike share a group
+});
+
+// ============ HELPERS ============
+
+async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+/**
+ * Verify user owns the band that owns the song
+ */
+async function verifySongAccess(
+  ctx: QueryCtx | MutationCtx,
+  songId: Id<"songs">,
+  userId: Id<"users">
+): Promise<Doc<"songs">> {
+  const song = await ctx.db.get(songId);
+  if (!song || song.deletedAt) {
+    throw new Error("Song not found");
+  }
+
+  const band = await ctx.db.get(song.bandId);
+  if (!band || band.deletedAt) {
+    throw new Error("Band not found");
+  }
+
+  if (band.createdBy !== userId) {
+    throw new Error("Not authorized to access this song");
+  }
+
+  return song;
+}
+
+async function getDraft(
+  ctx: MutationCtx,
+  draftId: Id<"sectionDrafts">,
+  userId: Id<"users">
+): Promise<Doc<"sectionDrafts">> {
+  const draft = await ctx.db.get(draftId);
+  if (!draft) {
+    throw new Error("Suggested section not found");
+  }
+  await verifySongAccess(ctx, draft.songId, userId);
+  return draft;
+}
+
+/**
+ * Name detected segments from SECTION_NAMES
+ *
+ * A short first or last segment that never recurs is the Intro or Outro.
+ * Of the rest, the first part heard is taken as the verse and the second
+ * as the chorus; later parts get EXTRA_PART_NAMES. Repeated verses are
+ * numbered for as far as SECTION_NAMES goes.
+ */
+function nameSegments(
+  segments: { startSeconds: number; endSeconds: number; group: number }[]
+): string[] {
+  const groupCounts = new Map<number, number>();
+  for (const segment of segments) {
+    groupCounts.set(segment.group, (groupCounts.get(segment.group) ?? 0) + 1);
+  }
+
+  const groupNames = new Map<number, string>();
+  let verseNumber = 0;
+
+  return segments.map((segment, i) => {
+    const duration = segment.endSeconds - segment.startSeconds;
+    const recurs = groupCounts.get(segment.group)! > 1;
+    if (segments.length > 2 && !recurs) {
+      if (i === 0 && duration <= MAX_INTRO_SECONDS) return "Intro";
+      if (i === segments.length - 1 && duration <= MAX_OUTRO_SECONDS) return "Outro";
+    }
+
+    let name = groupNames.get(segment.group);
+    if (!name) {
+      const order = groupNames.size;
+      name =
+        order === 0
+          ? "Verse"
+          : order === 1
+            ? "Chorus"
+            : EXTRA_PART_NAMES[(order - 2) % EXTRA_PART_NAMES.length];
+      groupNames.set(segment.group, name);
+    }
+
+    if (name === "Verse" && recurs) {
+      verseNumber++;
+      return SECTION_NAMES.find((n) => n === `Verse ${verseNumber}`) ?? "Verse";
+    }
+    return name;
+  });
+}
+
+// ============ QUERIES ============
+
+/**
+ * Suggested sections for a song, in playback order
+ * Only drafts for the current primary audio file are returned
+ */
+export const listBySong = query({
+  args: { songId: v.id("songs") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      await verifySongAccess(ctx, args.songId, userId);
+    } catch {
+      return [];
+    }
+
+    const drafts = await ctx.db
+      .query("sectionDrafts")
+      .withIndex("by_song", (q) => q.eq("songId", args.songId))
+      .collect();
+    if (drafts.length === 0) {
+      return [];
+    }
+
+    const file = await ctx.db.get(drafts[0].songFileId);
+    if (!file || file.deletedAt || !file.isPrimary) {
+      return [];
+    }
+
+    return drafts.sort((a, b) => a.startSeconds - b.startSeconds);
+  },
+});
+
+// ============ MUTATIONS ============
+
+/**
+ * Replace a song's suggested sections with segments detected in its primary audio
+ *
+ * Segments from other files are ignored, since section times always refer
+ * to the primary audio. Returns the number of drafts created.
+ */
+export const saveFromAnalysis = mutation({
+  args: {
+    fileId: v.id("songFiles"),
+    segments: v.array(segmentValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const file = await ctx.db.get(args.fileId);
+    if (!file || file.deletedAt) {
+      throw new Error("File not found");
+    }
+    await verifySongAccess(ctx, file.songId, userId);
+
+    if (!file.isPrimary || file.fileType !== "audio") {
+      return 0;
+    }
+
+    if (args.segments.length > MAX_DRAFTS) {
+      throw new Error(`At most ${MAX_DRAFTS} sections can be suggested`);
+    }
+    for (const segment of args.segments) {
+      if (segment.startSeconds < 0 || segment.endSeconds <= segment.startSeconds) {
+        throw new Error("Each section must end after it starts");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("sectionDrafts")
+      .withIndex("by_song", (q) => q.eq("songId", file.songId))
+      .collect();
+    for (const draft of existing) {
+      await ctx.db.delete(draft._id);
+    }
+
+    const segments = [...args.segments].sort((a, b) => a.startSeconds - b.startSeconds);
+    const names = nameSegments(segments);
+    const now = Date.now();
+
+    for (const [i, segment] of segments.entries()) {
+      await ctx.db.insert("sectionDrafts", {
+        songId: file.songId,
+        songFileId: args.fileId,
+        name: names[i],
+        startSeconds: segment.startSeconds,
+        endSeconds: segment.endSeconds,
+        createdAt: now,
+      });
+    }
+
+    return segments.length;
+  },
+});
+
+/**
+ * Rename a suggested section to another of SECTION_NAMES
+ */
+export const rename = mutation({
+  args: {
+    id: v.id("sectionDrafts"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    await getDraft(ctx, args.id, userId);
+
+    if (!SECTION_NAMES.some((name) => name === args.name)) {
+      throw new Error("Unknown section name");
+    }
+
+    await ctx.db.patch(args.id, { name: args.name });
+
+    return args.id;
+  },
+});
+
+/**
+ * Turn suggested sections into real, timed sections for an instrument
+ */
+export const accept = mutation({
+  args: {
+    ids: v.array(v.id("sectionDrafts")),
+    instrument: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const drafts: Doc<"sectionDrafts">[] = [];
+    for (const id of args.ids) {
+      drafts.push(await getDraft(ctx, id, userId));
+    }
+    if (drafts.length === 0) {
+      return [];
+    }
+
+    const songId = drafts[0].songId;
+    if (drafts.some((draft) => draft.songId !== songId)) {
+      throw new Error("Suggested sections must belong to the same song");
+    }
+
+    // Drafts are timed against the audio they were detected in, which may no longer be primary
+    const file = await ctx.db.get(drafts[0].songFileId);
+    if (!file || file.deletedAt || !file.isPrimary || file.fileType !== "audio") {
+      throw new Error("Suggested sections are out of date with the song's primary audio");
+    }
+
+    // Append after the instrument's existing sections
+    const existingSections = await ctx.db
+      .query("songSections")
+      .withIndex("by_song_instrument", (q) =>
+        q.eq("songId", songId).eq("instrument", args.instrument)
+      )
+      .collect();
+
+    const activeSections = existingSections.filter((s) => !s.deletedAt);
+    let position =
+      activeSections.length > 0
+        ? Math.max(...activeSections.map((s) => s.position)) + 1
+        : 0;
+
+    const now = Date.now();
+    const sectionIds: Id<"songSections">[] = [];
+
+    for (const draft of drafts.sort((a, b) => a.startSeconds - b.startSeconds)) {
+      sectionIds.push(
+        await ctx.db.insert("songSections", {
+          songId,
+          instrument: args.instrument,
+          name: draft.name,
+          position: position++,
+          startSeconds: draft.startSeconds,
+          endSeconds: draft.endSeconds,
+          createdAt: now,
+        })
+      );
+      await ctx.db.delete(draft._id);
+    }
+
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId,
+    });
+
+    return sectionIds;
+  },
+});
+
+/**
+ * Discard a suggested section
+ */
+export const discard = mutation({
+  args: { id: v.id("sectionDrafts") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    await getDraft(ctx, args.id, userId);
+
+    await ctx.db.delete(args.id);
+
+    return args.id;
+  },
+});
+
+/**
+ * Discard all of a song's suggested sections
+ */
+export const discardAll = mutation({
+  args: { songId: v.id("songs") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    await verifySongAccess(ctx, args.songId, userId);
+
+    const drafts = await ctx.db
+      .query("sectionDrafts")
+      .withIndex("by_song", (q) => q.eq("songId", args.songId))
+      .collect();
+    for (const draft of drafts) {
+      await ctx.db.delete(draft._id);
+    }
+
+    return drafts.length;
+  },
+});
@@ -0,0 +1,763 @@
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalMutation,
+  QueryCtx,
+  MutationCtx,
+} from "./_generated/server";
+import { Id, Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { computeSetlistGearDeltas, countGearActions } from "./gearDelta";
+
+// ============ CONSTANTS ============
+
+// Between-song gap used when the setlist doesn't set its own
+export const DEFAULT_SONG_GAP_SECONDS = 30;
+
+// Gap before a song that needs a lot of pedal/patch changes
+export const DEFAULT_GEAR_CHANGE_GAP_SECONDS = 90;
+
+// A gear change with at least this many actions gets the longer gap
+export const HEAVY_GEAR_CHANGE_ACTIONS = 5;
+
+// ============ VALIDATORS ============
+
+// Validators matching the schema
+const knobValidator = v.object({
+  label: v.string(),
+  position: v.number(),
+});
+
+const gearPieceValidator = v.object({
+  name: v.string(),
+  type: v.string(),
+  enabled: v.boolean(),
+  knobs: v.array(knobValidator),
+  patch: v.optional(v.string()),
+  patchName: v.optional(v.string()),
+  isOverride: v.optional(v.boolean()),
+  notes: v.optional(v.string()),
+});
+
+const gearSettingsValidator = v.object({
+  gear: v.array(gearPieceValidator),
+  notes: v.optional(v.string()),
+});
+
+const startingGearSettingsValidator = v.object({
+  guitar: v.optional(gearSettingsValidator),
+  synth: v.optional(gearSettingsValidator),
+  bass: v.optional(gearSettingsValidator),
+  drums: v.optional(gearSettingsValidator),
+  other: v.optional(v.record(v.string(), gearSettingsValidator)),
+});
+
+// ============ HELPERS ============
+
+async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+/**
+ * Verify user owns the band
+ */
+async function verifyBandOwnership(
+  ctx: QueryCtx | MutationCtx,
+  bandId: Id<"bands">,
+  userId: Id<"users">
+): Promise<boolean> {
+  const band = await ctx.db.get(bandId);
+  if (!band || band.deletedAt) {
+    return false;
+  }
+  return band.createdBy === userId;
+}
+
+/**
+ * Verify user owns the band that owns the setlist
+ */
+async function verifySetlistAccess(
+  ctx: QueryCtx | MutationCtx,
+  setlistId: Id<"setlists">,
+  userId: Id<"users">
+): Promise<Doc<"setlists">> {
+  const setlist = await ctx.db.get(setlistId);
+  if (!setlist || setlist.deletedAt) {
+    throw new Error("Setlist not found");
+  }
+
+  const band = await ctx.db.get(setlist.bandId);
+  if (!band || band.deletedAt) {
+    throw new Error("Band not found");
+  }
+
+  if (band.createdBy !== userId) {
+    throw new Error("Not authorized to access this setlist");
+  }
+
+  return setlist;
+}
+
+/**
+ * Get a setlist's items sorted by position
+ */
+async function getOrderedItems(
+  ctx: QueryCtx | MutationCtx,
+  setlistId: Id<"setlists">
+): Promise<Doc<"setlistItems">[]> {
+  const items = await ctx.db
+    .query("setlistItems")
+    .withIndex("by_setlist", (q) => q.eq("setlistId", setlistId))
+    .collect();
+
+  return items.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Load each item's active song sections, in setlist order
+ */
+async function getItemSections(
+  ctx: QueryCtx | MutationCtx,
+  items: Doc<"setlistItems">[]
+): Promise<{ sections: Doc<"songSections">[] }[]> {
+  return Promise.all(
+    items.map(async (item) => ({
+      sections: await ctx.db
+        .query("songSections")
+        .withIndex("by_song_active", (q) =>
+          q.eq("songId", item.songId).eq("deletedAt", undefined)
+        )
+        .collect(),
+    }))
+  );
+}
+
+/**
+ * Resolve a song's length: the song's own duration, falling back to the
+ * duration detected on its primary audio file
+ */
+async function resolveSongDuration(
+  ctx: QueryCtx | MutationCtx,
+  songId: Id<"songs">
+): Promise<{ durationSeconds?: number; source?: "song" | "audio" }> {
+  const song = await ctx.db.get(songId);
+  if (!song || song.deletedAt) {
+    return {};
+  }
+
+  if (song.durationSeconds !== undefined) {
+    return { durationSeconds: song.durationSeconds, source: "song" };
+  }
+
+  const files = await ctx.db
+    .query("songFiles")
+    .withIndex("by_song_active", (q) =>
+      q.eq("songId", songId).eq("deletedAt", undefined)
+    )
+    .collect();
+
+  const primaryAudio = files.find((f) => f.isPrimary && f.fileType === "audio");
+  if (primaryAudio?.durationSeconds !== undefined) {
+    return {
+      durationSeconds: Math.round(primaryAudio.durationSeconds),
+      source: "audio",
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Estimate how long a setlist runs
+ *
+ * Sums song lengths plus a gap between consecutive songs. The gap before a
+ * song is longer when getting to it takes a heavy gear change. Songs with
+ * no known length count as zero and are reported so the UI can flag them.
+ */
+async function estimateSetlistDuration(
+  ctx: QueryCtx | MutationCtx,
+  setlist: Doc<"setlists">,
+  items: Doc<"setlistItems">[]
+) {
+  const songGapSeconds = setlist.songGapSeconds ?? DEFAULT_SONG_GAP_SECONDS;
+  const gearChangeGapSeconds =
+    setlist.gearChangeGapSeconds ?? DEFAULT_GEAR_CHANGE_GAP_SECONDS;
+
+  const deltas = computeSetlistGearDeltas(
+    setlist.startingGearSettings,
+    await getItemSections(ctx, items)
+  );
+
+  const breakdown = await Promise.all(
+    items.map(async (item, index) => {
+      const { durationSeconds, source } = await resolveSongDuration(
+        ctx,
+        item.songId
+      );
+      const heavyGearChange =
+        countGearActions(deltas[index]) >= HEAVY_GEAR_CHANGE_ACTIONS;
+
+      // No gap before the opener; gear for it is set up before the show
+      let gapBeforeSeconds = 0;
+      if (index > 0) {
+        gapBeforeSeconds = heavyGearChange ? gearChangeGapSeconds : songGapSeconds;
+      }
+
+      return {
+        itemId: item._id,
+        songId: item.songId,
+        durationSeconds,
+        source,
+        gapBeforeSeconds,
+        heavyGearChange,
+      };
+    })
+  );
+
+  const totalSeconds = breakdown.reduce(
+    (total, entry) => total + (entry.durationSeconds ?? 0) + entry.gapBeforeSeconds,
+    0
+  );
+
+  return {
+    totalSeconds,
+    songGapSeconds,
+    gearChangeGapSeconds,
+    unknownCount: breakdown.filter((e) => e.durationSeconds === undefined).length,
+    items: breakdown,
+  };
+}
+
+/**
+ * Recompute and store a setlist's estimated duration
+ */
+async function recomputeEstimatedDuration(
+  ctx: MutationCtx,
+  setlistId: Id<"setlists">
+): Promise<void> {
+  const setlist = await ctx.db.get(setlistId);
+  if (!setlist || setlist.deletedAt) {
+    return;
+  }
+
+  const items = await getOrderedItems(ctx, setlistId);
+  const estimate = await estimateSetlistDuration(ctx, setlist, items);
+
+  if (estimate.totalSeconds !== setlist.estimatedDurationSeconds) {
+    await ctx.db.patch(setlistId, {
+      estimatedDurationSeconds: estimate.totalSeconds,
+    });
+  }
+}
+
+// ============ QUERIES ============
+
+/**
+ * List all active setlists for a band
+ */
+export const listByBand = query({
+  args: { bandId: v.id("bands") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const isOwner = await verifyBandOwnership(ctx, args.bandId, userId);
+    if (!isOwner) {
+      return [];
+    }
+
+    const setlists = await ctx.db
+      .query("setlists")
+      .withIndex("by_band_active", (q) =>
+        q.eq("bandId", args.bandId).eq("deletedAt", undefined)
+      )
+      .collect();
+
+    // Attach song counts for list display
+    const setlistsWithCounts = await Promise.all(
+      setlists.map(async (setlist) => {
+        const items = await ctx.db
+          .query("setlistItems")
+          .withIndex("by_setlist", (q) => q.eq("setlistId", setlist._id))
+          .collect();
+
+        return {
+          ...setlist,
+          songCount: items.length,
+        };
+      })
+    );
+
+    // Sort by show date (upcoming first), undated setlists last by creation date
+    return setlistsWithCounts.sort((a, b) => {
+      if (a.date && b.date) return a.date.localeCompare(b.date);
+      if (a.date) return -1;
+      if (b.date) return 1;
+      return b.createdAt - a.createdAt;
+    });
+  },
+});
+
+/**
+ * Get a single setlist with its ordered items and song details
+ */
+export const get = query({
+  args: { id: v.id("setlists") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    let setlist: Doc<"setlists">;
+    try {
+      setlist = await verifySetlistAccess(ctx, args.id, userId);
+    } catch {
+      return null;
+    }
+
+    const items = await getOrderedItems(ctx, args.id);
+
+    const itemsWithSongs = await Promise.all(
+      items.map(async (item) => {
+        const song = await ctx.db.get(item.songId);
+        return {
+          ...item,
+          song:
+            song && !song.deletedAt
+              ? {
+                  _id: song._id,
+                  title: song.title,
+                  key: song.key,
+                  mode: song.mode,
+                  tempo: song.tempo,
+                  timeSignature: song.timeSignature,
+                  durationSeconds: song.durationSeconds,
+                  practiceStatus: song.practiceStatus,
+                }
+              : null,
+        };
+      })
+    );
+
+    const band = await ctx.db.get(setlist.bandId);
+
+    return {
+      ...setlist,
+      bandName: band?.name,
+      items: itemsWithSongs,
+    };
+  },
+});
+
+/**
+ * Compute the gear changes needed before each song in a setlist
+ *
+ * Deltas are derived from song sections at read time (never stored), so
+ * they always reflect the latest gear settings.
+ */
+export const getGearDeltas = query({
+  args: { setlistId: v.id("setlists") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    let setlist: Doc<"setlists">;
+    try {
+      setlist = await verifySetlistAccess(ctx, args.setlistId, userId);
+    } catch {
+      return [];
+    }
+
+    const items = await getOrderedItems(ctx, args.setlistId);
+
+    const deltas = computeSetlistGearDeltas(
+      setlist.startingGearSettings,
+      await getItemSections(ctx, items)
+    );
+
+    return items.map((item, index) => ({
+      itemId: item._id,
+      songId: item.songId,
+      instruments: deltas[index],
+      actionCount: countGearActions(deltas[index]),
+    }));
+  },
+});
+
+/**
+ * Get each item's song sections (names and notes, in position order) for
+ * the performance view
+ */
+export const listSectionsByItem = query({
+  args: { setlistId: v.id("setlists") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      await verifySetlistAccess(ctx, args.setlistId, userId);
+    } catch {
+      return [];
+    }
+
+    const items = await getOrderedItems(ctx, args.setlistId);
+    const itemSections = await getItemSections(ctx, items);
+
+    return items.map((item, index) => ({
+      itemId: item._id,
+      sections: itemSections[index].sections
+        .sort((a, b) => a.position - b.position)
+        .map((section) => ({
+          _id: section._id,
+          instrument: section.instrument,
+          name: section.name,
+          notes: section.notes,
+        })),
+    }));
+  },
+});
+
+/**
+ * Get the per-song breakdown of a setlist's estimated duration
+ *
+ * Includes which songs have no known length so the UI can flag them.
+ */
+export const getDurationEstimate = query({
+  args: { setlistId: v.id("setlists") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    let setlist: Doc<"setlists">;
+    try {
+      setlist = await verifySetlistAccess(ctx, args.setlistId, userId);
+    } catch {
+      return null;
+    }
+
+    const items = await getOrderedItems(ctx, args.setlistId);
+    return estimateSetlistDuration(ctx, setlist, items);
+  },
+});
+
+// ============ MUTATIONS ============
+
+/**
+ * Create a new setlist
+ */
+export const create = mutation({
+  args: {
+    bandId: v.id("bands"),
+    name: v.string(),
+    date: v.optional(v.string()),
+    venue: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const isOwner = await verifyBandOwnership(ctx, args.bandId, userId);
+    if (!isOwner) {
+      throw new Error("Not authorized to access this band");
+    }
+
+    if (!args.name.trim()) {
+      throw new Error("Setlist name is required");
+    }
+
+    const setlistId = await ctx.db.insert("setlists", {
+      bandId: args.bandId,
+      name: args.name.trim(),
+      date: args.date || undefined,
+      venue: args.venue?.trim() || undefined,
+      notes: args.notes?.trim() || undefined,
+      createdAt: Date.now(),
+    });
+
+    return setlistId;
+  },
+});
+
+/**
+ * Update a setlist
+ */
+export const update = mutation({
+  args: {
+    id: v.id("setlists"),
+    name: v.optional(v.string()),
+    date: v.optional(v.string()),
+    venue: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    startingGearSettings: v.optional(startingGearSettingsValidator),
+    songGapSeconds: v.optional(v.number()),
+    gearChangeGapSeconds: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifySetlistAccess(ctx, args.id, userId);
+
+    const updates: Partial<{
+      name: string;
+      date: string;
+      venue: string;
+      notes: string;
+      startingGearSettings: Doc<"setlists">["startingGearSettings"];
+      songGapSeconds: number;
+      gearChangeGapSeconds: number;
+      updatedAt: number;
+    }> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.name !== undefined) {
+      if (!args.name.trim()) {
+        throw new Error("Setlist name is required");
+      }
+      updates.name = args.name.trim();
+    }
+
+    if (args.date !== undefined) updates.date = args.date;
+    if (args.venue !== undefined) updates.venue = args.venue.trim();
+    if (args.notes !== undefined) updates.notes = args.notes.trim();
+    if (args.startingGearSettings !== undefined) {
+      updates.startingGearSettings = args.startingGearSettings;
+    }
+
+    if (args.songGapSeconds !== undefined) {
+      if (args.songGapSeconds < 0) {
+        throw new Error("Gap between songs can't be negative");
+      }
+      updates.songGapSeconds = Math.round(args.songGapSeconds);
+    }
+    if (args.gearChangeGapSeconds !== undefined) {
+      if (args.gearChangeGapSeconds < 0) {
+        throw new Error("Gear change gap can't be negative");
+      }
+      updates.gearChangeGapSeconds = Math.round(args.gearChangeGapSeconds);
+    }
+
+    await ctx.db.patch(args.id, updates);
+
+    // Gap settings and starting gear both feed the estimate
+    await recomputeEstimatedDuration(ctx, args.id);
+
+    return args.id;
+  },
+});
+
+/**
+ * Soft delete a setlist
+ */
+export const softDelete = mutation({
+  args: { id: v.id("setlists") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifySetlistAccess(ctx, args.id, userId);
+
+    await ctx.db.patch(args.id, {
+      deletedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+/**
+ * Add a song to the end of a setlist
+ */
+export const addItem = mutation({
+  args: {
+    setlistId: v.id("setlists"),
+    songId: v.id("songs"),
+    transitionNotes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const setlist = await verifySetlistAccess(ctx, args.setlistId, userId);
+
+    // Song must belong to the same band as the setlist
+    const song = await ctx.db.get(args.songId);
+    if (!song || song.deletedAt) {
+      throw new Error("Song not found");
+    }
+    if (song.bandId !== setlist.bandId) {
+      throw new Error("Song does not belong to this band");
+    }
+
+    const existingItems = await getOrderedItems(ctx, args.setlistId);
+    const maxPosition =
+      existingItems.length > 0
+        ? Math.max(...existingItems.map((i) => i.position))
+        : -1;
+
+    const itemId = await ctx.db.insert("setlistItems", {
+      setlistId: args.setlistId,
+      songId: args.songId,
+      position: maxPosition + 1,
+      transitionNotes: args.transitionNotes?.trim() || undefined,
+    });
+
+    await ctx.db.patch(args.setlistId, { updatedAt: Date.now() });
+    await recomputeEstimatedDuration(ctx, args.setlistId);
+
+    return itemId;
+  },
+});
+
+/**
+ * Remove a song from a setlist and close the gap in positions
+ */
+export const removeItem = mutation({
+  args: { id: v.id("setlistItems") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const item = await ctx.db.get(args.id);
+    if (!item) {
+      throw new Error("Setlist item not found");
+    }
+
+    await verifySetlistAccess(ctx, item.setlistId, userId);
+
+    await ctx.db.delete(args.id);
+
+    // Re-number remaining items so positions stay contiguous
+    const remainingItems = await getOrderedItems(ctx, item.setlistId);
+    for (let i = 0; i < remainingItems.length; i++) {
+      if (remainingItems[i].position !== i) {
+        await ctx.db.patch(remainingItems[i]._id, { position: i });
+      }
+    }
+
+    await ctx.db.patch(item.setlistId, { updatedAt: Date.now() });
+    await recomputeEstimatedDuration(ctx, item.setlistId);
+
+    return args.id;
+  },
+});
+
+/**
+ * Reorder items within a setlist
+ */
+export const reorderItems = mutation({
+  args: {
+    setlistId: v.id("setlists"),
+    itemIds: v.array(v.id("setlistItems")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    await verifySetlistAccess(ctx, args.setlistId, userId);
+
+    // The new order must cover exactly the setlist's current items
+    const existingItems = await getOrderedItems(ctx, args.setlistId);
+    const existingIds = new Set(existingItems.map((i) => i._id));
+
+    if (
+      args.itemIds.length !== existingItems.length ||
+      new Set(args.itemIds).size !== args.itemIds.length ||
+      !args.itemIds.every((id) => existingIds.has(id))
+    ) {
+      throw new Error("Item order must include every item in the setlist");
+    }
+
+    for (let i = 0; i < args.itemIds.length; i++) {
+      await ctx.db.patch(args.itemIds[i], { position: i });
+    }
+
+    await ctx.db.patch(args.setlistId, { updatedAt: Date.now() });
+
+    // Order changes which gear changes land between which songs
+    await recomputeEstimatedDuration(ctx, args.setlistId);
+  },
+});
+
+/**
+ * Update transition notes and performance notes for a setlist item
+ */
+export const updateItem = mutation({
+  args: {
+    id: v.id("setlistItems"),
+    transitionNotes: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const item = await ctx.db.get(args.id);
+    if (!item) {
+      throw new Error("Setlist item not found");
+    }
+
+    await verifySetlistAccess(ctx, item.setlistId, userId);
+
+    const updates: Partial<{
+      transitionNotes: string;
+      notes: string;
+    }> = {};
+
+    if (args.transitionNotes !== undefined) {
+      updates.transitionNotes = args.transitionNotes.trim();
+    }
+    if (args.notes !== undefined) {
+      updates.notes = args.notes.trim();
+    }
+
+    await ctx.db.patch(args.id, updates);
+
+    return args.id;
+  },
+});
+
+// ============ INTERNAL ============
+
+/**
+ * Recompute a setlist's estimated duration
+ */
+export const computeDuration = internalMutation({
+  args: { setlistId: v.id("setlists") },
+  handler: async (ctx, args) => {
+    await recomputeEstimatedDuration(ctx, args.setlistId);
+  },
+});
+
+/**
+ * Recompute every setlist containing a song, after its length or gear changed
+ */
+export const computeDurationsForSong = internalMutation({
+  args: { songId: v.id("songs") },
+  handler: async (ctx, args) => {
+    const items = await ctx.db
+      .query("setlistItems")
+      .withIndex("by_song", (q) => q.eq("songId", args.songId))
+      .collect();
+
+    const setlistIds = new Set(items.map((item) => item.setlistId));
+    for (const setlistId of setlistIds) {
+      await recomputeEstimatedDuration(ctx, setlistId);
+    }
+  },
+});
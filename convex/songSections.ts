@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
 // ============ CONSTANTS ============
@@ -254,6 +255,51 @@ export const update = mutation({
   },
 });
 
+/**
+ * Set or clear where a section falls in the primary audio
+ * Omitting both times clears the timing; the end may be left open
+ */
+export const setTiming = mutation({
+  args: {
+    id: v.id("songSections"),
+    startSeconds: v.optional(v.number()),
+    endSeconds: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const section = await ctx.db.get(args.id);
+    if (!section || section.deletedAt) {
+      throw new Error("Section not found");
+    }
+
+    // Verify song access
+    await verifySongAccess(ctx, section.songId, userId);
+
+    if (args.startSeconds === undefined && args.endSeconds !== undefined) {
+      throw new Error("Section end requires a start");
+    }
+    if (args.startSeconds !== undefined && args.startSeconds < 0) {
+      throw new Error("Section start must not be negative");
+    }
+    if (
+      args.startSeconds !== undefined &&
+      args.endSeconds !== undefined &&
+      args.endSeconds <= args.startSeconds
+    ) {
+      throw new Error("Section must end after it starts");
+    }
+
+    await ctx.db.patch(args.id, {
+      startSeconds: args.startSeconds,
+      endSeconds: args.endSeconds,
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
 /**
  * Reorder sections within the same instrument
  */
@@ -302,6 +348,11 @@ export const reorder = mutation({
         updatedAt: now,
       });
     }
+
+    // Gear changes affect the gaps in setlist duration estimates
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId,
+    });
   },
 });
 
@@ -326,6 +377,10 @@ export const softDelete = mutation({
       updatedAt: Date.now(),
     });
 
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId: section.songId,
+    });
+
     return args.id;
   },
 });
@@ -445,6 +500,10 @@ export const updateGearSettings = mutation({
       updatedAt: Date.now(),
     });
 
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId: section.songId,
+    });
+
     return args.id;
   },
 });
@@ -497,6 +556,10 @@ export const createWithGear = mutation({
       createdAt: now,
     });
 
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId: args.songId,
+    });
+
     return sectionId;
   },
 });
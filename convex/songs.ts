@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
 // ============ CONSTANTS ============
@@ -57,6 +58,10 @@ export const TIME_SIGNATURES = [
   "12/8",
 ] as const;
 
+// Training tools use these when a song has no tempo or time signature
+const DEFAULT_PRACTICE_TEMPO = 120;
+const DEFAULT_PRACTICE_TIME_SIGNATURE = "4/4";
+
 // ============ HELPERS ============
 
 async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
@@ -182,6 +187,40 @@ export const get = query({
   },
 });
 
+/**
+ * Tempo, meter and key for configuring the training tools from a song
+ * Falls back to 120 BPM in 4/4 when the song doesn't say
+ */
+export const getPracticeSettings = query({
+  args: { songId: v.id("songs") },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const song = await ctx.db.get(args.songId);
+    if (!song || song.deletedAt) {
+      return null;
+    }
+
+    const isMember = await verifyBandOwnership(ctx, song.bandId, userId);
+    if (!isMember) {
+      return null;
+    }
+
+    return {
+      songId: song._id,
+      bandId: song.bandId,
+      title: song.title,
+      tempo: song.tempo ?? DEFAULT_PRACTICE_TEMPO,
+      timeSignature: song.timeSignature ?? DEFAULT_PRACTICE_TIME_SIGNATURE,
+      key: song.key,
+      mode: song.mode,
+    };
+  },
+});
+
 // ============ MUTATIONS ============
 
 /**
@@ -299,6 +338,12 @@ export const update = mutation({
 
     await ctx.db.patch(args.id, updates);
 
+    if (args.durationSeconds !== undefined) {
+      await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+        songId: args.id,
+      });
+    }
+
     return args.id;
   },
 });
@@ -332,9 +377,23 @@ export const updatePracticeStatus = mutation({
       );
     }
 
+    if (song.practiceStatus === args.practiceStatus) {
+      return args.id;
+    }
+
+    const now = Date.now();
     await ctx.db.patch(args.id, {
       practiceStatus: args.practiceStatus,
-      updatedAt: Date.now(),
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("practiceStatusChanges", {
+      userId,
+      songId: args.id,
+      bandId: song.bandId,
+      fromStatus: song.practiceStatus,
+      toStatus: args.practiceStatus,
+      changedAt: now,
     });
 
     return args.id;
@@ -397,6 +456,11 @@ export const softDelete = mutation({
       }
     }
 
+    // Archived songs no longer count toward setlist durations
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId: args.id,
+    });
+
     return args.id;
   },
 });
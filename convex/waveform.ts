@@ -1,7 +1,14 @@
 import { v } from "convex/values";
-import { mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { isSameKey, isSameMode } from "./musicalKeys";
+
+// ============ CONSTANTS ============
+
+// Keeps each waveformLevels document well under Convex's 1MB limit
+const MAX_PEAK_LEVEL_BYTES = 512 * 1024;
 
 // ============ HELPERS ============
 
@@ -13,6 +20,62 @@ async function getCurrentUserId(ctx: MutationCtx): Promise<Id<"users">> {
   return userId;
 }
 
+async function getQueryUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  const userId = await getAuthUserId(ctx);
+  return userId;
+}
+
+// ============ QUERIES ============
+
+/**
+ * Get one resolution of a song file's waveform peaks
+ * Loaded on demand as the player zooms in
+ */
+export const getSongFilePeakLevel = query({
+  args: {
+    fileId: v.id("songFiles"),
+    bucketCount: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getQueryUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const file = await ctx.db.get(args.fileId);
+    if (!file) {
+      return null;
+    }
+
+    const song = await ctx.db.get(file.songId);
+    if (!song || song.deletedAt) {
+      return null;
+    }
+
+    const band = await ctx.db.get(song.bandId);
+    if (!band || band.deletedAt || band.createdBy !== userId) {
+      return null;
+    }
+
+    const level = await ctx.db
+      .query("waveformLevels")
+      .withIndex("by_file", (q) =>
+        q.eq("songFileId", args.fileId).eq("bucketCount", args.bucketCount)
+      )
+      .first();
+
+    if (!level) {
+      return null;
+    }
+
+    return {
+      bucketCount: level.bucketCount,
+      channelCount: level.channelCount,
+      data: level.data,
+    };
+  },
+});
+
 // ============ MUTATIONS ============
 
 /**
@@ -29,7 +92,12 @@ export const saveSongFileAnalysis = mutation({
     durationSeconds: v.optional(v.number()),
     detectedTempo: v.optional(v.number()),
     detectedKey: v.optional(v.string()),
+    detectedMode: v.optional(v.string()),
     analysisConfidence: v.optional(v.number()),
+    integratedLoudness: v.optional(v.number()),
+    truePeak: v.optional(v.number()),
+    crestFactor: v.optional(v.number()),
+    clippedRuns: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const userId = await getCurrentUserId(ctx);
@@ -60,8 +128,13 @@ export const saveSongFileAnalysis = mutation({
       waveformPeaks: number[];
       detectedTempo: number;
       detectedKey: string;
+      detectedMode: string;
       analysisConfidence: number;
       durationSeconds: number;
+      integratedLoudness: number;
+      truePeak: number;
+      crestFactor: number;
+      clippedRuns: number;
     }> = {
       waveformPeaks: args.waveformPeaks,
     };
@@ -72,27 +145,51 @@ export const saveSongFileAnalysis = mutation({
     if (args.detectedKey !== undefined) {
       fileUpdates.detectedKey = args.detectedKey;
     }
+    if (args.detectedMode !== undefined) {
+      fileUpdates.detectedMode = args.detectedMode;
+    }
     if (args.analysisConfidence !== undefined) {
       fileUpdates.analysisConfidence = args.analysisConfidence;
     }
     if (args.durationSeconds !== undefined) {
       fileUpdates.durationSeconds = args.durationSeconds;
     }
+    if (args.integratedLoudness !== undefined) {
+      fileUpdates.integratedLoudness = args.integratedLoudness;
+    }
+    if (args.truePeak !== undefined) {
+      fileUpdates.truePeak = args.truePeak;
+    }
+    if (args.crestFactor !== undefined) {
+      fileUpdates.crestFactor = args.crestFactor;
+    }
+    if (args.clippedRuns !== undefined) {
+      fileUpdates.clippedRuns = args.clippedRuns;
+    }
 
     await ctx.db.patch(args.fileId, fileUpdates);
 
+    // Setlists fall back to the primary audio file's length
+    if (file.isPrimary && args.durationSeconds !== undefined) {
+      await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+        songId: song._id,
+      });
+    }
+
     // Return info for client to decide whether to show confirmation dialog
     // Only relevant if this is the primary audio file
     if (file.isPrimary) {
       const hasConflict =
         (args.durationSeconds !== undefined && song.durationSeconds !== undefined && song.durationSeconds !== Math.round(args.durationSeconds)) ||
         (args.detectedTempo !== undefined && song.tempo !== undefined && song.tempo !== args.detectedTempo) ||
-        (args.detectedKey !== undefined && song.key !== undefined && song.key !== args.detectedKey);
+        (args.detectedKey !== undefined && song.key !== undefined && !isSameKey(song.key, args.detectedKey)) ||
+        (args.detectedMode !== undefined && song.mode !== undefined && !isSameMode(song.mode, args.detectedMode));
 
       const songHasNoMetadata =
         song.durationSeconds === undefined &&
         song.tempo === undefined &&
-        song.key === undefined;
+        song.key === undefined &&
+        song.mode === undefined;
 
       return {
         fileId: args.fileId,
@@ -104,11 +201,14 @@ export const saveSongFileAnalysis = mutation({
           durationSeconds: args.durationSeconds ? Math.round(args.durationSeconds) : undefined,
           tempo: args.detectedTempo,
           key: args.detectedKey,
+          mode: args.detectedMode,
+          analysisConfidence: args.analysisConfidence,
         },
         current: {
           durationSeconds: song.durationSeconds,
           tempo: song.tempo,
           key: song.key,
+          mode: song.mode,
         },
       };
     }
@@ -123,16 +223,96 @@ export const saveSongFileAnalysis = mutation({
         durationSeconds: args.durationSeconds ? Math.round(args.durationSeconds) : undefined,
         tempo: args.detectedTempo,
         key: args.detectedKey,
+        mode: args.detectedMode,
+        analysisConfidence: args.analysisConfidence,
       },
       current: {
         durationSeconds: song.durationSeconds,
         tempo: song.tempo,
         key: song.key,
+        mode: song.mode,
       },
     };
   },
 });
 
+/**
+ * Save the multi-resolution waveform peaks for a song file
+ * Replaces any levels from a previous analysis
+ */
+export const saveSongFilePeakLevels = mutation({
+  args: {
+    fileId: v.id("songFiles"),
+    levels: v.array(
+      v.object({
+        bucketCount: v.number(),
+        channelCount: v.number(),
+        data: v.bytes(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const file = await ctx.db.get(args.fileId);
+    if (!file || file.deletedAt) {
+      throw new Error("File not found");
+    }
+
+    const song = await ctx.db.get(file.songId);
+    if (!song || song.deletedAt) {
+      throw new Error("Song not found");
+    }
+
+    const band = await ctx.db.get(song.bandId);
+    if (!band || band.deletedAt) {
+      throw new Error("Band not found");
+    }
+
+    if (band.createdBy !== userId) {
+      throw new Error("Not authorized to access this song");
+    }
+
+    for (const level of args.levels) {
+      if (
+        !Number.isInteger(level.bucketCount) ||
+        !Number.isInteger(level.channelCount) ||
+        level.bucketCount < 1 ||
+        level.channelCount < 1
+      ) {
+        throw new Error("Invalid waveform level");
+      }
+      if (level.data.byteLength !== level.bucketCount * level.channelCount * 2) {
+        throw new Error("Waveform level data does not match its size");
+      }
+      if (level.data.byteLength > MAX_PEAK_LEVEL_BYTES) {
+        throw new Error("Waveform level is too large");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("waveformLevels")
+      .withIndex("by_file", (q) => q.eq("songFileId", args.fileId))
+      .collect();
+    for (const level of existing) {
+      await ctx.db.delete(level._id);
+    }
+
+    const now = Date.now();
+    for (const level of args.levels) {
+      await ctx.db.insert("waveformLevels", {
+        songFileId: args.fileId,
+        bucketCount: level.bucketCount,
+        channelCount: level.channelCount,
+        data: level.data,
+        createdAt: now,
+      });
+    }
+
+    return args.fileId;
+  },
+});
+
 /**
  * Apply detected audio metadata to a song
  * Called after user confirms they want to overwrite existing values
@@ -143,6 +323,7 @@ export const applySongMetadata = mutation({
     durationSeconds: v.optional(v.number()),
     tempo: v.optional(v.number()),
     key: v.optional(v.string()),
+    mode: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getCurrentUserId(ctx);
@@ -168,6 +349,7 @@ export const applySongMetadata = mutation({
       durationSeconds: number;
       tempo: number;
       key: string;
+      mode: string;
       updatedAt: number;
     }> = {};
 
@@ -180,12 +362,21 @@ export const applySongMetadata = mutation({
     if (args.key !== undefined) {
       updates.key = args.key;
     }
+    if (args.mode !== undefined) {
+      updates.mode = args.mode;
+    }
 
     if (Object.keys(updates).length > 0) {
       updates.updatedAt = Date.now();
       await ctx.db.patch(args.songId, updates);
     }
 
+    if (updates.durationSeconds !== undefined) {
+      await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+        songId: args.songId,
+      });
+    }
+
     return args.songId;
   },
 });
@@ -216,13 +407,23 @@ export const savePeaks = internalMutation({
               durationSeconds: Math.round(args.durationSeconds),
               updatedAt: Date.now(),
             });
+            await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+              songId: song._id,
+            });
           }
         }
       }
     } else if (args.targetTable === "bounces") {
-      await ctx.db.patch(args.targetId as Id<"bounces">, {
+      const bounceUpdates: Partial<{
+        waveformPeaks: number[];
+        durationSeconds: number;
+      }> = {
         waveformPeaks: args.peaks,
-      });
+      };
+      if (args.durationSeconds !== undefined) {
+        bounceUpdates.durationSeconds = args.durationSeconds;
+      }
+      await ctx.db.patch(args.targetId as Id<"bounces">, bounceUpdates);
     }
   },
 });
@@ -257,6 +458,10 @@ export const updateSongDuration = mutation({
       updatedAt: Date.now(),
     });
 
+    await ctx.scheduler.runAfter(0, internal.setlists.computeDurationsForSong, {
+      songId: args.songId,
+    });
+
     return args.songId;
   },
 });
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useQuery } from "convex/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "../../../../../../../../convex/_generated/api";
+import { Id } from "../../../../../../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { GigModeSong, formatSongMeta } from "@/components/setlists";
+import {
+  X,
+  ChevronLeft,
+  ChevronRight,
+  Maximize,
+  Minimize,
+  SlidersHorizontal,
+} from "lucide-react";
+
+// Keys sent by Bluetooth page-turner pedals, plus arrow keys for laptops
+const NEXT_KEYS = [" ", "PageDown", "ArrowRight", "ArrowDown"];
+const PREVIOUS_KEYS = ["PageUp", "ArrowLeft", "ArrowUp"];
+
+export default function GigModePage() {
+  const params = useParams();
+  const router = useRouter();
+  const bandId = params.bandId as Id<"bands">;
+  const setlistId = params.setlistId as Id<"setlists">;
+
+  const [index, setIndex] = useState(0);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const setlist = useQuery(api.setlists.get, { id: setlistId });
+  const gearDeltas = useQuery(api.setlists.getGearDeltas, { setlistId });
+  const sectionsByItem = useQuery(api.setlists.listSectionsByItem, { setlistId });
+
+  const items = useMemo(() => setlist?.items ?? [], [setlist]);
+  const total = items.length;
+
+  // Clamp in case songs were removed while performing
+  const currentIndex = Math.min(index, Math.max(total - 1, 0));
+  const current = items[currentIndex];
+  const next = items[currentIndex + 1];
+
+  const deltasByItem = useMemo(
+    () => new Map((gearDeltas ?? []).map((d) => [d.itemId, d])),
+    [gearDeltas]
+  );
+
+  const sectionsMap = useMemo(
+    () => new Map((sectionsByItem ?? []).map((s) => [s.itemId, s.sections])),
+    [sectionsByItem]
+  );
+
+  const exitGigMode = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    router.push(`/bands/${bandId}/setlists/${setlistId}`);
+  }, [router, bandId, setlistId]);
+
+  const goNext = useCallback(() => {
+    setIndex((i) => Math.min(i + 1, Math.max(total - 1, 0)));
+  }, [total]);
+
+  const goPrevious = useCallback(() => {
+    setIndex((i) => Math.max(i - 1, 0));
+  }, []);
+
+  // Keyboard / foot-switch navigation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      if (NEXT_KEYS.includes(e.key)) {
+        e.preventDefault();
+        goNext();
+      } else if (PREVIOUS_KEYS.includes(e.key)) {
+        e.preventDefault();
+        goPrevious();
+      } else if (e.key === "Escape" && !document.fullscreenElement) {
+        exitGigMode();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [goNext, goPrevious, exitGigMode]);
+
+  // Keep the screen awake on phones and tablets
+  useEffect(() => {
+    if (!("wakeLock" in navigator)) return;
+
+    let wakeLock: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const requestWakeLock = async () => {
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) {
+          lock.release();
+        } else {
+          wakeLock = lock;
+        }
+      } catch {
+        // Not allowed (e.g. low battery) - the view still works
+      }
+    };
+
+    // The lock is dropped whenever the page is hidden
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        requestWakeLock();
+      }
+    };
+
+    requestWakeLock();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      wakeLock?.release();
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(!!document.fullscreenElement);
+    };
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  };
+
+  const isLoading = setlist === undefined;
+  const nextGear = next ? deltasByItem.get(next._id) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background">
+      {/* Top bar */}
+      <div className="flex items-center gap-2 border-b px-3 py-2">
+        <Button variant="ghost" size="icon" onClick={exitGigMode} title="Exit gig mode">
+          <X className="h-5 w-5" />
+        </Button>
+        <p className="min-w-0 flex-1 truncate text-sm text-muted-foreground">
+          {setlist?.name || "Untitled setlist"}
+        </p>
+        {total > 0 && (
+          <span className="font-mono text-lg tabular-nums">
+            {currentIndex + 1} / {total}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={toggleFullscreen}
+          title={isFullscreen ? "Exit full screen" : "Full screen"}
+        >
+          {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+        </Button>
+      </div>
+
+      {/* Current song */}
+      <div className="flex-1 overflow-y-auto p-4 md:p-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            <div className="h-14 w-3/4 bg-muted rounded animate-pulse" />
+            <div className="h-8 w-1/2 bg-muted rounded animate-pulse" />
+            <div className="h-24 bg-muted rounded-lg animate-pulse" />
+          </div>
+        ) : setlist === null ? (
+          <p className="text-center text-muted-foreground">Setlist not found</p>
+        ) : current ? (
+          <GigModeSong
+            item={current}
+            gearChanges={deltasByItem.get(current._id)?.instruments ?? []}
+            sections={sectionsMap.get(current._id) ?? []}
+          />
+        ) : (
+          <p className="text-center text-muted-foreground">
+            This setlist has no songs yet.
+          </p>
+        )}
+      </div>
+
+      {/* Next up + navigation */}
+      {current && (
+        <div className="flex items-stretch gap-2 border-t p-2 md:p-3">
+          <Button
+            variant="outline"
+            className="h-auto px-4"
+            onClick={goPrevious}
+            disabled={currentIndex === 0}
+            title="Previous song (Page Up)"
+          >
+            <ChevronLeft className="h-8 w-8" />
+          </Button>
+
+          <button
+            type="button"
+            onClick={goNext}
+            disabled={!next}
+            className="min-w-0 flex-1 rounded-md border bg-muted/40 px-4 py-2 text-left disabled:opacity-60"
+          >
+            {next ? (
+              <>
+                <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  Next up
+                </p>
+                <p className="truncate text-xl md:text-2xl font-semibold">
+                  {next.song ? next.song.title : "Archived song"}
+                </p>
+                <p className="flex flex-wrap items-center gap-x-3 text-sm text-muted-foreground">
+                  {next.song && <span>{formatSongMeta(next.song)}</span>}
+                  {nextGear && nextGear.actionCount > 0 && (
+                    <span className="flex items-center gap-1">
+                      <SlidersHorizontal className="h-3.5 w-3.5" />
+                      {nextGear.actionCount} gear{" "}
+                      {nextGear.actionCount === 1 ? "change" : "changes"}
+                    </span>
+                  )}
+                </p>
+              </>
+            ) : (
+              <p className="py-2 text-xl font-semibold text-muted-foreground">End of set</p>
+            )}
+          </button>
+
+          <Button
+            className="h-auto px-4"
+            onClick={goNext}
+            disabled={!next}
+            title="Next song (Space / Page Down)"
+          >
+            <ChevronRight className="h-8 w-8" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
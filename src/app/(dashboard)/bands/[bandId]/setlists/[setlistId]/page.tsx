@@ -0,0 +1,358 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "../../../../../../../convex/_generated/api";
+import { Id } from "../../../../../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  AddSongToSetlistDialog,
+  SetlistItemRow,
+  GearDeltaDisplay,
+  SetlistTimingDialog,
+  ExportSetlistDialog,
+  formatSetlistDate,
+  type SetlistPdfData,
+} from "@/components/setlists";
+import { formatDurationLong } from "@/lib/audio";
+import {
+  ArrowLeft,
+  Plus,
+  Trash2,
+  ListMusic,
+  Clock,
+  MonitorPlay,
+  Printer,
+} from "lucide-react";
+import { toast } from "sonner";
+
+export default function SetlistDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const bandId = params.bandId as Id<"bands">;
+  const setlistId = params.setlistId as Id<"setlists">;
+
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showTimingDialog, setShowTimingDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const setlist = useQuery(api.setlists.get, { id: setlistId });
+  const gearDeltas = useQuery(api.setlists.getGearDeltas, { setlistId });
+  const durationEstimate = useQuery(api.setlists.getDurationEstimate, { setlistId });
+  const reorderItems = useMutation(api.setlists.reorderItems);
+  const removeItem = useMutation(api.setlists.removeItem);
+  const updateItem = useMutation(api.setlists.updateItem);
+  const deleteSetlist = useMutation(api.setlists.softDelete);
+
+  const isLoading = setlist === undefined;
+  const items = useMemo(() => setlist?.items ?? [], [setlist]);
+
+  const existingSongIds = useMemo(() => items.map((i) => i.songId), [items]);
+
+  const deltasByItem = useMemo(
+    () => new Map((gearDeltas ?? []).map((d) => [d.itemId, d.instruments])),
+    [gearDeltas]
+  );
+
+  const pdfData = useMemo<SetlistPdfData>(
+    () => ({
+      name: setlist?.name || "Untitled setlist",
+      date: setlist?.date,
+      venue: setlist?.venue,
+      songs: items.map((item) => ({
+        title: item.song?.title ?? "Archived song",
+        key: item.song?.key,
+        mode: item.song?.mode,
+        tempo: item.song?.tempo,
+        timeSignature: item.song?.timeSignature,
+        transitionNotes: item.transitionNotes,
+        gearChanges: deltasByItem.get(item._id) ?? [],
+      })),
+    }),
+    [setlist, items, deltasByItem]
+  );
+
+  // Live estimate first; the stored value covers the moment before it loads
+  const totalSeconds =
+    durationEstimate?.totalSeconds ?? setlist?.estimatedDurationSeconds;
+
+  const durationsByItem = useMemo(
+    () => new Map((durationEstimate?.items ?? []).map((d) => [d.itemId, d])),
+    [durationEstimate]
+  );
+
+  const handleMoveItem = async (index: number, direction: "up" | "down") => {
+    const newIndex = direction === "up" ? index - 1 : index + 1;
+    if (newIndex < 0 || newIndex >= items.length) return;
+
+    const newOrder = items.map((i) => i._id);
+    [newOrder[index], newOrder[newIndex]] = [newOrder[newIndex], newOrder[index]];
+
+    try {
+      await reorderItems({ setlistId, itemIds: newOrder });
+    } catch {
+      toast.error("Failed to reorder");
+    }
+  };
+
+  const handleRemoveItem = async (itemId: Id<"setlistItems">) => {
+    try {
+      await removeItem({ id: itemId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove song");
+    }
+  };
+
+  const handleTransitionNotesChange = async (
+    itemId: Id<"setlistItems">,
+    transitionNotes: string
+  ) => {
+    try {
+      await updateItem({ id: itemId, transitionNotes });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save notes");
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteSetlist({ id: setlistId });
+      toast.success("Setlist deleted");
+      router.push(`/bands/${bandId}/setlists`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete setlist");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Setlist not found
+  if (setlist === null) {
+    return (
+      <div className="p-8 text-center">
+        <p className="text-muted-foreground mb-4">Setlist not found</p>
+        <Button variant="outline" onClick={() => router.push(`/bands/${bandId}/setlists`)}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Setlists
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push(`/bands/${bandId}/setlists`)}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowDeleteDialog(true)}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-9 w-64 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="flex items-end justify-between gap-4 flex-wrap">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">
+                {setlist.name || "Untitled setlist"}
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                {[
+                  setlist.date && formatSetlistDate(setlist.date),
+                  setlist.venue,
+                  `${items.length} ${items.length === 1 ? "song" : "songs"}`,
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </p>
+              {items.length > 0 && totalSeconds !== undefined && (
+                <button
+                  type="button"
+                  onClick={() => setShowTimingDialog(true)}
+                  className="mt-1 flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground"
+                  title="Adjust gaps between songs"
+                >
+                  <Clock className="h-3.5 w-3.5" />
+                  <span>~{formatDurationLong(totalSeconds)}</span>
+                  {durationEstimate && durationEstimate.unknownCount > 0 && (
+                    <span className="text-yellow-600 dark:text-yellow-400">
+                      • {durationEstimate.unknownCount}{" "}
+                      {durationEstimate.unknownCount === 1 ? "song" : "songs"} missing a length
+                    </span>
+                  )}
+                </button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {items.length > 0 && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setShowExportDialog(true)}
+                    title="Print setlist"
+                  >
+                    <Printer className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/bands/${bandId}/setlists/${setlistId}/gig`)}
+                  >
+                    <MonitorPlay className="mr-2 h-4 w-4" />
+                    Gig Mode
+                  </Button>
+                </>
+              )}
+              <Button onClick={() => setShowAddDialog(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Songs
+              </Button>
+            </div>
+          </div>
+        )}
+        {!isLoading && setlist.notes && (
+          <p className="text-sm whitespace-pre-wrap">{setlist.notes}</p>
+        )}
+      </div>
+
+      {/* Running order */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-12 bg-muted rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : items.length > 0 ? (
+        <div className="space-y-2">
+          {items.map((item, index) => {
+            const gearChanges = deltasByItem.get(item._id) ?? [];
+
+            return (
+              <SetlistItemRow
+                key={item._id}
+                item={item}
+                index={index}
+                total={items.length}
+                bandId={bandId}
+                onMoveUp={() => handleMoveItem(index, "up")}
+                onMoveDown={() => handleMoveItem(index, "down")}
+                onRemove={() => handleRemoveItem(item._id)}
+                onTransitionNotesChange={(notes) =>
+                  handleTransitionNotesChange(item._id, notes)
+                }
+                duration={durationsByItem.get(item._id)}
+              >
+                {gearChanges.length > 0 && (
+                  <GearDeltaDisplay
+                    instruments={gearChanges}
+                    className="border-t px-3 py-2 pl-12"
+                  />
+                )}
+              </SetlistItemRow>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListMusic className="h-5 w-5" />
+              No songs yet
+            </CardTitle>
+            <CardDescription>
+              Add songs from this band&apos;s repertoire to build the running order.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Songs
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <AddSongToSetlistDialog
+        open={showAddDialog}
+        onOpenChange={setShowAddDialog}
+        bandId={bandId}
+        setlistId={setlistId}
+        existingSongIds={existingSongIds}
+      />
+
+      {durationEstimate && (
+        <SetlistTimingDialog
+          open={showTimingDialog}
+          onOpenChange={setShowTimingDialog}
+          setlistId={setlistId}
+          songGapSeconds={durationEstimate.songGapSeconds}
+          gearChangeGapSeconds={durationEstimate.gearChangeGapSeconds}
+        />
+      )}
+
+      <ExportSetlistDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        data={pdfData}
+      />
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Setlist</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{setlist?.name || "this setlist"}&quot;?
+              The songs themselves won&apos;t be affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
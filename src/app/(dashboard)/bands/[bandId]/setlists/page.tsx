@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "../../../../../../convex/_generated/api";
+import { Id } from "../../../../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { SetlistCard, CreateSetlistDialog } from "@/components/setlists";
+import { ArrowLeft, Plus, ListMusic } from "lucide-react";
+
+export default function BandSetlistsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const bandId = params.bandId as Id<"bands">;
+
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+
+  const band = useQuery(api.bands.get, { id: bandId });
+  const setlists = useQuery(api.setlists.listByBand, { bandId });
+
+  const isLoading = band === undefined || setlists === undefined;
+
+  // Not owner or band doesn't exist
+  if (band === null) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Band not found</CardTitle>
+            <CardDescription>
+              This band doesn&apos;t exist or you don&apos;t have access to it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => router.push("/bands")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Bands
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/bands/${bandId}/songs`)}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">
+              {isLoading ? (
+                <span className="animate-pulse bg-muted rounded h-7 w-40 inline-block" />
+              ) : (
+                `${band?.name} Setlists`
+              )}
+            </h1>
+            <p className="text-muted-foreground">
+              {isLoading ? (
+                <span className="animate-pulse bg-muted rounded h-4 w-24 inline-block" />
+              ) : (
+                `${setlists?.length ?? 0} setlists`
+              )}
+            </p>
+          </div>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Setlist
+        </Button>
+      </div>
+
+      {isLoading ? (
+        // Loading skeleton
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader className="pb-2">
+                <div className="h-5 bg-muted rounded w-3/4" />
+                <div className="h-4 bg-muted rounded w-1/2 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : setlists && setlists.length > 0 ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {setlists.map((setlist) => (
+            <SetlistCard key={setlist._id} setlist={setlist} />
+          ))}
+        </div>
+      ) : (
+        // Empty state
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListMusic className="h-5 w-5" />
+              No setlists yet
+            </CardTitle>
+            <CardDescription>
+              Put together the running order for your next gig.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setShowCreateDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Your First Setlist
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <CreateSetlistDialog
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        bandId={bandId}
+        onSuccess={(setlistId) => {
+          router.push(`/bands/${bandId}/setlists/${setlistId}`);
+        }}
+      />
+    </div>
+  );
+}
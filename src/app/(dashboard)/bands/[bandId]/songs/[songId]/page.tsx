@@ -16,11 +16,14 @@ import {
 } from "@/components/ui/select";
 import {
   SongFilesSection,
+  SongFilesSectionRef,
   PracticeStatusDropdown,
   PracticeStatus,
 } from "@/components/songs";
 import { SectionGearManager } from "@/components/gear";
-import { ArrowLeft, Trash2 } from "lucide-react";
+import { SongPracticeHistory } from "@/components/practice";
+import { usePracticeTimer, recordPracticeSong } from "@/hooks/usePracticeTimer";
+import { ArrowLeft, Gauge, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import {
   AlertDialog,
@@ -173,6 +176,10 @@ export default function SongDetailPage() {
   const [localNotes, setLocalNotes] = useState<string | null>(null);
   const notesTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Links section timings in the gear panel to the primary audio player
+  const filesSectionRef = useRef<SongFilesSectionRef>(null);
+  const [playheadSeconds, setPlayheadSeconds] = useState<number | null>(null);
+
   const song = useQuery(api.songs.get, { id: songId });
   const updateSong = useMutation(api.songs.update);
   const updatePracticeStatus = useMutation(api.songs.updatePracticeStatus);
@@ -180,6 +187,15 @@ export default function SongDetailPage() {
 
   const isLoading = song === undefined;
 
+  // Count this song toward a running practice timer once it has loaded
+  const { isRunning: isPracticeTimerRunning } = usePracticeTimer();
+  const loadedSongId = song?._id;
+  useEffect(() => {
+    if (isPracticeTimerRunning && loadedSongId) {
+      recordPracticeSong(loadedSongId);
+    }
+  }, [isPracticeTimerRunning, loadedSongId]);
+
   // Sync local notes with server when song loads
   useEffect(() => {
     if (song && localNotes === null) {
@@ -283,14 +299,24 @@ export default function SongDetailPage() {
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowArchiveDialog(true)}
-            className="text-muted-foreground hover:text-destructive"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push(`/training?songId=${songId}`)}
+            >
+              <Gauge className="mr-2 h-4 w-4" />
+              Practice This Song
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowArchiveDialog(true)}
+              className="text-muted-foreground hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Title row */}
@@ -378,13 +404,23 @@ export default function SongDetailPage() {
             songId={songId}
             generalNotes={localNotes ?? song.notes ?? ""}
             onGeneralNotesChange={handleGeneralNotesChange}
+            playheadSeconds={playheadSeconds}
+            onSeek={(seconds) => filesSectionRef.current?.playPrimaryFrom(seconds)}
+            getAudioTime={() => filesSectionRef.current?.getPrimaryTime() ?? null}
           />
 
           {/* Files */}
-          <SongFilesSection songId={songId} />
+          <SongFilesSection
+            ref={filesSectionRef}
+            songId={songId}
+            onPrimaryPlayheadChange={setPlayheadSeconds}
+          />
         </div>
       )}
 
+      {/* Practice history */}
+      {!isLoading && song && <SongPracticeHistory songId={songId} bandId={bandId} />}
+
       {/* Archive confirmation dialog */}
       <AlertDialog open={showArchiveDialog} onOpenChange={setShowArchiveDialog}>
         <AlertDialogContent>
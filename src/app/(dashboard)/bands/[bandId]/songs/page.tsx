@@ -15,7 +15,7 @@ import {
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SongList, CreateSongDialog, PracticeStatus } from "@/components/songs";
-import { ArrowLeft, Plus, Music } from "lucide-react";
+import { ArrowLeft, Plus, Music, ListMusic } from "lucide-react";
 
 export default function BandSongsPage() {
   const params = useParams();
@@ -100,10 +100,19 @@ export default function BandSongsPage() {
             </p>
           </div>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Song
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/bands/${bandId}/setlists`)}
+          >
+            <ListMusic className="mr-2 h-4 w-4" />
+            Setlists
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Song
+          </Button>
+        </div>
       </div>
 
       {/* Status filter tabs */}
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { BandList, CreateBandDialog } from "@/components/bands";
+import { PracticeQueueWidget } from "@/components/practice";
 import { Plus } from "lucide-react";
 
 export default function BandsPage() {
@@ -59,7 +60,10 @@ export default function BandsPage() {
           ))}
         </div>
       ) : hasBands ? (
-        <BandList bands={bands} />
+        <>
+          <PracticeQueueWidget />
+          <BandList bands={bands} />
+        </>
       ) : (
         // Empty state
         <Card>
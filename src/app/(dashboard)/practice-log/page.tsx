@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  LogPracticeDialog,
+  PracticeSessionList,
+  formatMinutes,
+} from "@/components/practice";
+import { Plus, History, BarChart3 } from "lucide-react";
+import { toast } from "sonner";
+
+export default function PracticeLogPage() {
+  const [showLogDialog, setShowLogDialog] = useState(false);
+
+  const sessions = useQuery(api.practiceSessions.list, {});
+  const removeSession = useMutation(api.practiceSessions.remove);
+
+  const isLoading = sessions === undefined;
+  const hasSessions = sessions && sessions.length > 0;
+  const totalMinutes = (sessions ?? []).reduce((sum, s) => sum + (s.durationMinutes ?? 0), 0);
+
+  const handleDelete = async (sessionId: Id<"practiceSessions">) => {
+    try {
+      await removeSession({ id: sessionId });
+      toast.success("Session deleted");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete session");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Practice Log</h1>
+          <p className="text-muted-foreground">
+            {isLoading ? (
+              <span className="animate-pulse bg-muted rounded h-4 w-24 inline-block" />
+            ) : (
+              [
+                `${sessions.length} ${sessions.length === 1 ? "session" : "sessions"}`,
+                totalMinutes > 0 ? formatMinutes(totalMinutes) : null,
+              ]
+                .filter(Boolean)
+                .join(" • ")
+            )}
+          </p>
+        </div>
+        {hasSessions && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/practice-log/stats">
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Stats
+              </Link>
+            </Button>
+            <Button onClick={() => setShowLogDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Log Practice
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        // Loading skeleton
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-16 bg-muted rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : hasSessions ? (
+        <PracticeSessionList sessions={sessions} onDelete={handleDelete} />
+      ) : (
+        // Empty state
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              No practice logged yet
+            </CardTitle>
+            <CardDescription>
+              Log what you practiced and for how long to see your history per song.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setShowLogDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Log Your First Session
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <LogPracticeDialog open={showLogDialog} onOpenChange={setShowLogDialog} />
+    </div>
+  );
+}
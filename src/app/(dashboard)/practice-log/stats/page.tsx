@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "convex/react";
+import { api } from "../../../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  WeeklyMinutesChart,
+  StatusTrendChart,
+  SongPracticeTotals,
+  StaleSongsList,
+  formatMinutes,
+  getLocalDateString,
+} from "@/components/practice";
+import { PRACTICE_STATUS_OPTIONS, PracticeStatusBadge } from "@/components/songs";
+import { ArrowLeft, Flame, Trophy, Clock, CalendarDays } from "lucide-react";
+
+export default function PracticeStatsPage() {
+  const router = useRouter();
+  // Captured once so the query args stay stable between renders
+  const [today] = useState(getLocalDateString);
+  const [utcOffsetMinutes] = useState(() => new Date().getTimezoneOffset());
+
+  const stats = useQuery(api.practiceStats.get, { today, utcOffsetMinutes });
+
+  const isLoading = stats === undefined;
+  const thisWeekMinutes = stats?.weeklyMinutes.at(-1)?.minutes ?? 0;
+
+  const summary = stats
+    ? [
+        {
+          label: "Current streak",
+          value: `${stats.currentStreak} ${stats.currentStreak === 1 ? "day" : "days"}`,
+          icon: Flame,
+        },
+        {
+          label: "Longest streak",
+          value: `${stats.longestStreak} ${stats.longestStreak === 1 ? "day" : "days"}`,
+          icon: Trophy,
+        },
+        { label: "This week", value: formatMinutes(thisWeekMinutes), icon: CalendarDays },
+        {
+          label: `All time • ${stats.sessionCount} ${stats.sessionCount === 1 ? "session" : "sessions"}`,
+          value: formatMinutes(stats.totalMinutes),
+          icon: Clock,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Button variant="ghost" size="sm" onClick={() => router.push("/practice-log")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Practice Stats</h1>
+          <p className="text-muted-foreground">
+            Where your practice time goes and which songs need attention.
+          </p>
+        </div>
+      </div>
+
+      {isLoading || stats === null ? (
+        // Loading skeleton
+        <div className="space-y-4">
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-24 bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+          <div className="h-56 bg-muted rounded-lg animate-pulse" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {summary.map((item) => (
+              <Card key={item.label}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <item.icon className="h-4 w-4" />
+                    {item.label}
+                  </div>
+                  <p className="mt-1 text-2xl font-bold">{item.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Weekly Minutes</CardTitle>
+                <CardDescription>Last {stats.weeklyMinutes.length} weeks</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WeeklyMinutesChart weeks={stats.weeklyMinutes} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Readiness Trend</CardTitle>
+                <CardDescription>Songs promoted to each status per week</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <StatusTrendChart weeks={stats.statusTrend} />
+                <div className="flex flex-wrap items-center gap-2 border-t pt-3 text-sm text-muted-foreground">
+                  Now:
+                  {PRACTICE_STATUS_OPTIONS.map((option) => (
+                    <span key={option.value} className="inline-flex items-center gap-1">
+                      <PracticeStatusBadge status={option.value} />
+                      {stats.statusCounts[option.value] ?? 0}
+                    </span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Time per Song</CardTitle>
+                <CardDescription>
+                  Session time is split evenly across the songs worked
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SongPracticeTotals songs={stats.songs} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Needs Attention</CardTitle>
+                <CardDescription>Songs you haven&apos;t touched in a while</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StaleSongsList songs={stats.songs} />
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
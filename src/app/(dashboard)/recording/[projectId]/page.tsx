@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  AddRecordingSongDialog,
+  BouncePanel,
+  ProjectStatusStepper,
+  RecordingSongRow,
+  TrackingGrid,
+  type ProjectStatus,
+} from "@/components/recording";
+import { ArrowLeft, Plus, Trash2, Disc3 } from "lucide-react";
+import { toast } from "sonner";
+
+export default function RecordingProjectPage() {
+  const params = useParams();
+  const router = useRouter();
+  const projectId = params.projectId as Id<"recordingProjects">;
+
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const project = useQuery(api.recordingProjects.get, { id: projectId });
+  const updateStatus = useMutation(api.recordingProjects.updateStatus);
+  const reorderSongs = useMutation(api.recordingProjects.reorderSongs);
+  const removeSong = useMutation(api.recordingProjects.removeSong);
+  const updateSong = useMutation(api.recordingProjects.updateSong);
+  const deleteProject = useMutation(api.recordingProjects.softDelete);
+
+  const isLoading = project === undefined;
+  const songs = useMemo(() => project?.songs ?? [], [project]);
+
+  const existingSourceSongIds = useMemo(
+    () => songs.flatMap((s) => (s.sourceSongId ? [s.sourceSongId] : [])),
+    [songs]
+  );
+
+  const handleStatusChange = async (status: ProjectStatus) => {
+    try {
+      await updateStatus({ id: projectId, status });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update status");
+    }
+  };
+
+  const handleMoveSong = async (index: number, direction: "up" | "down") => {
+    const newIndex = direction === "up" ? index - 1 : index + 1;
+    if (newIndex < 0 || newIndex >= songs.length) return;
+
+    const newOrder = songs.map((s) => s._id);
+    [newOrder[index], newOrder[newIndex]] = [newOrder[newIndex], newOrder[index]];
+
+    try {
+      await reorderSongs({ projectId, songIds: newOrder });
+    } catch {
+      toast.error("Failed to reorder");
+    }
+  };
+
+  const handleRemoveSong = async (songId: Id<"recordingSongs">) => {
+    try {
+      await removeSong({ id: songId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove song");
+    }
+  };
+
+  const handleMixNotesChange = async (songId: Id<"recordingSongs">, mixNotes: string) => {
+    try {
+      await updateSong({ id: songId, mixNotes });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save notes");
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteProject({ id: projectId });
+      toast.success("Project deleted");
+      router.push("/recording");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete project");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Project not found
+  if (project === null) {
+    return (
+      <div className="p-8 text-center">
+        <p className="text-muted-foreground mb-4">Project not found</p>
+        <Button variant="outline" onClick={() => router.push("/recording")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Recording
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => router.push("/recording")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowDeleteDialog(true)}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-9 w-64 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="flex items-end justify-between gap-4 flex-wrap">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">{project.name}</h1>
+              <p className="text-muted-foreground text-sm">
+                {[
+                  project.bandName,
+                  `${songs.length} ${songs.length === 1 ? "song" : "songs"}`,
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </p>
+            </div>
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Songs
+            </Button>
+          </div>
+        )}
+        {!isLoading && project.notes && (
+          <p className="text-sm whitespace-pre-wrap">{project.notes}</p>
+        )}
+      </div>
+
+      {/* Status */}
+      {isLoading ? (
+        <div className="h-14 bg-muted rounded-lg animate-pulse" />
+      ) : (
+        <ProjectStatusStepper
+          status={project.status as ProjectStatus}
+          onStatusChange={handleStatusChange}
+        />
+      )}
+
+      {/* Songs */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-12 bg-muted rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : songs.length > 0 ? (
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Songs</h2>
+          {songs.map((song, index) => (
+            <RecordingSongRow
+              key={song._id}
+              song={song}
+              index={index}
+              total={songs.length}
+              onMoveUp={() => handleMoveSong(index, "up")}
+              onMoveDown={() => handleMoveSong(index, "down")}
+              onRemove={() => handleRemoveSong(song._id)}
+              onMixNotesChange={(notes) => handleMixNotesChange(song._id, notes)}
+            >
+              <BouncePanel recordingSongId={song._id} bounceCount={song.bounceCount} />
+            </RecordingSongRow>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Disc3 className="h-5 w-5" />
+              No songs yet
+            </CardTitle>
+            <CardDescription>
+              Add the songs you&apos;re recording to start tracking progress.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Songs
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tracking grid */}
+      {!isLoading && songs.length > 0 && <TrackingGrid projectId={projectId} />}
+
+      <AddRecordingSongDialog
+        open={showAddDialog}
+        onOpenChange={setShowAddDialog}
+        projectId={projectId}
+        bandId={project?.bandId}
+        existingSourceSongIds={existingSourceSongIds}
+      />
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Project</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{project?.name}&quot;? Band songs
+              linked to it won&apos;t be affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
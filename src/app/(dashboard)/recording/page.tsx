@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { useRouter } from "next/navigation";
+import { api } from "../../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ProjectCard, CreateProjectDialog } from "@/components/recording";
+import { Plus, Disc3 } from "lucide-react";
+
+export default function RecordingPage() {
+  const router = useRouter();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+
+  const projects = useQuery(api.recordingProjects.list);
+
+  const isLoading = projects === undefined;
+  const hasProjects = projects && projects.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Recording</h1>
+          <p className="text-muted-foreground">
+            {isLoading ? (
+              <span className="animate-pulse bg-muted rounded h-4 w-24 inline-block" />
+            ) : (
+              `${projects.length} ${projects.length === 1 ? "project" : "projects"}`
+            )}
+          </p>
+        </div>
+        {hasProjects && (
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Project
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        // Loading skeleton
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader className="pb-2">
+                <div className="h-5 bg-muted rounded w-3/4" />
+                <div className="h-4 bg-muted rounded w-1/2 mt-2" />
+              </CardHeader>
+              <CardContent>
+                <div className="h-1.5 bg-muted rounded w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : hasProjects ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {projects.map((project) => (
+            <ProjectCard key={project._id} project={project} />
+          ))}
+        </div>
+      ) : (
+        // Empty state
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Disc3 className="h-5 w-5" />
+              No recording projects yet
+            </CardTitle>
+            <CardDescription>
+              Track what&apos;s been recorded, what needs a redo, and which mix is the latest.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setShowCreateDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Your First Project
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <CreateProjectDialog
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        onSuccess={(projectId) => {
+          router.push(`/recording/${projectId}`);
+        }}
+      />
+    </div>
+  );
+}
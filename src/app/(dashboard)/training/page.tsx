@@ -0,0 +1,87 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { useSearchParams } from "next/navigation";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Metronome } from "@/components/training";
+import { TempoProgressChart } from "@/components/practice";
+import { ArrowLeft, Gauge } from "lucide-react";
+
+export default function TrainingPage() {
+  const searchParams = useSearchParams();
+  const songId = searchParams.get("songId") as Id<"songs"> | null;
+
+  const practiceSettings = useQuery(
+    api.songs.getPracticeSettings,
+    songId ? { songId } : "skip"
+  );
+  const sessions = useQuery(
+    api.practiceSessions.listBySong,
+    songId ? { songId } : "skip"
+  );
+  const isLoading = songId !== null && practiceSettings === undefined;
+  const hasTempoRuns = (sessions ?? []).some((s) => s.maxTempo !== undefined);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Training Tools</h1>
+        <p className="text-muted-foreground">
+          {isLoading ? (
+            <span className="animate-pulse bg-muted rounded h-4 w-40 inline-block" />
+          ) : practiceSettings ? (
+            <Link
+              href={`/bands/${practiceSettings.bandId}/songs/${practiceSettings.songId}`}
+              className="inline-flex items-center gap-1 hover:text-foreground"
+            >
+              <ArrowLeft className="h-3.5 w-3.5" />
+              Practicing {practiceSettings.title}
+            </Link>
+          ) : (
+            "Metronome for free practice"
+          )}
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {isLoading ? (
+          <div className="h-64 rounded-lg border bg-muted/30 animate-pulse" />
+        ) : (
+          // Remount when the song changes so its tempo and meter load fresh
+          <Metronome
+            key={practiceSettings?.songId ?? "free"}
+            initialBpm={practiceSettings?.tempo}
+            initialTimeSignature={practiceSettings?.timeSignature}
+            songId={practiceSettings?.songId}
+            bandId={practiceSettings?.bandId}
+          />
+        )}
+
+        {practiceSettings && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Gauge className="h-4 w-4" />
+                Tempo Progress
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {sessions === undefined ? (
+                <div className="h-24 bg-muted rounded-lg animate-pulse" />
+              ) : hasTempoRuns ? (
+                <TempoProgressChart sessions={sessions} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Speed trainer runs for this song will show up here.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface LoudnessReportProps {
+  integratedLoudness?: number;
+  truePeak?: number;
+  crestFactor?: number;
+  clippedRuns?: number;
+  /** Loudness of a reference track, to show how much louder or quieter this one is */
+  referenceLoudness?: number;
+  referenceLabel?: string;
+  className?: string;
+}
+
+// Peaks above this tend to distort once encoded to MP3/AAC
+const TRUE_PEAK_WARNING_DBTP = -1;
+// Smaller loudness differences aren't worth pointing out; larger ones are flagged
+const MIN_REFERENCE_DIFFERENCE_DB = 1;
+const REFERENCE_WARNING_DB = 3;
+
+const WARNING_CLASS = "text-yellow-600 dark:text-yellow-400";
+
+function formatDb(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+/**
+ * One-line level summary for an analyzed recording
+ *
+ * Flags clipping and hot true peaks, and how far the loudness sits from
+ * a reference track (e.g. a rough mix 6 dB under the reference).
+ */
+export function LoudnessReport({
+  integratedLoudness,
+  truePeak,
+  crestFactor,
+  clippedRuns,
+  referenceLoudness,
+  referenceLabel = "reference",
+  className,
+}: LoudnessReportProps) {
+  if (integratedLoudness === undefined && truePeak === undefined && clippedRuns === undefined) {
+    return null;
+  }
+
+  const difference =
+    integratedLoudness !== undefined && referenceLoudness !== undefined
+      ? integratedLoudness - referenceLoudness
+      : undefined;
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground",
+        className
+      )}
+    >
+      {integratedLoudness !== undefined && (
+        <span title="Integrated loudness">
+          <span className="font-mono text-foreground">{integratedLoudness.toFixed(1)}</span> LUFS
+        </span>
+      )}
+      {difference !== undefined && Math.abs(difference) >= MIN_REFERENCE_DIFFERENCE_DB && (
+        <span className={cn(Math.abs(difference) >= REFERENCE_WARNING_DB && WARNING_CLASS)}>
+          {Math.abs(difference).toFixed(1)} dB {difference < 0 ? "quieter" : "louder"} than{" "}
+          {referenceLabel}
+        </span>
+      )}
+      {truePeak !== undefined && (
+        <span
+          title="True peak (between samples)"
+          className={cn(
+            truePeak >= 0 ? "text-destructive" : truePeak > TRUE_PEAK_WARNING_DBTP && WARNING_CLASS
+          )}
+        >
+          <span className="font-mono">{formatDb(truePeak)}</span> dBTP
+        </span>
+      )}
+      {crestFactor !== undefined && (
+        <span title="Peak to RMS ratio; low values mean heavy limiting">
+          Crest <span className="font-mono">{crestFactor.toFixed(1)}</span> dB
+        </span>
+      )}
+      {clippedRuns !== undefined &&
+        (clippedRuns > 0 ? (
+          <span className="flex items-center gap-1 text-destructive">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Clipping in {clippedRuns} {clippedRuns === 1 ? "place" : "places"}
+          </span>
+        ) : (
+          <span>No clipping</span>
+        ))}
+    </div>
+  );
+}
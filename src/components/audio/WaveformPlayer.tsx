@@ -1,9 +1,18 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from "react";
+import { useEffect, useRef, useState, useCallback, useId, forwardRef, useImperativeHandle } from "react";
 import WaveSurfer from "wavesurfer.js";
+import RegionsPlugin, { type Region } from "wavesurfer.js/dist/plugins/regions.esm.js";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Play,
   Pause,
@@ -11,14 +20,54 @@ import {
   Volume2,
   VolumeX,
   Loader2,
+  ZoomIn,
+  ZoomOut,
+  Repeat,
+  X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { formatDuration } from "@/lib/audio";
 
+// Zoom factors relative to fitting the whole file in view
+const ZOOM_STEPS = [1, 2, 4, 8, 16, 32, 64];
+
+const LOOP_COLOR = "rgba(59, 130, 246, 0.2)"; // blue-500
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 1;
+// Auto speed-up adds this much after every N clean repetitions
+const SPEED_UP_STEP = 0.05;
+const SPEED_UP_EVERY_OPTIONS = [2, 3, 4, 5, 8];
+// Leaving the loop this close to its end counts as a completed pass, not a seek
+const LOOP_END_TOLERANCE = 0.15;
+
 export interface WaveformPlayerRef {
   play: () => void;
   pause: () => void;
   isPlaying: () => boolean;
+  seekTo: (seconds: number) => void;
+  getCurrentTime: () => number;
+  /** Select a loop (or clear it with null), optionally at a given playback rate */
+  setLoop: (loop: WaveformLoop | null, playbackRate?: number) => void;
+  getPlaybackRate: () => number;
+}
+
+export interface WaveformLoop {
+  /** Loop start in seconds */
+  start: number;
+  /** Loop end in seconds */
+  end: number;
+}
+
+export interface WaveformMarker {
+  id: string;
+  /** Position in seconds */
+  time: number;
+  /** Shown on hover */
+  label?: string;
+  /** CSS color for the marker (yellow by default) */
+  color?: string;
+  /** Let the marker be dragged to a new time (reported via onMarkerMove) */
+  draggable?: boolean;
 }
 
 interface WaveformPlayerProps {
@@ -42,6 +91,28 @@ interface WaveformPlayerProps {
   onEnd?: () => void;
   /** Callback when ready to play */
   onReady?: (duration: number) => void;
+  /** Markers pinned to moments in the audio, drawn over the waveform */
+  markers?: WaveformMarker[];
+  /** Callback when a marker is clicked (the player has already seeked to it) */
+  onMarkerClick?: (id: string) => void;
+  /** Callback when a draggable marker is dropped at a new time */
+  onMarkerMove?: (id: string, time: number) => void;
+  /** Callback as the playback position changes */
+  onTimeUpdate?: (time: number) => void;
+  /** Linear gain (0-1) applied on top of the volume slider, e.g. for loudness matching */
+  gain?: number;
+  /** Hide the transport and volume controls when the parent drives playback */
+  showControls?: boolean;
+  /** Show zoom controls; the waveform scrolls when zoomed in */
+  zoomable?: boolean;
+  /** Higher-resolution per-channel peaks, swapped in without reloading the audio */
+  detailPeaks?: Float32Array[];
+  /** Called with the full waveform width in pixels when ready and on zoom, to pick a peak level */
+  onZoom?: (waveformWidth: number) => void;
+  /** Drag on the waveform to select an A-B loop; adds loop and speed controls */
+  loopable?: boolean;
+  /** Callback when the selected loop changes */
+  onLoopChange?: (loop: WaveformLoop | null) => void;
 }
 
 /**
@@ -50,6 +121,11 @@ interface WaveformPlayerProps {
  * Features:
  * - Instant display when pre-computed peaks provided
  * - Click-to-seek on waveform
+ * - Optional markers that seek to their position when clicked, and can be dragged
+ * - Optional gain offset and headless mode for parent-driven playback (A/B)
+ * - Optional zoom and scroll, with detail peaks supplied by the parent
+ * - Optional A-B looping at 50-100% speed (pitch preserved), with an
+ *   auto speed-up after every N clean repetitions
  * - Play/pause, restart, volume controls
  * - Duration and current time display
  * - Exposes play/pause methods via ref
@@ -66,9 +142,24 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
     onPlayStateChange,
     onEnd,
     onReady,
+    markers,
+    onMarkerClick,
+    onMarkerMove,
+    onTimeUpdate,
+    gain = 1,
+    showControls = true,
+    zoomable = false,
+    detailPeaks,
+    onZoom,
+    loopable = false,
+    onLoopChange,
   }, ref) {
     const containerRef = useRef<HTMLDivElement>(null);
+    const markerLayerRef = useRef<HTMLDivElement>(null);
     const wavesurferRef = useRef<WaveSurfer | null>(null);
+    const regionsRef = useRef<RegionsPlugin | null>(null);
+    const autoSpeedUpId = useId();
+    const loopRegionRef = useRef<Region | null>(null);
     const isDestroyedRef = useRef(false);
 
     const [isPlaying, setIsPlaying] = useState(false);
@@ -77,16 +168,41 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
     const [totalDuration, setTotalDuration] = useState(duration || 0);
     const [volume, setVolume] = useState(0.8);
     const [isMuted, setIsMuted] = useState(false);
+    const [zoomIndex, setZoomIndex] = useState(0);
+    // Visible time range while zoomed; null when the whole file is in view
+    const [visibleRange, setVisibleRange] = useState<{ start: number; end: number } | null>(null);
+    const [loop, setLoop] = useState<WaveformLoop | null>(null);
+    const [isLooping, setIsLooping] = useState(true);
+    const [playbackRate, setPlaybackRate] = useState(MAX_PLAYBACK_RATE);
+    const [autoSpeedUp, setAutoSpeedUp] = useState(false);
+    const [speedUpEvery, setSpeedUpEvery] = useState(3);
+    // Marker being dragged, drawn at its pending time until dropped
+    const [draggingMarker, setDraggingMarker] = useState<{ id: string; time: number } | null>(null);
+    const dragStartXRef = useRef(0);
+    const didDragRef = useRef(false);
+    // Passes through the current loop; "clean" resets when the user marks a miss
+    const [loopReps, setLoopReps] = useState({ total: 0, clean: 0 });
 
     // Store callbacks in refs to avoid recreating WaveSurfer
     const onEndRef = useRef(onEnd);
     const onReadyRef = useRef(onReady);
     const onPlayStateChangeRef = useRef(onPlayStateChange);
+    const onZoomRef = useRef(onZoom);
+    const gainRef = useRef(gain);
+    const detailPeaksRef = useRef(detailPeaks);
+    const onLoopChangeRef = useRef(onLoopChange);
+    const onTimeUpdateRef = useRef(onTimeUpdate);
+    const isLoopingRef = useRef(isLooping);
+    const playbackRateRef = useRef(playbackRate);
+    const loopPassRef = useRef<() => void>(() => {});
     useEffect(() => {
       onEndRef.current = onEnd;
       onReadyRef.current = onReady;
       onPlayStateChangeRef.current = onPlayStateChange;
-    }, [onEnd, onReady, onPlayStateChange]);
+      onZoomRef.current = onZoom;
+      onLoopChangeRef.current = onLoopChange;
+      onTimeUpdateRef.current = onTimeUpdate;
+    }, [onEnd, onReady, onPlayStateChange, onZoom, onLoopChange, onTimeUpdate]);
 
     // Expose play/pause methods to parent
     useImperativeHandle(ref, () => ({
@@ -101,6 +217,28 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
         }
       },
       isPlaying: () => isPlaying,
+      seekTo: (seconds: number) => {
+        if (wavesurferRef.current && !isDestroyedRef.current) {
+          wavesurferRef.current.setTime(seconds);
+        }
+      },
+      getCurrentTime: () => wavesurferRef.current?.getCurrentTime() ?? 0,
+      setLoop: (nextLoop, rate) => {
+        const ws = wavesurferRef.current;
+        const regions = regionsRef.current;
+        if (!ws || !regions || isDestroyedRef.current) return;
+        if (rate !== undefined) {
+          setPlaybackRate(Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate)));
+        }
+        if (!nextLoop) {
+          regions.clearRegions();
+          return;
+        }
+        // Replaces the current loop via the region-created handler
+        regions.addRegion({ start: nextLoop.start, end: nextLoop.end, color: LOOP_COLOR });
+        ws.setTime(nextLoop.start);
+      },
+      getPlaybackRate: () => playbackRateRef.current,
     }), [isPlaying]);
 
     // Initialize wavesurfer - only depends on URL and visual config
@@ -137,6 +275,46 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
 
       wavesurferRef.current = ws;
 
+      // A-B loop: a single region, replaced by each new drag selection
+      const regions = ws.registerPlugin(RegionsPlugin.create());
+      regionsRef.current = regions;
+      loopRegionRef.current = null;
+      if (loopable) {
+        regions.enableDragSelection({ color: LOOP_COLOR });
+      }
+
+      const reportLoop = (region: Region | null) => {
+        const nextLoop = region ? { start: region.start, end: region.end } : null;
+        setLoop(nextLoop);
+        setLoopReps({ total: 0, clean: 0 });
+        onLoopChangeRef.current?.(nextLoop);
+      };
+
+      regions.on("region-created", (region) => {
+        if (isDestroyedRef.current) return;
+        loopRegionRef.current = region;
+        for (const other of regions.getRegions()) {
+          if (other !== region) other.remove();
+        }
+        setIsLooping(true);
+        reportLoop(region);
+      });
+      regions.on("region-updated", (region) => {
+        if (!isDestroyedRef.current && region === loopRegionRef.current) reportLoop(region);
+      });
+      regions.on("region-removed", (region) => {
+        if (isDestroyedRef.current || region !== loopRegionRef.current) return;
+        loopRegionRef.current = null;
+        reportLoop(null);
+      });
+      regions.on("region-out", (region) => {
+        if (isDestroyedRef.current || !isLoopingRef.current || region !== loopRegionRef.current) return;
+        // Seeking out of the loop stops it repeating until playback comes back
+        if (!ws.isPlaying() || ws.getCurrentTime() < region.end - LOOP_END_TOLERANCE) return;
+        loopPassRef.current();
+        region.play();
+      });
+
       // Load audio
       ws.load(audioUrl);
 
@@ -146,8 +324,19 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
         setIsLoading(false);
         const dur = ws.getDuration();
         setTotalDuration(dur);
-        ws.setVolume(0.8); // Default volume
+        ws.setVolume(0.8 * gainRef.current); // Default volume
+        ws.setPlaybackRate(playbackRateRef.current, true);
+        setZoomIndex(0);
+        setVisibleRange(null);
+        if (detailPeaksRef.current) {
+          ws.setOptions({ peaks: detailPeaksRef.current, duration: dur });
+        }
         onReadyRef.current?.(dur);
+        onZoomRef.current?.(ws.getWidth());
+      });
+
+      ws.on("scroll", (start, end) => {
+        if (!isDestroyedRef.current) setVisibleRange({ start, end });
       });
 
       ws.on("play", () => {
@@ -164,13 +353,22 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
       });
       ws.on("finish", () => {
         if (isDestroyedRef.current) return;
+        // A loop that runs to the end of the file never sees region-out
+        const region = loopRegionRef.current;
+        if (region && isLoopingRef.current && region.end >= ws.getDuration() - LOOP_END_TOLERANCE) {
+          loopPassRef.current();
+          region.play();
+          return;
+        }
         setIsPlaying(false);
         onPlayStateChangeRef.current?.(false);
         onEndRef.current?.();
       });
 
       ws.on("timeupdate", (time) => {
-        if (!isDestroyedRef.current) setCurrentTime(time);
+        if (isDestroyedRef.current) return;
+        setCurrentTime(time);
+        onTimeUpdateRef.current?.(time);
       });
 
       ws.on("error", (err) => {
@@ -197,6 +395,7 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
 
         // Remove event listeners to prevent callbacks after unmount
         try {
+          regions.unAll();
           ws.unAll();
         } catch {
           // Ignore
@@ -209,7 +408,7 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
         }
       };
       // Only recreate when URL or visual config changes - NOT volume or callbacks
-    }, [audioUrl, peaks, duration, height, waveColor, progressColor]);
+    }, [audioUrl, peaks, duration, height, waveColor, progressColor, loopable]);
 
     // Handle play/pause toggle
     const togglePlayPause = useCallback(() => {
@@ -228,13 +427,102 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
       }
     }, [isPlaying]);
 
+    // Swap in finer peaks as they arrive; the current zoom carries over
+    useEffect(() => {
+      detailPeaksRef.current = detailPeaks;
+      const ws = wavesurferRef.current;
+      if (!ws || isDestroyedRef.current || !detailPeaks) return;
+      const dur = ws.getDuration();
+      if (dur > 0) {
+        ws.setOptions({ peaks: detailPeaks, duration: dur });
+      }
+    }, [detailPeaks]);
+
+    // Zoom relative to the fitted width; step 0 fits the whole file
+    const applyZoom = useCallback((index: number) => {
+      const ws = wavesurferRef.current;
+      if (!ws || isDestroyedRef.current) return;
+      const dur = ws.getDuration();
+      if (!(dur > 0)) return;
+
+      const factor = ZOOM_STEPS[index];
+      const fitWidth = ws.getWidth();
+      const pxPerSec = (fitWidth / dur) * factor;
+      ws.zoom(factor === 1 ? 0 : pxPerSec);
+      setZoomIndex(index);
+
+      if (factor === 1) {
+        setVisibleRange(null);
+      } else {
+        const start = ws.getScroll() / pxPerSec;
+        setVisibleRange({ start, end: start + dur / factor });
+      }
+      onZoomRef.current?.(fitWidth * factor);
+    }, []);
+
+    // Apply playback rate without recreating; pitch is preserved
+    useEffect(() => {
+      playbackRateRef.current = playbackRate;
+      if (wavesurferRef.current && !isDestroyedRef.current) {
+        wavesurferRef.current.setPlaybackRate(playbackRate, true);
+      }
+    }, [playbackRate]);
+
+    useEffect(() => {
+      isLoopingRef.current = isLooping;
+    }, [isLooping]);
+
+    // Count a completed pass and speed up after every N clean ones
+    const handleLoopPass = useCallback(() => {
+      const clean = loopReps.clean + 1;
+      setLoopReps({ total: loopReps.total + 1, clean });
+      if (autoSpeedUp && clean % speedUpEvery === 0) {
+        setPlaybackRate((rate) =>
+          Math.min(MAX_PLAYBACK_RATE, Math.round((rate + SPEED_UP_STEP) * 100) / 100)
+        );
+      }
+    }, [loopReps, autoSpeedUp, speedUpEvery]);
+
+    useEffect(() => {
+      loopPassRef.current = handleLoopPass;
+    }, [handleLoopPass]);
+
+    const handleMissedRep = useCallback(() => {
+      setLoopReps((prev) => ({ ...prev, clean: 0 }));
+    }, []);
+
+    const handleClearLoop = useCallback(() => {
+      regionsRef.current?.clearRegions();
+    }, []);
+
+    // Handle marker click - seek there, then let the parent react
+    const handleMarkerClick = useCallback((marker: WaveformMarker) => {
+      // A drag ends with a click; don't treat it as one
+      if (didDragRef.current) {
+        didDragRef.current = false;
+        return;
+      }
+      if (wavesurferRef.current && !isDestroyedRef.current) {
+        wavesurferRef.current.setTime(marker.time);
+      }
+      onMarkerClick?.(marker.id);
+    }, [onMarkerClick]);
+
+    // Apply gain changes without recreating
+    useEffect(() => {
+      gainRef.current = gain;
+      if (wavesurferRef.current && !isDestroyedRef.current) {
+        wavesurferRef.current.setVolume(isMuted ? 0 : volume * gain);
+      }
+    }, [gain, volume, isMuted]);
+
     // Handle volume change - update WaveSurfer directly without recreating
     const handleVolumeChange = useCallback((values: number[]) => {
       const newVolume = values[0];
       setVolume(newVolume);
       setIsMuted(newVolume === 0);
       if (wavesurferRef.current && !isDestroyedRef.current) {
-        wavesurferRef.current.setVolume(newVolume);
+        wavesurferRef.current.setVolume(newVolume * gainRef.current);
       }
     }, []);
 
@@ -243,12 +531,52 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
       setIsMuted((prev) => {
         const newMuted = !prev;
         if (wavesurferRef.current && !isDestroyedRef.current) {
-          wavesurferRef.current.setVolume(newMuted ? 0 : volume);
+          wavesurferRef.current.setVolume(newMuted ? 0 : volume * gainRef.current);
         }
         return newMuted;
       });
     }, [volume]);
 
+    const viewStart = visibleRange?.start ?? 0;
+    const viewLength = visibleRange ? visibleRange.end - visibleRange.start : totalDuration;
+    const visibleMarkers = (markers ?? [])
+      .map((marker) =>
+        draggingMarker?.id === marker.id ? { ...marker, time: draggingMarker.time } : marker
+      )
+      .map((marker) => ({ marker, offset: (marker.time - viewStart) / viewLength }))
+      .filter(({ offset }) => offset >= 0 && offset <= 1);
+
+    // Time under the pointer, within the visible part of the waveform
+    const getTimeAtClientX = (clientX: number) => {
+      const rect = markerLayerRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return viewStart;
+      const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+      return viewStart + fraction * viewLength;
+    };
+
+    const handleMarkerPointerDown = (marker: WaveformMarker, e: React.PointerEvent<HTMLButtonElement>) => {
+      if (!marker.draggable || !onMarkerMove) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragStartXRef.current = e.clientX;
+      didDragRef.current = false;
+      setDraggingMarker({ id: marker.id, time: marker.time });
+    };
+
+    const handleMarkerPointerMove = (marker: WaveformMarker, e: React.PointerEvent<HTMLButtonElement>) => {
+      if (draggingMarker?.id !== marker.id) return;
+      if (!didDragRef.current && Math.abs(e.clientX - dragStartXRef.current) < 3) return;
+      didDragRef.current = true;
+      setDraggingMarker({ id: marker.id, time: getTimeAtClientX(e.clientX) });
+    };
+
+    const handleMarkerPointerUp = (marker: WaveformMarker) => {
+      if (draggingMarker?.id !== marker.id) return;
+      if (didDragRef.current) {
+        onMarkerMove?.(marker.id, draggingMarker.time);
+      }
+      setDraggingMarker(null);
+    };
+
     return (
       <div className={cn("space-y-3", className)}>
         {/* Waveform container */}
@@ -265,67 +593,232 @@ export const WaveformPlayer = forwardRef<WaveformPlayerRef, WaveformPlayerProps>
               <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
           )}
+          {markers && viewLength > 0 && (
+            <div ref={markerLayerRef} className="pointer-events-none absolute inset-0">
+              {visibleMarkers.map(({ marker, offset }) => (
+                <button
+                  key={marker.id}
+                  type="button"
+                  onClick={() => handleMarkerClick(marker)}
+                  onPointerDown={(e) => handleMarkerPointerDown(marker, e)}
+                  onPointerMove={(e) => handleMarkerPointerMove(marker, e)}
+                  onPointerUp={() => handleMarkerPointerUp(marker)}
+                  onPointerCancel={() => setDraggingMarker(null)}
+                  title={
+                    marker.label
+                      ? `${formatDuration(marker.time)} — ${marker.label}`
+                      : formatDuration(marker.time)
+                  }
+                  className={cn(
+                    "group pointer-events-auto absolute top-0 bottom-0 w-3 -translate-x-1/2 touch-none",
+                    marker.draggable && onMarkerMove && "cursor-ew-resize"
+                  )}
+                  style={{ left: `${offset * 100}%` }}
+                >
+                  <span
+                    className={cn(
+                      "absolute left-1/2 top-0 h-2.5 w-2.5 -translate-x-1/2 rounded-full ring-2 ring-background group-hover:scale-125 transition-transform",
+                      !marker.color && "bg-yellow-500"
+                    )}
+                    style={marker.color ? { backgroundColor: marker.color } : undefined}
+                  />
+                  <span
+                    className={cn(
+                      "absolute left-1/2 top-2 bottom-0 w-px -translate-x-1/2 opacity-60",
+                      !marker.color && "bg-yellow-500"
+                    )}
+                    style={marker.color ? { backgroundColor: marker.color } : undefined}
+                  />
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        {/* Controls */}
-        <div className="flex items-center gap-3">
-          {/* Play/Pause button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={togglePlayPause}
-            disabled={isLoading}
-            className="h-10 w-10"
-          >
-            {isPlaying ? (
-              <Pause className="h-5 w-5" />
+        {/* Loop and speed controls */}
+        {loopable && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Speed</span>
+              <Slider
+                value={[playbackRate]}
+                min={MIN_PLAYBACK_RATE}
+                max={MAX_PLAYBACK_RATE}
+                step={0.05}
+                onValueChange={(values) => setPlaybackRate(values[0])}
+                className="w-24"
+              />
+              <span className="w-10 font-mono text-xs text-muted-foreground">
+                {Math.round(playbackRate * 100)}%
+              </span>
+            </div>
+
+            {loop ? (
+              <>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={isLooping ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setIsLooping((prev) => !prev)}
+                    title={isLooping ? "Stop repeating" : "Repeat loop"}
+                    className="h-7 gap-1.5"
+                  >
+                    <Repeat className="h-3.5 w-3.5" />
+                    <span className="font-mono text-xs">
+                      {formatDuration(loop.start)}–{formatDuration(loop.end)}
+                    </span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleClearLoop}
+                    title="Clear loop"
+                    className="h-7 w-7"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={autoSpeedUpId}
+                    checked={autoSpeedUp}
+                    onCheckedChange={setAutoSpeedUp}
+                  />
+                  <label htmlFor={autoSpeedUpId} className="text-muted-foreground">
+                    +{Math.round(SPEED_UP_STEP * 100)}% every
+                  </label>
+                  <Select
+                    value={String(speedUpEvery)}
+                    onValueChange={(value) => setSpeedUpEvery(Number(value))}
+                  >
+                    <SelectTrigger className="h-7 w-16">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SPEED_UP_EVERY_OPTIONS.map((count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-muted-foreground">clean reps</span>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    Rep {loopReps.total} · {loopReps.clean} clean
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleMissedRep}
+                    disabled={loopReps.clean === 0}
+                    className="h-7"
+                  >
+                    Missed
+                  </Button>
+                </div>
+              </>
             ) : (
-              <Play className="h-5 w-5" />
+              <span className="text-xs text-muted-foreground">
+                Drag across the waveform to loop a section
+              </span>
             )}
-          </Button>
-
-          {/* Restart button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handleRestart}
-            disabled={isLoading}
-            className="h-8 w-8"
-          >
-            <SkipBack className="h-4 w-4" />
-          </Button>
-
-          {/* Time display */}
-          <div className="flex-1 text-sm text-muted-foreground font-mono">
-            <span>{formatDuration(currentTime)}</span>
-            <span className="mx-1">/</span>
-            <span>{formatDuration(totalDuration)}</span>
           </div>
+        )}
 
-          {/* Volume controls */}
-          <div className="flex items-center gap-2">
+        {/* Controls */}
+        {showControls && (
+          <div className="flex items-center gap-3">
+            {/* Play/Pause button */}
             <Button
               variant="ghost"
               size="icon"
-              onClick={toggleMute}
-              className="h-8 w-8"
+              onClick={togglePlayPause}
+              disabled={isLoading}
+              className="h-10 w-10"
             >
-              {isMuted || volume === 0 ? (
-                <VolumeX className="h-4 w-4" />
+              {isPlaying ? (
+                <Pause className="h-5 w-5" />
               ) : (
-                <Volume2 className="h-4 w-4" />
+                <Play className="h-5 w-5" />
               )}
             </Button>
-            <Slider
-              value={[isMuted ? 0 : volume]}
-              min={0}
-              max={1}
-              step={0.01}
-              onValueChange={handleVolumeChange}
-              className="w-20"
-            />
+
+            {/* Restart button */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleRestart}
+              disabled={isLoading}
+              className="h-8 w-8"
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+
+            {/* Time display */}
+            <div className="flex-1 text-sm text-muted-foreground font-mono">
+              <span>{formatDuration(currentTime)}</span>
+              <span className="mx-1">/</span>
+              <span>{formatDuration(totalDuration)}</span>
+            </div>
+
+            {/* Zoom controls */}
+            {zoomable && (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => applyZoom(zoomIndex - 1)}
+                  disabled={isLoading || zoomIndex === 0}
+                  className="h-8 w-8"
+                  title="Zoom out"
+                >
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <span className="w-8 text-center text-xs text-muted-foreground font-mono">
+                  {ZOOM_STEPS[zoomIndex]}x
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => applyZoom(zoomIndex + 1)}
+                  disabled={isLoading || zoomIndex === ZOOM_STEPS.length - 1}
+                  className="h-8 w-8"
+                  title="Zoom in"
+                >
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* Volume controls */}
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={toggleMute}
+                className="h-8 w-8"
+              >
+                {isMuted || volume === 0 ? (
+                  <VolumeX className="h-4 w-4" />
+                ) : (
+                  <Volume2 className="h-4 w-4" />
+                )}
+              </Button>
+              <Slider
+                value={[isMuted ? 0 : volume]}
+                min={0}
+                max={1}
+                step={0.01}
+                onValueChange={handleVolumeChange}
+                className="w-20"
+              />
+            </div>
           </div>
-        </div>
+        )}
       </div>
     );
   }
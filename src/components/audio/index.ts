@@ -1 +1,7 @@
-export { WaveformPlayer, type WaveformPlayerRef } from "./WaveformPlayer";
+export {
+  WaveformPlayer,
+  type WaveformPlayerRef,
+  type WaveformMarker,
+  type WaveformLoop,
+} from "./WaveformPlayer";
+export { LoudnessReport } from "./LoudnessReport";
@@ -23,6 +23,7 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
+import { PracticeTimerButton } from "@/components/practice";
 import { cn } from "@/lib/utils";
 
 const navItems = [
@@ -107,7 +108,8 @@ export function DashboardNav() {
         </nav>
 
         {/* User menu */}
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center gap-2">
+          <PracticeTimerButton />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-8 w-8 rounded-full">
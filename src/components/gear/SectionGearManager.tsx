@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
-import { Id } from "../../../convex/_generated/dataModel";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
 import { GearPieceEditor, GearPiece } from "./GearPieceEditor";
 import { AddGearDialog } from "./AddGearDialog";
 import { SectionNotesEditor } from "./SectionNotesEditor";
@@ -58,17 +58,31 @@ import {
   ChevronUp,
   ChevronDown,
   Music2,
+  Clock,
+  X,
+  Check,
+  Sparkles,
 } from "lucide-react";
 import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/audio";
 
 interface SectionGearManagerProps {
   songId: Id<"songs">;
   generalNotes?: string;
   onGeneralNotesChange?: (notes: string) => void;
+  /** Primary audio position while it plays; the matching sections are highlighted */
+  playheadSeconds?: number | null;
+  /** Jump primary audio playback to a time (when a timed section is clicked) */
+  onSeek?: (seconds: number) => void;
+  /** Current primary audio position, for setting section times */
+  getAudioTime?: () => number | null;
 }
 
+const MIN_SECTION_SECONDS = 0.5;
+
 // Instruments in preferred order (synth second)
-const INSTRUMENTS = [
+export const INSTRUMENTS = [
   { value: "guitar", label: "Guitar" },
   { value: "synth", label: "Synth/Keys" },
   { value: "bass", label: "Bass" },
@@ -77,16 +91,49 @@ const INSTRUMENTS = [
   { value: "other", label: "Other" },
 ] as const;
 
+// Mirrors SECTION_NAMES in convex/songSections.ts
+const SECTION_NAMES = [
+  "Intro", "Verse", "Verse 1", "Verse 2", "Verse 3", "Pre-Chorus", "Chorus",
+  "Bridge", "Solo", "Breakdown", "Interlude", "Outro", "Tag", "Instrumental",
+] as const;
+
+/**
+ * Sections playing at the given time, in display order. A section without
+ * an end runs until the next timed section for the same instrument.
+ */
+function getActiveSectionIds(
+  instrumentSections: Doc<"songSections">[][],
+  playheadSeconds: number
+): string[] {
+  const activeIds: string[] = [];
+  for (const sections of instrumentSections) {
+    const timed = sections
+      .filter((s) => s.startSeconds !== undefined)
+      .sort((a, b) => a.startSeconds! - b.startSeconds!);
+    timed.forEach((section, i) => {
+      const end = section.endSeconds ?? timed[i + 1]?.startSeconds ?? Infinity;
+      if (playheadSeconds >= section.startSeconds! && playheadSeconds < end) {
+        activeIds.push(section._id);
+      }
+    });
+  }
+  return activeIds;
+}
+
 export function SectionGearManager({
   songId,
   generalNotes = "",
   onGeneralNotesChange,
+  playheadSeconds = null,
+  onSeek,
+  getAudioTime,
 }: SectionGearManagerProps) {
   const [showAddSectionDialog, setShowAddSectionDialog] = useState(false);
   const [showAddGearDialog, setShowAddGearDialog] = useState(false);
   const [activeSectionId, setActiveSectionId] = useState<Id<"songSections"> | null>(null);
   const [newSectionName, setNewSectionName] = useState("");
   const [newSectionInstrument, setNewSectionInstrument] = useState("guitar");
+  const [draftInstrument, setDraftInstrument] = useState("guitar");
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deletingSectionId, setDeletingSectionId] = useState<Id<"songSections"> | null>(null);
 
@@ -100,6 +147,7 @@ export function SectionGearManager({
   // Queries
   const sections = useQuery(api.songSections.listBySong, { songId });
   const previousGearNames = useQuery(api.songSections.getAllGearNames, {});
+  const drafts = useQuery(api.sectionDrafts.listBySong, { songId });
 
   // Mutations
   const createSection = useMutation(api.songSections.createWithGear);
@@ -107,6 +155,13 @@ export function SectionGearManager({
   const updateGearSettings = useMutation(api.songSections.updateGearSettings);
   const deleteSection = useMutation(api.songSections.softDelete);
   const reorderSections = useMutation(api.songSections.reorder);
+  const setSectionTiming = useMutation(api.songSections.setTiming);
+  const renameDraft = useMutation(api.sectionDrafts.rename);
+  const acceptDrafts = useMutation(api.sectionDrafts.accept);
+  const discardDraft = useMutation(api.sectionDrafts.discard);
+  const discardAllDrafts = useMutation(api.sectionDrafts.discardAll);
+
+  const sectionElements = useRef<Map<string, HTMLDivElement>>(new Map());
 
   // Group sections by instrument for display
   const sectionsByInstrument = useMemo(() => {
@@ -126,6 +181,108 @@ export function SectionGearManager({
     return INSTRUMENTS.filter((inst) => sectionsByInstrument[inst.value]?.length > 0);
   }, [sectionsByInstrument]);
 
+  // Joined into a string so the follow effect only fires when sections change
+  const activeSectionKey = useMemo(() => {
+    if (playheadSeconds === null) return "";
+    return getActiveSectionIds(
+      instrumentsWithSections.map((inst) => sectionsByInstrument[inst.value]),
+      playheadSeconds
+    ).join(",");
+  }, [playheadSeconds, instrumentsWithSections, sectionsByInstrument]);
+  const activeSectionIds = useMemo(
+    () => new Set(activeSectionKey ? activeSectionKey.split(",") : []),
+    [activeSectionKey]
+  );
+
+  // Follow the playhead: bring the first active section's gear into view
+  useEffect(() => {
+    const [firstActiveId] = activeSectionKey.split(",");
+    if (!firstActiveId) return;
+    sectionElements.current.get(firstActiveId)?.scrollIntoView({
+      behavior: "smooth",
+      block: "nearest",
+    });
+  }, [activeSectionKey]);
+
+  // Set a section's start or end to the primary audio's current position
+  const handleSetTiming = async (section: Doc<"songSections">, edge: "start" | "end") => {
+    const time = getAudioTime?.();
+    if (time === null || time === undefined) {
+      toast.error("Open the primary audio file to set section times");
+      return;
+    }
+    const rounded = Math.round(time * 100) / 100;
+
+    let startSeconds = section.startSeconds;
+    let endSeconds = section.endSeconds;
+    if (edge === "start") {
+      startSeconds = rounded;
+      // Drop an end that would now come before the start
+      if (endSeconds !== undefined && endSeconds < rounded + MIN_SECTION_SECONDS) {
+        endSeconds = undefined;
+      }
+    } else {
+      if (startSeconds === undefined) {
+        toast.error("Set the section start first");
+        return;
+      }
+      if (rounded < startSeconds + MIN_SECTION_SECONDS) {
+        toast.error("Section end must come after its start");
+        return;
+      }
+      endSeconds = rounded;
+    }
+
+    try {
+      await setSectionTiming({ id: section._id, startSeconds, endSeconds });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to set section time");
+    }
+  };
+
+  const handleRenameDraft = async (draftId: Id<"sectionDrafts">, name: string) => {
+    try {
+      await renameDraft({ id: draftId, name });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to rename section");
+    }
+  };
+
+  const handleAcceptDrafts = async (draftIds: Id<"sectionDrafts">[]) => {
+    try {
+      const sectionIds = await acceptDrafts({ ids: draftIds, instrument: draftInstrument });
+      toast.success(
+        sectionIds.length === 1 ? "Section added" : `${sectionIds.length} sections added`
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add sections");
+    }
+  };
+
+  const handleDiscardDraft = async (draftId: Id<"sectionDrafts">) => {
+    try {
+      await discardDraft({ id: draftId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to discard section");
+    }
+  };
+
+  const handleDiscardAllDrafts = async () => {
+    try {
+      await discardAllDrafts({ songId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to discard sections");
+    }
+  };
+
+  const handleClearTiming = async (sectionId: Id<"songSections">) => {
+    try {
+      await setSectionTiming({ id: sectionId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to clear section time");
+    }
+  };
+
   // Handle creating a new section
   const handleCreateSection = async () => {
     if (!newSectionName.trim()) {
@@ -371,6 +528,97 @@ export function SectionGearManager({
           </div>
         )}
 
+        {/* Sections suggested by audio analysis, until accepted or discarded */}
+        {drafts && drafts.length > 0 && (
+          <div className="rounded-lg border border-dashed p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Sparkles className="h-4 w-4 text-muted-foreground" />
+                Suggested Sections
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={draftInstrument} onValueChange={setDraftInstrument}>
+                  <SelectTrigger className="h-7 w-[120px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INSTRUMENTS.map((inst) => (
+                      <SelectItem key={inst.value} value={inst.value}>
+                        {inst.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  className="h-7"
+                  onClick={() => handleAcceptDrafts(drafts.map((d) => d._id))}
+                >
+                  Accept All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-muted-foreground"
+                  onClick={handleDiscardAllDrafts}
+                >
+                  Discard
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Found in the primary audio. Accepted sections keep their times.
+            </p>
+            {drafts.map((draft) => (
+              <div key={draft._id} className="flex items-center gap-2">
+                <Select
+                  value={draft.name}
+                  onValueChange={(name) => handleRenameDraft(draft._id, name)}
+                >
+                  <SelectTrigger className="h-7 w-[130px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SECTION_NAMES.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <button
+                  type="button"
+                  className="font-mono text-xs text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground"
+                  onClick={() => onSeek?.(draft.startSeconds)}
+                  disabled={!onSeek}
+                  title="Play from here"
+                >
+                  {formatDuration(draft.startSeconds)}–{formatDuration(draft.endSeconds)}
+                </button>
+                <div className="flex-1" />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Accept"
+                  onClick={() => handleAcceptDrafts([draft._id])}
+                >
+                  <Check className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Discard"
+                  onClick={() => handleDiscardDraft(draft._id)}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Sections - flat list grouped by instrument */}
         {isLoading ? (
           <div className="space-y-2">
@@ -408,15 +656,50 @@ export function SectionGearManager({
                     const gearCount = section.gearSettings?.gear?.length || 0;
                     const hasNotes = !!section.notes;
                     const notesExpanded = expandedSectionNotes.has(section._id);
+                    const isActive = activeSectionIds.has(section._id);
+                    const isTimed = section.startSeconds !== undefined;
 
                     return (
                       <div
                         key={section._id}
-                        className="border rounded-lg bg-card overflow-hidden"
+                        ref={(el) => {
+                          if (el) {
+                            sectionElements.current.set(section._id, el);
+                          } else {
+                            sectionElements.current.delete(section._id);
+                          }
+                        }}
+                        className={cn(
+                          "border rounded-lg bg-card overflow-hidden transition-shadow",
+                          isActive && "ring-2 ring-primary"
+                        )}
                       >
                         {/* Section header */}
-                        <div className="flex items-center gap-2 px-3 py-2 bg-muted/30">
-                          <span className="font-medium text-sm flex-1">{section.name}</span>
+                        <div
+                          className={cn(
+                            "flex items-center gap-2 px-3 py-2",
+                            isActive ? "bg-primary/10" : "bg-muted/30"
+                          )}
+                        >
+                          {isTimed && onSeek ? (
+                            <button
+                              type="button"
+                              className="flex-1 flex items-baseline gap-2 text-left min-w-0 group"
+                              onClick={() => onSeek(section.startSeconds!)}
+                              title="Play from this section"
+                            >
+                              <span className="font-medium text-sm group-hover:underline">
+                                {section.name}
+                              </span>
+                              <span className="font-mono text-xs text-muted-foreground">
+                                {formatDuration(section.startSeconds!)}
+                                {section.endSeconds !== undefined &&
+                                  `–${formatDuration(section.endSeconds)}`}
+                              </span>
+                            </button>
+                          ) : (
+                            <span className="font-medium text-sm flex-1">{section.name}</span>
+                          )}
 
                           {/* Notes button - only show if notes not expanded */}
                           {!notesExpanded && !hasNotes && (
@@ -467,6 +750,28 @@ export function SectionGearManager({
                                 <ChevronDown className="mr-2 h-4 w-4" />
                                 Move Down
                               </DropdownMenuItem>
+                              {getAudioTime && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem onClick={() => handleSetTiming(section, "start")}>
+                                    <Clock className="mr-2 h-4 w-4" />
+                                    Start at Playhead
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => handleSetTiming(section, "end")}
+                                    disabled={!isTimed}
+                                  >
+                                    <Clock className="mr-2 h-4 w-4" />
+                                    End at Playhead
+                                  </DropdownMenuItem>
+                                  {isTimed && (
+                                    <DropdownMenuItem onClick={() => handleClearTiming(section._id)}>
+                                      <X className="mr-2 h-4 w-4" />
+                                      Clear Timing
+                                    </DropdownMenuItem>
+                                  )}
+                                </>
+                              )}
                               <DropdownMenuSeparator />
                               <DropdownMenuItem
                                 onClick={() => {
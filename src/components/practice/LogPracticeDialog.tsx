@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { PracticeStatusPrompt, type WorkedSong } from "./PracticeStatusPrompt";
+import { getLocalDateString } from "./practiceDates";
+
+const NO_BAND = "none";
+
+interface LogPracticeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Preselected band (e.g. when logging from a song page) */
+  defaultBandId?: Id<"bands">;
+  /** Preselected songs */
+  defaultSongIds?: Id<"songs">[];
+  /** Prefilled duration, e.g. from the practice timer */
+  defaultDurationMinutes?: number;
+}
+
+export function LogPracticeDialog({
+  open,
+  onOpenChange,
+  defaultBandId,
+  defaultSongIds,
+  defaultDurationMinutes,
+}: LogPracticeDialogProps) {
+  const [date, setDate] = useState(getLocalDateString);
+  const [duration, setDuration] = useState(defaultDurationMinutes?.toString() ?? "");
+  const [bandId, setBandId] = useState<Id<"bands"> | undefined>(defaultBandId);
+  const [songIds, setSongIds] = useState<Set<Id<"songs">>>(new Set(defaultSongIds));
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set once the session is saved; switches the dialog to the status prompt
+  const [workedSongs, setWorkedSongs] = useState<WorkedSong[] | null>(null);
+
+  const bands = useQuery(api.bands.listMyBands, open ? {} : "skip");
+  const songs = useQuery(
+    api.songs.listByBand,
+    open && bandId ? { bandId } : "skip"
+  );
+  const createSession = useMutation(api.practiceSessions.create);
+
+  const toggleSong = (songId: Id<"songs">) => {
+    setSongIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(songId)) {
+        next.delete(songId);
+      } else {
+        next.add(songId);
+      }
+      return next;
+    });
+  };
+
+  const handleBandChange = (value: string) => {
+    setBandId(value === NO_BAND ? undefined : (value as Id<"bands">));
+    setSongIds(new Set());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const durationMinutes = duration.trim() ? parseInt(duration, 10) : undefined;
+    if (durationMinutes !== undefined && (isNaN(durationMinutes) || durationMinutes <= 0)) {
+      setError("Duration must be a positive number of minutes");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await createSession({
+        date,
+        durationMinutes,
+        bandId,
+        songIds: [...songIds],
+        notes: notes.trim() || undefined,
+      });
+
+      toast.success("Practice logged");
+
+      if (result.songs.length > 0) {
+        setWorkedSongs(result.songs);
+      } else {
+        handleOpenChange(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to log practice");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setDate(getLocalDateString());
+    setDuration(defaultDurationMinutes?.toString() ?? "");
+    setBandId(defaultBandId);
+    setSongIds(new Set(defaultSongIds));
+    setNotes("");
+    setError(null);
+    setWorkedSongs(null);
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetForm();
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        {workedSongs ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Update Practice Status</DialogTitle>
+              <DialogDescription>Nice work. Keep your song statuses honest.</DialogDescription>
+            </DialogHeader>
+            <PracticeStatusPrompt songs={workedSongs} onDone={() => handleOpenChange(false)} />
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Log Practice</DialogTitle>
+              <DialogDescription>
+                Record what you worked on so you can see progress over time.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              {/* Date and Duration */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="practice-date">Date</Label>
+                  <Input
+                    id="practice-date"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    disabled={isSubmitting}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="practice-duration">Minutes</Label>
+                  <Input
+                    id="practice-duration"
+                    type="number"
+                    min={1}
+                    placeholder="e.g., 45"
+                    value={duration}
+                    onChange={(e) => setDuration(e.target.value)}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              {/* Band */}
+              <div className="space-y-2">
+                <Label htmlFor="practice-band">Band</Label>
+                <Select
+                  value={bandId ?? NO_BAND}
+                  onValueChange={handleBandChange}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="practice-band">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_BAND}>No band</SelectItem>
+                    {bands?.map((band) => (
+                      <SelectItem key={band._id} value={band._id}>
+                        {band.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Songs */}
+              {bandId && (
+                <div className="space-y-2">
+                  <Label>Songs worked</Label>
+                  <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                    {songs === undefined ? (
+                      <div className="p-3 space-y-2">
+                        {[1, 2, 3].map((i) => (
+                          <div key={i} className="h-6 bg-muted rounded animate-pulse" />
+                        ))}
+                      </div>
+                    ) : songs.length === 0 ? (
+                      <p className="p-4 text-sm text-muted-foreground text-center">
+                        This band has no songs yet
+                      </p>
+                    ) : (
+                      songs.map((song) => (
+                        <label
+                          key={song._id}
+                          className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-accent/50"
+                        >
+                          <Checkbox
+                            checked={songIds.has(song._id)}
+                            onCheckedChange={() => toggleSong(song._id)}
+                            disabled={isSubmitting}
+                          />
+                          <span className="truncate">{song.title}</span>
+                        </label>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Notes */}
+              <div className="space-y-2">
+                <Label htmlFor="practice-notes">Notes</Label>
+                <Textarea
+                  id="practice-notes"
+                  placeholder="What clicked, what still needs work..."
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  disabled={isSubmitting}
+                  rows={3}
+                />
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || !date}>
+                {isSubmitting ? "Saving..." : "Log Practice"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
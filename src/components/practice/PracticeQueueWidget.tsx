@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PracticeStatusBadge, type PracticeStatus } from "@/components/songs";
+import { usePracticeTimer } from "@/hooks/usePracticeTimer";
+import { ListChecks, Timer } from "lucide-react";
+import { getLocalDateString } from "./practiceDates";
+
+/**
+ * "What to practice today": the top songs from the daily practice queue
+ */
+export function PracticeQueueWidget() {
+  // Captured once so the query args stay stable between renders
+  const [today] = useState(getLocalDateString);
+  const queue = useQuery(api.practiceQueue.getToday, { today });
+  const { isRunning, start } = usePracticeTimer();
+
+  // Nothing to suggest until there are songs
+  if (queue && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-3">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ListChecks className="h-4 w-4" />
+            Practice Today
+          </CardTitle>
+          <CardDescription>
+            Picked by readiness, time since you last ran them, and upcoming shows.
+          </CardDescription>
+        </div>
+        {!isRunning && queue && (
+          <Button variant="outline" size="sm" onClick={start}>
+            <Timer className="mr-2 h-4 w-4" />
+            Start Timer
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {queue === undefined ? (
+          <div className="space-y-2">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <ol className="rounded-lg border divide-y">
+            {queue.map((song, index) => (
+              <li key={song._id}>
+                <Link
+                  href={`/bands/${song.bandId}/songs/${song._id}`}
+                  className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-accent/50"
+                >
+                  <span className="w-4 shrink-0 text-muted-foreground tabular-nums">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate">
+                      <span className="font-medium">{song.title}</span>
+                      <span className="ml-2 text-muted-foreground">{song.bandName}</span>
+                    </div>
+                    {song.reasons.length > 0 && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {song.reasons.join(" • ")}
+                      </p>
+                    )}
+                  </div>
+                  <PracticeStatusBadge status={song.practiceStatus as PracticeStatus} />
+                </Link>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
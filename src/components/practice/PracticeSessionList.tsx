@@ -0,0 +1,87 @@
+"use client";
+
+import Link from "next/link";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Gauge, Trash2 } from "lucide-react";
+import { formatMinutes, formatPracticeDate } from "./practiceDates";
+
+export interface PracticeSessionData {
+  _id: Id<"practiceSessions">;
+  date: string;
+  durationMinutes?: number;
+  bandName?: string;
+  notes?: string;
+  maxTempo?: number;
+  targetTempo?: number;
+  songs: {
+    _id: Id<"songs">;
+    bandId: Id<"bands">;
+    title: string;
+  }[];
+}
+
+interface PracticeSessionListProps {
+  sessions: PracticeSessionData[];
+  onDelete?: (sessionId: Id<"practiceSessions">) => void;
+}
+
+export function PracticeSessionList({ sessions, onDelete }: PracticeSessionListProps) {
+  return (
+    <div className="rounded-lg border divide-y">
+      {sessions.map((session) => (
+        <div key={session._id} className="group flex items-start gap-3 px-4 py-3">
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-center gap-2 text-sm flex-wrap">
+              <span className="font-medium">{formatPracticeDate(session.date)}</span>
+              {session.durationMinutes !== undefined && (
+                <span className="inline-flex items-center gap-1 text-muted-foreground">
+                  <Clock className="h-3.5 w-3.5" />
+                  {formatMinutes(session.durationMinutes)}
+                </span>
+              )}
+              {session.maxTempo !== undefined && (
+                <span className="inline-flex items-center gap-1 text-muted-foreground">
+                  <Gauge className="h-3.5 w-3.5" />
+                  {session.maxTempo}
+                  {session.targetTempo !== undefined && `/${session.targetTempo}`} BPM
+                </span>
+              )}
+              {session.bandName && (
+                <span className="text-muted-foreground">• {session.bandName}</span>
+              )}
+            </div>
+
+            {session.songs.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {session.songs.map((song) => (
+                  <Link key={song._id} href={`/bands/${song.bandId}/songs/${song._id}`}>
+                    <Badge variant="secondary" className="hover:bg-secondary/60">
+                      {song.title}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            {session.notes && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{session.notes}</p>
+            )}
+          </div>
+
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onDelete(session._id)}
+              className="h-7 w-7 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  PracticeStatusBadge,
+  PRACTICE_STATUS_OPTIONS,
+  type PracticeStatus,
+} from "@/components/songs";
+import { ArrowRight } from "lucide-react";
+import { toast } from "sonner";
+
+export interface WorkedSong {
+  _id: Id<"songs">;
+  title: string;
+  practiceStatus: string;
+}
+
+interface PracticeStatusPromptProps {
+  songs: WorkedSong[];
+  onDone: () => void;
+}
+
+function getNextStatus(status: string): PracticeStatus | null {
+  const index = PRACTICE_STATUS_OPTIONS.findIndex((o) => o.value === status);
+  if (index === -1 || index === PRACTICE_STATUS_OPTIONS.length - 1) return null;
+  return PRACTICE_STATUS_OPTIONS[index + 1].value;
+}
+
+/**
+ * After logging a session, offer to move worked songs up one practice status
+ */
+export function PracticeStatusPrompt({ songs, onDone }: PracticeStatusPromptProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<Id<"songs">>>(new Set());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updatePracticeStatus = useMutation(api.songs.updatePracticeStatus);
+
+  const bumpable = songs.flatMap((song) => {
+    const next = getNextStatus(song.practiceStatus);
+    return next ? [{ ...song, next }] : [];
+  });
+
+  const toggle = (songId: Id<"songs">) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(songId)) {
+        next.delete(songId);
+      } else {
+        next.add(songId);
+      }
+      return next;
+    });
+  };
+
+  const handleUpdate = async () => {
+    setIsSubmitting(true);
+    try {
+      const toUpdate = bumpable.filter((song) => selectedIds.has(song._id));
+      await Promise.all(
+        toUpdate.map((song) =>
+          updatePracticeStatus({ id: song._id, practiceStatus: song.next })
+        )
+      );
+      toast.success(
+        `Updated ${toUpdate.length} ${toUpdate.length === 1 ? "song" : "songs"}`
+      );
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update status");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (bumpable.length === 0) {
+    return (
+      <div className="space-y-4 py-4">
+        <p className="text-sm text-muted-foreground">
+          Every song you worked on is already performance ready.
+        </p>
+        <div className="flex justify-end">
+          <Button onClick={onDone}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 py-4">
+      <p className="text-sm text-muted-foreground">
+        Did any of these move up a level?
+      </p>
+
+      <div className="rounded-md border divide-y">
+        {bumpable.map((song) => (
+          <label
+            key={song._id}
+            className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-accent/50"
+          >
+            <Checkbox
+              checked={selectedIds.has(song._id)}
+              onCheckedChange={() => toggle(song._id)}
+              disabled={isSubmitting}
+            />
+            <span className="min-w-0 flex-1 truncate text-sm font-medium">{song.title}</span>
+            <PracticeStatusBadge status={song.practiceStatus as PracticeStatus} />
+            <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+            <PracticeStatusBadge status={song.next} />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone} disabled={isSubmitting}>
+          Skip
+        </Button>
+        <Button onClick={handleUpdate} disabled={isSubmitting || selectedIds.size === 0}>
+          {isSubmitting ? "Updating..." : "Update Status"}
+        </Button>
+      </div>
+    </div>
+  );
+}
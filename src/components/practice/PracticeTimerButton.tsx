@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { usePracticeTimer } from "@/hooks/usePracticeTimer";
+import { formatDurationLong } from "@/lib/audio";
+import { Square, Timer, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PracticeStatusPrompt, type WorkedSong } from "./PracticeStatusPrompt";
+import { getLocalDateString } from "./practiceDates";
+
+/**
+ * Start/stop practice timer for the dashboard nav
+ *
+ * While running, song pages record the songs they show and the players
+ * record audio played. Stopping saves a practice session.
+ */
+export function PracticeTimerButton() {
+  const { timer, isRunning, start, stop, restore } = usePracticeTimer();
+  const [now, setNow] = useState(() => Date.now());
+  const [isSaving, setIsSaving] = useState(false);
+  const [workedSongs, setWorkedSongs] = useState<WorkedSong[] | null>(null);
+
+  const createSession = useMutation(api.practiceSessions.createFromTimer);
+
+  // Tick the elapsed display while running
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const handleStart = () => {
+    setNow(Date.now());
+    start();
+  };
+
+  const handleStop = async () => {
+    const finished = stop();
+    if (!finished) return;
+
+    const durationMinutes = Math.round((Date.now() - finished.startedAt) / 60000);
+    if (durationMinutes < 1) {
+      toast("Practice under a minute wasn't logged");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await createSession({
+        date: getLocalDateString(new Date(finished.startedAt)),
+        durationMinutes,
+        songIds: finished.songs.map((s) => s.songId),
+      });
+
+      toast.success(`Logged ${durationMinutes} min of practice`);
+      if (result.songs.length > 0) {
+        setWorkedSongs(result.songs);
+      }
+    } catch (err) {
+      restore(finished);
+      toast.error(err instanceof Error ? err.message : "Failed to log practice");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    stop();
+    toast("Practice timer discarded");
+  };
+
+  const elapsedSeconds = timer ? Math.max(0, Math.floor((now - timer.startedAt) / 1000)) : 0;
+  const songCount = timer?.songs.length ?? 0;
+
+  return (
+    <>
+      {isRunning ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2 tabular-nums" disabled={isSaving}>
+              <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+              {formatDurationLong(elapsedSeconds)}
+              {songCount > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {songCount} {songCount === 1 ? "song" : "songs"}
+                </span>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+              Song pages you visit and audio you play are added to this session.
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={handleStop}>
+              <Square className="mr-2 h-4 w-4" />
+              Stop &amp; Log
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={handleDiscard} className="text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Discard
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : (
+        <Button variant="ghost" size="sm" onClick={handleStart} disabled={isSaving}>
+          <Timer className="mr-2 h-4 w-4" />
+          {isSaving ? "Saving..." : "Practice"}
+        </Button>
+      )}
+
+      <Dialog open={workedSongs !== null} onOpenChange={(open) => !open && setWorkedSongs(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Update Practice Status</DialogTitle>
+            <DialogDescription>Nice work. Keep your song statuses honest.</DialogDescription>
+          </DialogHeader>
+          {workedSongs && (
+            <PracticeStatusPrompt songs={workedSongs} onDone={() => setWorkedSongs(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { LogPracticeDialog } from "./LogPracticeDialog";
+import { PracticeSessionList } from "./PracticeSessionList";
+import { TempoProgressChart } from "./TempoProgressChart";
+import { formatMinutes } from "./practiceDates";
+
+const MAX_SESSIONS_SHOWN = 10;
+
+interface SongPracticeHistoryProps {
+  songId: Id<"songs">;
+  bandId: Id<"bands">;
+}
+
+/**
+ * Practice sessions that included a song, with a shortcut to log another
+ */
+export function SongPracticeHistory({ songId, bandId }: SongPracticeHistoryProps) {
+  const [showLogDialog, setShowLogDialog] = useState(false);
+
+  const sessions = useQuery(api.practiceSessions.listBySong, { songId });
+  const removeSession = useMutation(api.practiceSessions.remove);
+
+  const totalMinutes = (sessions ?? []).reduce((sum, s) => sum + (s.durationMinutes ?? 0), 0);
+  const hasTempoRuns = (sessions ?? []).some((s) => s.maxTempo !== undefined);
+
+  const handleDelete = async (sessionId: Id<"practiceSessions">) => {
+    try {
+      await removeSession({ id: sessionId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete session");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-4 w-4" />
+          Practice History
+          {sessions && sessions.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">
+              {sessions.length} {sessions.length === 1 ? "session" : "sessions"}
+              {totalMinutes > 0 && ` • ${formatMinutes(totalMinutes)}`}
+            </span>
+          )}
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setShowLogDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Log Practice
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {sessions === undefined ? (
+          <div className="h-16 bg-muted rounded-lg animate-pulse" />
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No practice logged for this song yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {hasTempoRuns && <TempoProgressChart sessions={sessions} />}
+            <PracticeSessionList
+              sessions={sessions.slice(0, MAX_SESSIONS_SHOWN)}
+              onDelete={handleDelete}
+            />
+            {sessions.length > MAX_SESSIONS_SHOWN && (
+              <Link href="/practice-log" className="block text-sm text-muted-foreground hover:underline">
+                See all in Practice Log
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <LogPracticeDialog
+        open={showLogDialog}
+        onOpenChange={setShowLogDialog}
+        defaultBandId={bandId}
+        defaultSongIds={[songId]}
+      />
+    </Card>
+  );
+}
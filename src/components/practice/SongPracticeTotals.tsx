@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { formatMinutes } from "./practiceDates";
+
+const INITIAL_SONGS_SHOWN = 10;
+
+export interface PracticeStatsSong {
+  _id: Id<"songs">;
+  bandId: Id<"bands">;
+  bandName: string;
+  title: string;
+  practiceStatus: string;
+  minutes: number;
+  sessionCount: number;
+  lastPracticed: string | null;
+  daysSincePracticed: number | null;
+}
+
+interface SongPracticeTotalsProps {
+  songs: PracticeStatsSong[];
+}
+
+/**
+ * Time spent per song, most practiced first
+ */
+export function SongPracticeTotals({ songs }: SongPracticeTotalsProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const practiced = songs
+    .filter((s) => s.sessionCount > 0)
+    .sort((a, b) => b.minutes - a.minutes || b.sessionCount - a.sessionCount);
+  const maxMinutes = Math.max(...practiced.map((s) => s.minutes), 1);
+  const visible = showAll ? practiced : practiced.slice(0, INITIAL_SONGS_SHOWN);
+
+  if (practiced.length === 0) {
+    return <p className="text-sm text-muted-foreground">No songs logged in a session yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {visible.map((song) => (
+        <div key={song._id} className="space-y-1">
+          <div className="flex items-baseline justify-between gap-2 text-sm">
+            <Link
+              href={`/bands/${song.bandId}/songs/${song._id}`}
+              className="truncate font-medium hover:underline"
+            >
+              {song.title}
+              <span className="ml-2 font-normal text-muted-foreground">{song.bandName}</span>
+            </Link>
+            <span className="shrink-0 text-muted-foreground tabular-nums">
+              {song.minutes > 0 ? formatMinutes(song.minutes) : "—"} • {song.sessionCount}{" "}
+              {song.sessionCount === 1 ? "session" : "sessions"}
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full rounded-full bg-primary/70"
+              style={{ width: `${(song.minutes / maxMinutes) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+
+      {practiced.length > INITIAL_SONGS_SHOWN && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show fewer" : `Show all ${practiced.length} songs`}
+        </Button>
+      )}
+    </div>
+  );
+}
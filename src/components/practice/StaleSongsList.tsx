@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PracticeStatusBadge, type PracticeStatus } from "@/components/songs";
+import type { PracticeStatsSong } from "./SongPracticeTotals";
+
+const STALE_DAY_OPTIONS = [7, 14, 30, 60, 90];
+const DEFAULT_STALE_DAYS = 14;
+
+interface StaleSongsListProps {
+  songs: PracticeStatsSong[];
+}
+
+/**
+ * Songs not practiced in the last N days, most neglected first
+ */
+export function StaleSongsList({ songs }: StaleSongsListProps) {
+  const [staleDays, setStaleDays] = useState(DEFAULT_STALE_DAYS);
+
+  // Never-practiced songs sort ahead of everything else
+  const stale = songs
+    .filter((s) => s.daysSincePracticed === null || s.daysSincePracticed >= staleDays)
+    .sort(
+      (a, b) =>
+        (b.daysSincePracticed ?? Infinity) - (a.daysSincePracticed ?? Infinity) ||
+        a.title.localeCompare(b.title)
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="stale-days" className="text-sm font-normal text-muted-foreground">
+          Not practiced in
+        </Label>
+        <Select value={String(staleDays)} onValueChange={(value) => setStaleDays(Number(value))}>
+          <SelectTrigger id="stale-days" className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STALE_DAY_OPTIONS.map((days) => (
+              <SelectItem key={days} value={String(days)}>
+                {days} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {stale.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Every song has been practiced in the last {staleDays} days.
+        </p>
+      ) : (
+        <div className="rounded-lg border divide-y">
+          {stale.map((song) => (
+            <Link
+              key={song._id}
+              href={`/bands/${song.bandId}/songs/${song._id}`}
+              className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-accent/50"
+            >
+              <div className="min-w-0 flex-1">
+                <span className="font-medium">{song.title}</span>
+                <span className="ml-2 text-muted-foreground">{song.bandName}</span>
+              </div>
+              <PracticeStatusBadge status={song.practiceStatus as PracticeStatus} />
+              <span className="w-28 shrink-0 text-right text-muted-foreground">
+                {song.daysSincePracticed === null
+                  ? "Never practiced"
+                  : `${song.daysSincePracticed} days ago`}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { formatWeekLabel } from "./practiceDates";
+
+interface StatusTrendWeek {
+  weekStart: string;
+  learning: number;
+  solid: number;
+  performance_ready: number;
+}
+
+interface StatusTrendChartProps {
+  weeks: StatusTrendWeek[];
+}
+
+// Same hues as PracticeStatusBadge
+const SERIES = [
+  { key: "learning", label: "Learning", className: "bg-yellow-400" },
+  { key: "solid", label: "Solid", className: "bg-blue-500" },
+  { key: "performance_ready", label: "Ready", className: "bg-green-500" },
+] as const;
+
+/**
+ * Stacked bars of songs promoted into each practice status per week
+ */
+export function StatusTrendChart({ weeks }: StatusTrendChartProps) {
+  const totals = weeks.map((w) => w.learning + w.solid + w.performance_ready);
+  const maxTotal = Math.max(...totals, 1);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-32 items-end gap-1">
+        {weeks.map((week, i) => (
+          <div
+            key={week.weekStart}
+            className="flex-1 h-full flex flex-col-reverse"
+            title={`Week of ${formatWeekLabel(week.weekStart)}: ${SERIES.map((s) => `${week[s.key]} ${s.label.toLowerCase()}`).join(", ")}`}
+          >
+            {totals[i] > 0 &&
+              SERIES.map((series) =>
+                week[series.key] > 0 ? (
+                  <div
+                    key={series.key}
+                    className={cn("w-full last:rounded-t", series.className)}
+                    style={{ height: `${(week[series.key] / maxTotal) * 100}%` }}
+                  />
+                ) : null
+              )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-muted-foreground">
+        {weeks.map((week, i) => (
+          <div key={week.weekStart} className="flex-1 text-center truncate">
+            {(weeks.length - 1 - i) % 2 === 0 ? formatWeekLabel(week.weekStart) : ""}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        {SERIES.map((series) => (
+          <span key={series.key} className="inline-flex items-center gap-1.5">
+            <span className={cn("h-2.5 w-2.5 rounded-sm", series.className)} />
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
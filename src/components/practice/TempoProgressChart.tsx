@@ -0,0 +1,77 @@
+"use client";
+
+import { formatWeekLabel } from "./practiceDates";
+
+// Most recent practice days shown
+const MAX_DAYS_SHOWN = 20;
+// Bars start this far below the slowest tempo so small gains stay visible
+const FLOOR_RATIO = 0.8;
+
+interface TempoProgressChartProps {
+  sessions: { date: string; maxTempo?: number; targetTempo?: number }[];
+}
+
+/**
+ * Best speed trainer tempo per day, oldest on the left, with the most
+ * recent target as a dashed line
+ */
+export function TempoProgressChart({ sessions }: TempoProgressChartProps) {
+  const bestByDate = new Map<string, number>();
+  let target: { date: string; tempo: number } | null = null;
+  for (const session of sessions) {
+    if (session.maxTempo === undefined) continue;
+    bestByDate.set(session.date, Math.max(bestByDate.get(session.date) ?? 0, session.maxTempo));
+    if (session.targetTempo !== undefined && (!target || session.date > target.date)) {
+      target = { date: session.date, tempo: session.targetTempo };
+    }
+  }
+
+  const days = [...bestByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-MAX_DAYS_SHOWN)
+    .map(([date, tempo]) => ({ date, tempo }));
+  if (days.length === 0) {
+    return null;
+  }
+
+  const tempos = days.map((day) => day.tempo);
+  const best = Math.max(...tempos);
+  const top = Math.max(best, target?.tempo ?? 0);
+  const floor = Math.floor(Math.min(...tempos) * FLOOR_RATIO);
+  const toPercent = (tempo: number) => ((tempo - floor) / (top - floor)) * 100;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between text-xs text-muted-foreground">
+        <span>
+          Best <span className="font-mono text-foreground">{best}</span> BPM
+        </span>
+        {target && <span>Target {target.tempo} BPM</span>}
+      </div>
+      <div className="relative flex h-24 items-end gap-1">
+        {target && (
+          <div
+            className="pointer-events-none absolute inset-x-0 border-t border-dashed border-muted-foreground/50"
+            style={{ bottom: `${toPercent(target.tempo)}%` }}
+          />
+        )}
+        {days.map((day) => (
+          <div
+            key={day.date}
+            className="flex-1 h-full flex items-end"
+            title={`${formatWeekLabel(day.date)}: ${day.tempo} BPM`}
+          >
+            <div
+              className="w-full rounded-t bg-primary/80 hover:bg-primary transition-colors"
+              style={{ height: `${toPercent(day.tempo)}%`, minHeight: 2 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{formatWeekLabel(days[0].date)}</span>
+        {days.length > 1 && <span>{formatWeekLabel(days[days.length - 1].date)}</span>}
+      </div>
+    </div>
+  );
+}
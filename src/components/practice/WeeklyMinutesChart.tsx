@@ -0,0 +1,40 @@
+"use client";
+
+import { formatMinutes, formatWeekLabel } from "./practiceDates";
+
+interface WeeklyMinutesChartProps {
+  weeks: { weekStart: string; minutes: number; sessions: number }[];
+}
+
+/**
+ * Bar chart of practice minutes per week, oldest on the left
+ */
+export function WeeklyMinutesChart({ weeks }: WeeklyMinutesChartProps) {
+  const maxMinutes = Math.max(...weeks.map((w) => w.minutes), 1);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-32 items-end gap-1">
+        {weeks.map((week) => (
+          <div
+            key={week.weekStart}
+            className="flex-1 h-full flex items-end"
+            title={`Week of ${formatWeekLabel(week.weekStart)}: ${formatMinutes(week.minutes)} in ${week.sessions} ${week.sessions === 1 ? "session" : "sessions"}`}
+          >
+            <div
+              className="w-full rounded-t bg-primary/80 hover:bg-primary transition-colors"
+              style={{ height: `${(week.minutes / maxMinutes) * 100}%`, minHeight: week.minutes > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-muted-foreground">
+        {weeks.map((week, i) => (
+          <div key={week.weekStart} className="flex-1 text-center truncate">
+            {(weeks.length - 1 - i) % 2 === 0 ? formatWeekLabel(week.weekStart) : ""}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+export { LogPracticeDialog } from "./LogPracticeDialog";
+export { PracticeStatusPrompt, type WorkedSong } from "./PracticeStatusPrompt";
+export { PracticeSessionList, type PracticeSessionData } from "./PracticeSessionList";
+export { SongPracticeHistory } from "./SongPracticeHistory";
+export { PracticeTimerButton } from "./PracticeTimerButton";
+export { WeeklyMinutesChart } from "./WeeklyMinutesChart";
+export { StatusTrendChart } from "./StatusTrendChart";
+export { SongPracticeTotals, type PracticeStatsSong } from "./SongPracticeTotals";
+export { StaleSongsList } from "./StaleSongsList";
+export { PracticeQueueWidget } from "./PracticeQueueWidget";
+export { TempoProgressChart } from "./TempoProgressChart";
+export {
+  getLocalDateString,
+  formatPracticeDate,
+  formatMinutes,
+  formatWeekLabel,
+} from "./practiceDates";
@@ -0,0 +1,46 @@
+/**
+ * Local calendar date as YYYY-MM-DD (practice sessions are logged by day)
+ */
+export function getLocalDateString(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Format a YYYY-MM-DD date string without timezone shifting
+ * The year is only shown when it isn't the current one.
+ */
+export function formatPracticeDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: year === new Date().getFullYear() ? undefined : "numeric",
+  });
+}
+
+/**
+ * Format minutes as "45m" or "1h 15m"
+ */
+export function formatMinutes(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  const mins = total % 60;
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+}
+
+/**
+ * Short label for the week starting on a YYYY-MM-DD date, e.g. "Mar 3"
+ */
+export function formatWeekLabel(weekStart: string): string {
+  const [year, month, day] = weekStart.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+
+interface AddRecordingSongDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: Id<"recordingProjects">;
+  /** Band whose songs can be linked; free-form titles only when absent */
+  bandId?: Id<"bands">;
+  /** Band songs already in the project (shown as added) */
+  existingSourceSongIds: Id<"songs">[];
+}
+
+export function AddRecordingSongDialog({
+  open,
+  onOpenChange,
+  projectId,
+  bandId,
+  existingSourceSongIds,
+}: AddRecordingSongDialogProps) {
+  const [title, setTitle] = useState("");
+  const [search, setSearch] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const songs = useQuery(
+    api.songs.listByBand,
+    open && bandId ? { bandId } : "skip"
+  );
+  const addSong = useMutation(api.recordingProjects.addSong);
+
+  const existing = useMemo(() => new Set(existingSourceSongIds), [existingSourceSongIds]);
+
+  const filteredSongs = useMemo(() => {
+    if (!songs) return [];
+    const query = search.trim().toLowerCase();
+    if (!query) return songs;
+    return songs.filter((s) => s.title.toLowerCase().includes(query));
+  }, [songs, search]);
+
+  const handleAdd = async (args: { title?: string; sourceSongId?: Id<"songs"> }) => {
+    setIsAdding(true);
+    try {
+      await addSong({ projectId, ...args });
+      toast.success(`Added ${args.title ?? "song"}`);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add song");
+      return false;
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleAddTitle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    if (await handleAdd({ title: title.trim() })) {
+      setTitle("");
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setTitle("");
+      setSearch("");
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Songs</DialogTitle>
+          <DialogDescription>
+            {bandId
+              ? "Pick songs from the band or add a new title."
+              : "Add the songs you're recording."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <form onSubmit={handleAddTitle} className="space-y-2">
+            <Label htmlFor="recording-song-title">New title</Label>
+            <div className="flex gap-2">
+              <Input
+                id="recording-song-title"
+                placeholder="e.g., Untitled Jam #4"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={isAdding}
+                autoFocus={!bandId}
+              />
+              <Button type="submit" size="icon" disabled={isAdding || !title.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+
+          {bandId && (
+            <div className="space-y-2">
+              <Label>From the band</Label>
+              <Input
+                placeholder="Search songs..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+
+              <div className="max-h-72 overflow-y-auto rounded-md border divide-y">
+                {songs === undefined ? (
+                  <div className="p-3 space-y-2">
+                    {[1, 2, 3].map((i) => (
+                      <div key={i} className="h-8 bg-muted rounded animate-pulse" />
+                    ))}
+                  </div>
+                ) : filteredSongs.length === 0 ? (
+                  <p className="p-4 text-sm text-muted-foreground text-center">
+                    {songs.length === 0 ? "This band has no songs yet" : "No matching songs"}
+                  </p>
+                ) : (
+                  filteredSongs.map((song) => {
+                    const isAdded = existing.has(song._id);
+                    return (
+                      <button
+                        key={song._id}
+                        type="button"
+                        disabled={isAdded || isAdding}
+                        onClick={() => handleAdd({ title: song.title, sourceSongId: song._id })}
+                        className={cn(
+                          "w-full px-3 py-2 text-left text-sm flex items-center justify-between gap-2 transition-colors",
+                          isAdded ? "opacity-60 cursor-default" : "hover:bg-accent"
+                        )}
+                      >
+                        <span className="font-medium truncate">{song.title}</span>
+                        {isAdded && (
+                          <Badge variant="secondary" className="text-[10px] h-5">
+                            Added
+                          </Badge>
+                        )}
+                      </button>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
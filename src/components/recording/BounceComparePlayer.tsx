@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WaveformPlayer, type WaveformPlayerRef } from "@/components/audio";
+import { analyzeAudio, getLoudnessMatchGains } from "@/lib/audio";
+import { cn } from "@/lib/utils";
+import { Play, Pause, SkipBack, Loader2 } from "lucide-react";
+import type { BounceData } from "./BouncePlayer";
+
+type Side = "a" | "b";
+
+interface BounceComparePlayerProps {
+  /** Bounces to choose from, newest first */
+  bounces: BounceData[];
+}
+
+function formatGain(gain: number): string {
+  const db = 20 * Math.log10(gain);
+  return `${db.toFixed(1)} dB`;
+}
+
+/**
+ * A/B player for two bounces of the same song
+ *
+ * Both bounces stay loaded so switching keeps the playhead and is
+ * instant. With loudness matching on, the louder mix is turned down to
+ * the quieter one's integrated loudness so "louder sounds better" doesn't
+ * decide the comparison.
+ */
+export function BounceComparePlayer({ bounces }: BounceComparePlayerProps) {
+  const playerARef = useRef<WaveformPlayerRef>(null);
+  const playerBRef = useRef<WaveformPlayerRef>(null);
+  const measuringRef = useRef<Set<string>>(new Set());
+  // Play/pause events arrive asynchronously, so check the side they came from
+  const activeRef = useRef<Side>("b");
+
+  // Default to the latest mix (B) against the one before it (A)
+  const [aId, setAId] = useState<Id<"bounces">>(bounces[1]?._id ?? bounces[0]._id);
+  const [bId, setBId] = useState<Id<"bounces">>(bounces[0]._id);
+  const [active, setActive] = useState<Side>("b");
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [matchLoudness, setMatchLoudness] = useState(true);
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+
+  const saveBounceAnalysis = useMutation(api.bounces.saveBounceAnalysis);
+
+  const bounceA = bounces.find((b) => b._id === aId) ?? bounces[0];
+  const bounceB = bounces.find((b) => b._id === bId) ?? bounces[0];
+
+  const getRef = (side: Side) => (side === "a" ? playerARef : playerBRef);
+
+  // Bounces uploaded before loudness was measured get measured on demand
+  useEffect(() => {
+    if (!matchLoudness) return;
+
+    for (const bounce of [bounceA, bounceB]) {
+      if (
+        bounce.integratedLoudness !== undefined ||
+        !bounce.url ||
+        measuringRef.current.has(bounce._id)
+      ) {
+        continue;
+      }
+
+      measuringRef.current.add(bounce._id);
+      fetch(bounce.url)
+        .then((response) => response.arrayBuffer())
+        .then((buffer) =>
+          analyzeAudio(buffer, { skipPeakLevels: true, skipMusicalFeatures: true })
+        )
+        .then((analysis) => {
+          if (analysis.integratedLoudness === undefined) {
+            throw new Error("Bounce is silent");
+          }
+          return saveBounceAnalysis({
+            id: bounce._id,
+            waveformPeaks: analysis.waveformPeaks,
+            durationSeconds: analysis.durationSeconds,
+            integratedLoudness: analysis.integratedLoudness,
+            truePeak: analysis.truePeak,
+            crestFactor: analysis.crestFactor,
+            clippedRuns: analysis.clippedRuns,
+          });
+        })
+        .catch((err) => {
+          console.warn("Loudness measurement failed:", err);
+          setFailedIds((ids) => [...ids, bounce._id]);
+        });
+    }
+  }, [matchLoudness, bounceA, bounceB, saveBounceAnalysis]);
+
+  const loudnessA = bounceA.integratedLoudness;
+  const loudnessB = bounceB.integratedLoudness;
+  const canMatch = loudnessA !== undefined && loudnessB !== undefined;
+  const { gainA, gainB } =
+    matchLoudness && canMatch
+      ? getLoudnessMatchGains(loudnessA, loudnessB)
+      : { gainA: 1, gainB: 1 };
+  const isMeasuring =
+    matchLoudness &&
+    !canMatch &&
+    !failedIds.includes(bounceA._id) &&
+    !failedIds.includes(bounceB._id);
+
+  const switchTo = (side: Side) => {
+    if (side === active) return;
+
+    const from = getRef(active).current;
+    const to = getRef(side).current;
+    if (!from || !to) return;
+
+    const time = from.getCurrentTime();
+    from.pause();
+    to.seekTo(time);
+    if (isPlaying) to.play();
+    activeRef.current = side;
+    setActive(side);
+  };
+
+  const togglePlayPause = () => {
+    const player = getRef(active).current;
+    if (!player) return;
+    if (isPlaying) {
+      player.pause();
+    } else {
+      player.play();
+    }
+  };
+
+  const handleRestart = () => {
+    getRef(active).current?.seekTo(0);
+  };
+
+  const handleSelect = (side: Side, id: Id<"bounces">) => {
+    // The swapped player remounts, so stop playback rather than lose sync
+    getRef(active).current?.pause();
+    if (side === "a") {
+      setAId(id);
+    } else {
+      setBId(id);
+    }
+  };
+
+  // A / B keys switch sides
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) {
+        return;
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      if (e.key === "a" || e.key === "A") {
+        e.preventDefault();
+        switchTo("a");
+      } else if (e.key === "b" || e.key === "B") {
+        e.preventDefault();
+        switchTo("b");
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const sides: { side: Side; bounce: BounceData; gain: number; loudness?: number }[] = [
+    { side: "a", bounce: bounceA, gain: gainA, loudness: loudnessA },
+    { side: "b", bounce: bounceB, gain: gainB, loudness: loudnessB },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {sides.map(({ side, bounce, gain, loudness }) => (
+        <div
+          key={side}
+          className={cn(
+            "space-y-1.5 rounded-md border p-2 transition-opacity",
+            side === active ? "border-primary/50 bg-background" : "opacity-50"
+          )}
+        >
+          <div className="flex items-center gap-2">
+            <span
+              className={cn(
+                "flex h-6 w-6 shrink-0 items-center justify-center rounded text-xs font-bold",
+                side === active ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+              )}
+            >
+              {side.toUpperCase()}
+            </span>
+            <Select value={bounce._id} onValueChange={(id) => handleSelect(side, id as Id<"bounces">)}>
+              <SelectTrigger className="h-7 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {bounces.map((b) => (
+                  <SelectItem key={b._id} value={b._id}>
+                    {b.versionLabel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="ml-auto font-mono text-xs tabular-nums text-muted-foreground">
+              {loudness !== undefined && `${loudness.toFixed(1)} LUFS`}
+              {gain < 1 && ` → ${formatGain(gain)}`}
+            </span>
+          </div>
+
+          {bounce.url ? (
+            <div className="relative">
+              <WaveformPlayer
+                key={bounce._id}
+                ref={side === "a" ? playerARef : playerBRef}
+                audioUrl={bounce.url}
+                peaks={bounce.waveformPeaks}
+                duration={bounce.durationSeconds}
+                height={56}
+                gain={gain}
+                showControls={false}
+                onPlayStateChange={(playing) => {
+                  if (side === activeRef.current) setIsPlaying(playing);
+                }}
+              />
+              {/* Clicking the inactive waveform switches to it instead of seeking */}
+              {side !== active && (
+                <button
+                  type="button"
+                  onClick={() => switchTo(side)}
+                  className="absolute inset-0 cursor-pointer"
+                  aria-label={`Switch to ${side.toUpperCase()}`}
+                />
+              )}
+            </div>
+          ) : (
+            <p className="py-3 text-sm text-muted-foreground">Audio for this bounce is unavailable.</p>
+          )}
+        </div>
+      ))}
+
+      {/* Transport */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={togglePlayPause} className="h-10 w-10">
+          {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </Button>
+        <Button variant="ghost" size="icon" onClick={handleRestart} className="h-8 w-8">
+          <SkipBack className="h-4 w-4" />
+        </Button>
+
+        <div className="flex rounded-md border p-0.5">
+          {(["a", "b"] as const).map((side) => (
+            <Button
+              key={side}
+              variant={side === active ? "default" : "ghost"}
+              size="sm"
+              onClick={() => switchTo(side)}
+              className="h-7 w-10 font-bold"
+            >
+              {side.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isMeasuring && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+          <Label htmlFor="match-loudness" className="text-xs text-muted-foreground">
+            {isMeasuring ? "Measuring loudness..." : "Match loudness"}
+          </Label>
+          <Switch
+            id="match-loudness"
+            checked={matchLoudness}
+            onCheckedChange={setMatchLoudness}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
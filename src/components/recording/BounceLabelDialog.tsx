@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface BounceLabelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bounceId: Id<"bounces">;
+  versionLabel: string;
+}
+
+export function BounceLabelDialog({
+  open,
+  onOpenChange,
+  bounceId,
+  versionLabel,
+}: BounceLabelDialogProps) {
+  const [label, setLabel] = useState(versionLabel);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateLabel = useMutation(api.bounces.updateLabel);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!label.trim()) {
+      setError("Version label is required");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await updateLabel({ id: bounceId, versionLabel: label.trim() });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rename bounce");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Rename Bounce</DialogTitle>
+            <DialogDescription>Shown in the version picker and A/B compare.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="bounce-label">Version Label</Label>
+            <Input
+              id="bounce-label"
+              placeholder="e.g., Mix v3, Rough 1"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              disabled={isSubmitting}
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
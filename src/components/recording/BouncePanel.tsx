@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import {
+  AlertTriangle,
+  ChevronRight,
+  Disc3,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  ArrowLeftRight,
+} from "lucide-react";
+import { toast } from "sonner";
+import { formatFileSize } from "@/hooks/useFileUpload";
+import { LoudnessReport } from "@/components/audio";
+import { BouncePlayer } from "./BouncePlayer";
+import { BounceComparePlayer } from "./BounceComparePlayer";
+import { BounceLabelDialog } from "./BounceLabelDialog";
+import { BounceUploadButton } from "./BounceUploadButton";
+
+interface BouncePanelProps {
+  recordingSongId: Id<"recordingSongs">;
+  bounceCount: number;
+}
+
+/**
+ * Collapsible list of mix bounces for a recording song
+ *
+ * Bounces are only fetched once the panel is opened.
+ */
+export function BouncePanel({ recordingSongId, bounceCount }: BouncePanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedId, setSelectedId] = useState<Id<"bounces"> | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+
+  const bounces = useQuery(
+    api.bounces.listBySong,
+    isExpanded ? { recordingSongId } : "skip"
+  );
+  const referenceLoudness = useQuery(
+    api.bounces.getReferenceLoudness,
+    isExpanded ? { recordingSongId } : "skip"
+  );
+  const removeBounce = useMutation(api.bounces.remove);
+
+  // Fall back to the newest bounce when nothing (or a deleted one) is selected
+  const selected = bounces?.find((b) => b._id === selectedId) ?? bounces?.[0];
+  const canCompare = (bounces?.length ?? 0) >= 2;
+
+  const handleUploaded = (bounceId: Id<"bounces">) => {
+    setSelectedId(bounceId);
+    setIsComparing(false);
+    setIsExpanded(true);
+  };
+
+  const handleRemove = async (bounceId: Id<"bounces">) => {
+    try {
+      await removeBounce({ id: bounceId });
+      toast.success("Bounce deleted");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete bounce");
+    }
+  };
+
+  return (
+    <div className="border-t">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          disabled={bounceCount === 0}
+          className="flex flex-1 items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground disabled:pointer-events-none"
+        >
+          <ChevronRight
+            className={cn(
+              "h-3.5 w-3.5 transition-transform",
+              isExpanded && "rotate-90",
+              bounceCount === 0 && "invisible"
+            )}
+          />
+          <Disc3 className="h-3.5 w-3.5" />
+          {bounceCount === 0
+            ? "No bounces yet"
+            : `${bounceCount} ${bounceCount === 1 ? "bounce" : "bounces"}`}
+        </button>
+        <BounceUploadButton recordingSongId={recordingSongId} onUploaded={handleUploaded} />
+      </div>
+
+      {isExpanded && bounceCount > 0 && (
+        <div className="space-y-3 border-t bg-muted/30 px-3 py-3">
+          {bounces === undefined ? (
+            <div className="h-24 bg-muted rounded-md animate-pulse" />
+          ) : isComparing && canCompare ? (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  Press A / B to switch
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsComparing(false)}
+                  className="h-7 text-xs"
+                >
+                  Done
+                </Button>
+              </div>
+              <BounceComparePlayer bounces={bounces} />
+            </>
+          ) : selected ? (
+            <>
+              {/* Version picker */}
+              <div className="flex flex-wrap items-center gap-1.5">
+                {bounces.map((bounce) => (
+                  <Button
+                    key={bounce._id}
+                    variant={bounce._id === selected._id ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setSelectedId(bounce._id)}
+                    className="h-7 text-xs"
+                  >
+                    {bounce.versionLabel}
+                    {(bounce.clippedRuns ?? 0) > 0 && (
+                      <AlertTriangle
+                        className="ml-1.5 h-3.5 w-3.5 text-destructive"
+                        aria-label="Clipping"
+                      />
+                    )}
+                    {bounce.commentCount > 0 && (
+                      <span className="ml-1.5 text-muted-foreground">{bounce.commentCount}</span>
+                    )}
+                  </Button>
+                ))}
+                {canCompare && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsComparing(true)}
+                    className="h-7 text-xs"
+                  >
+                    <ArrowLeftRight className="mr-1.5 h-3.5 w-3.5" />
+                    A/B
+                  </Button>
+                )}
+                <div className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                  <span>
+                    {[selected.fileName, formatFileSize(selected.fileSize)]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => setShowLabelDialog(true)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleRemove(selected._id)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete {selected.versionLabel}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </div>
+
+              <LoudnessReport
+                integratedLoudness={selected.integratedLoudness}
+                truePeak={selected.truePeak}
+                crestFactor={selected.crestFactor}
+                clippedRuns={selected.clippedRuns}
+                referenceLoudness={referenceLoudness?.integratedLoudness}
+                referenceLabel={referenceLoudness?.label}
+              />
+
+              <BouncePlayer key={selected._id} bounce={selected} />
+
+              {showLabelDialog && (
+                <BounceLabelDialog
+                  key={selected._id}
+                  open
+                  onOpenChange={setShowLabelDialog}
+                  bounceId={selected._id}
+                  versionLabel={selected.versionLabel}
+                />
+              )}
+            </>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { WaveformPlayer, type WaveformPlayerRef, type WaveformMarker } from "@/components/audio";
+import { formatDuration } from "@/lib/audio";
+import { cn } from "@/lib/utils";
+import { MessageSquare, Send, X } from "lucide-react";
+import { toast } from "sonner";
+
+export interface BounceData {
+  _id: Id<"bounces">;
+  versionLabel: string;
+  url: string | null;
+  waveformPeaks?: number[];
+  durationSeconds?: number;
+  integratedLoudness?: number;
+}
+
+interface BouncePlayerProps {
+  bounce: BounceData;
+}
+
+/**
+ * Waveform player for a bounce with timestamped mix comments
+ *
+ * New comments are pinned to the playhead by default, so "the snare is
+ * too loud here" lands exactly where it was heard.
+ */
+export function BouncePlayer({ bounce }: BouncePlayerProps) {
+  const playerRef = useRef<WaveformPlayerRef>(null);
+  const commentRefs = useRef<Map<string, HTMLLIElement>>(new Map());
+  const [content, setContent] = useState("");
+  const [pinToPlayhead, setPinToPlayhead] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+
+  const comments = useQuery(api.bounces.getComments, { bounceId: bounce._id });
+  const addComment = useMutation(api.bounces.addComment);
+  const removeComment = useMutation(api.bounces.removeComment);
+
+  const markers = useMemo<WaveformMarker[]>(
+    () =>
+      (comments ?? []).flatMap((comment) =>
+        comment.timestampSeconds !== undefined
+          ? [{ id: comment._id, time: comment.timestampSeconds, label: comment.content }]
+          : []
+      ),
+    [comments]
+  );
+
+  const handleMarkerClick = (commentId: string) => {
+    setActiveCommentId(commentId);
+    commentRefs.current.get(commentId)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  const handleSeek = (commentId: string, seconds: number) => {
+    setActiveCommentId(commentId);
+    playerRef.current?.seekTo(seconds);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await addComment({
+        bounceId: bounce._id,
+        content: content.trim(),
+        timestampSeconds: pinToPlayhead ? playerRef.current?.getCurrentTime() : undefined,
+      });
+      setContent("");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add comment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (commentId: Id<"bounceComments">) => {
+    try {
+      await removeComment({ id: commentId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete comment");
+    }
+  };
+
+  if (!bounce.url) {
+    return (
+      <p className="py-3 text-sm text-muted-foreground">Audio for this bounce is unavailable.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <WaveformPlayer
+        ref={playerRef}
+        audioUrl={bounce.url}
+        peaks={bounce.waveformPeaks}
+        duration={bounce.durationSeconds}
+        markers={markers}
+        onMarkerClick={handleMarkerClick}
+      />
+
+      {/* Comments */}
+      {comments && comments.length > 0 && (
+        <ul className="max-h-56 space-y-1 overflow-y-auto">
+          {comments.map((comment) => (
+            <li
+              key={comment._id}
+              ref={(el) => {
+                if (el) {
+                  commentRefs.current.set(comment._id, el);
+                } else {
+                  commentRefs.current.delete(comment._id);
+                }
+              }}
+              className={cn(
+                "group flex items-start gap-2 rounded-md px-2 py-1.5 text-sm",
+                activeCommentId === comment._id ? "bg-yellow-100/60 dark:bg-yellow-500/10" : "hover:bg-muted/50"
+              )}
+            >
+              {comment.timestampSeconds !== undefined ? (
+                <button
+                  type="button"
+                  onClick={() => handleSeek(comment._id, comment.timestampSeconds!)}
+                  className="shrink-0 rounded bg-yellow-500/15 px-1.5 py-0.5 font-mono text-xs tabular-nums text-yellow-700 hover:bg-yellow-500/25 dark:text-yellow-400"
+                >
+                  {formatDuration(comment.timestampSeconds)}
+                </button>
+              ) : (
+                <MessageSquare className="mt-0.5 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              )}
+              <p className="min-w-0 flex-1 whitespace-pre-wrap break-words">{comment.content}</p>
+              {comment.isOwn && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(comment._id)}
+                  className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add comment */}
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Input
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="e.g., Vocal gets buried here"
+            disabled={isSubmitting}
+            className="h-8"
+          />
+          <Button type="submit" size="icon" className="h-8 w-8 shrink-0" disabled={isSubmitting || !content.trim()}>
+            <Send className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Checkbox
+            checked={pinToPlayhead}
+            onCheckedChange={(checked) => setPinToPlayhead(checked === true)}
+          />
+          Pin to playhead
+        </label>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Upload, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useFileUpload, detectFileType } from "@/hooks/useFileUpload";
+import { analyzeAudio, isAnalysisAbortError } from "@/lib/audio";
+
+interface BounceUploadButtonProps {
+  recordingSongId: Id<"recordingSongs">;
+  /** Called with the new bounce once it's saved (before analysis finishes) */
+  onUploaded?: (bounceId: Id<"bounces">) => void;
+}
+
+/**
+ * Upload a mix bounce, then compute its waveform in the background
+ */
+export function BounceUploadButton({ recordingSongId, onUploaded }: BounceUploadButtonProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Lets analysis be cancelled when the page unmounts
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const { isUploading, progress, upload, reset } = useFileUpload();
+  const saveBounce = useMutation(api.bounces.saveBounce);
+  const saveBounceAnalysis = useMutation(api.bounces.saveBounceAnalysis);
+
+  // Stop any running analysis when navigating away
+  useEffect(() => {
+    return () => analysisAbortRef.current?.abort();
+  }, []);
+
+  const handleFile = useCallback(
+    async (file: File) => {
+      if (detectFileType(file) !== "audio") {
+        toast.error("Bounces must be audio files");
+        return;
+      }
+
+      const result = await upload(file);
+      if (!result) {
+        toast.error("Upload failed");
+        return;
+      }
+
+      let bounceId: Id<"bounces">;
+      try {
+        bounceId = await saveBounce({
+          recordingSongId,
+          storageId: result.storageId,
+          fileName: result.fileName,
+          fileSize: result.fileSize,
+          mimeType: result.mimeType,
+        });
+        reset();
+        onUploaded?.(bounceId);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to save bounce");
+        reset();
+        return;
+      }
+
+      const controller = new AbortController();
+      analysisAbortRef.current = controller;
+      setIsAnalyzing(true);
+      try {
+        // Only peaks and levels are kept for bounces
+        const analysis = await analyzeAudio(file, {
+          signal: controller.signal,
+          skipPeakLevels: true,
+          skipMusicalFeatures: true,
+        });
+        await saveBounceAnalysis({
+          id: bounceId,
+          waveformPeaks: analysis.waveformPeaks,
+          durationSeconds: analysis.durationSeconds,
+          integratedLoudness: analysis.integratedLoudness,
+          truePeak: analysis.truePeak,
+          crestFactor: analysis.crestFactor,
+          clippedRuns: analysis.clippedRuns,
+        });
+      } catch (analysisErr) {
+        // The bounce still plays without precomputed peaks
+        if (!isAnalysisAbortError(analysisErr)) {
+          console.warn("Audio analysis failed:", analysisErr);
+        }
+      } finally {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+      }
+    },
+    [upload, saveBounce, saveBounceAnalysis, recordingSongId, onUploaded, reset]
+  );
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        accept="audio/*"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          // Reset input so same file can be selected again
+          e.target.value = "";
+        }}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUploading || isAnalyzing}
+        className="h-7"
+      >
+        {isUploading || isAnalyzing ? (
+          <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-3.5 w-3.5" />
+        )}
+        {isUploading ? `${progress}%` : isAnalyzing ? "Analyzing..." : "Upload Bounce"}
+      </Button>
+    </>
+  );
+}
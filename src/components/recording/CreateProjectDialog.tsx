@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CreateProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (projectId: Id<"recordingProjects">) => void;
+}
+
+// Select value for projects not tied to a band
+const NO_BAND = "none";
+
+export function CreateProjectDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: CreateProjectDialogProps) {
+  const [name, setName] = useState("");
+  const [bandId, setBandId] = useState<string>(NO_BAND);
+  const [seedFromBand, setSeedFromBand] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bands = useQuery(api.bands.listMyBands, open ? {} : "skip");
+  const createProject = useMutation(api.recordingProjects.create);
+
+  const hasBand = bandId !== NO_BAND;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Project name is required");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const projectId = await createProject({
+        name: name.trim(),
+        bandId: hasBand ? (bandId as Id<"bands">) : undefined,
+        notes: notes.trim() || undefined,
+        seedFromBand: hasBand && seedFromBand,
+      });
+
+      resetForm();
+      onOpenChange(false);
+      onSuccess?.(projectId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create project");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setBandId(NO_BAND);
+    setSeedFromBand(true);
+    setNotes("");
+    setError(null);
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetForm();
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New Recording Project</DialogTitle>
+            <DialogDescription>
+              Track an EP, album or session from pre-production to master.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Name */}
+            <div className="space-y-2">
+              <Label htmlFor="project-name">Name *</Label>
+              <Input
+                id="project-name"
+                placeholder="e.g., Debut EP"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+                autoFocus
+              />
+            </div>
+
+            {/* Band */}
+            <div className="space-y-2">
+              <Label htmlFor="project-band">Band</Label>
+              <Select value={bandId} onValueChange={setBandId} disabled={isSubmitting}>
+                <SelectTrigger id="project-band">
+                  <SelectValue placeholder="Select band" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BAND}>No band</SelectItem>
+                  {bands?.map((band) => (
+                    <SelectItem key={band._id} value={band._id}>
+                      {band.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasBand && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="project-seed"
+                  checked={seedFromBand}
+                  onCheckedChange={(checked) => setSeedFromBand(checked === true)}
+                  disabled={isSubmitting}
+                />
+                <Label htmlFor="project-seed" className="font-normal">
+                  Add all of the band&apos;s songs
+                </Label>
+              </div>
+            )}
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label htmlFor="project-notes">Notes</Label>
+              <Textarea
+                id="project-notes"
+                placeholder="Studio, engineer, deadlines..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={isSubmitting}
+                rows={3}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? "Creating..." : "Create Project"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Disc3 } from "lucide-react";
+import { Id } from "../../../convex/_generated/dataModel";
+import { ProjectStatusBadge, type ProjectStatus } from "./ProjectStatusBadge";
+
+interface ProjectCardProps {
+  project: {
+    _id: Id<"recordingProjects">;
+    name: string;
+    status: string;
+    bandName?: string;
+    songCount: number;
+    trackingProgress: { complete: number; total: number };
+  };
+}
+
+/**
+ * Percentage of tracking grid cells marked complete
+ */
+export function getTrackingPercent(progress: { complete: number; total: number }): number {
+  if (progress.total === 0) return 0;
+  return Math.round((progress.complete / progress.total) * 100);
+}
+
+export function ProjectCard({ project }: ProjectCardProps) {
+  const percent = getTrackingPercent(project.trackingProgress);
+
+  return (
+    <Link href={`/recording/${project._id}`}>
+      <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-lg leading-tight">
+              <Disc3 className="h-4 w-4 text-muted-foreground" />
+              {project.name}
+            </CardTitle>
+            <ProjectStatusBadge status={project.status as ProjectStatus} />
+          </div>
+          <CardDescription className="flex flex-wrap items-center gap-2">
+            {project.bandName && <span>{project.bandName}</span>}
+            <span>
+              {project.songCount} {project.songCount === 1 ? "song" : "songs"}
+            </span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Tracking</span>
+            <span className="tabular-nums">
+              {project.trackingProgress.total > 0 ? `${percent}%` : "Not started"}
+            </span>
+          </div>
+          <Progress value={percent} className="h-1.5" />
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+export type ProjectStatus =
+  | "pre_production"
+  | "tracking"
+  | "mixing"
+  | "mastering"
+  | "complete";
+
+interface ProjectStatusBadgeProps {
+  status: ProjectStatus;
+  className?: string;
+}
+
+const STATUS_CONFIG: Record<ProjectStatus, { label: string; className: string }> = {
+  pre_production: {
+    label: "Pre-production",
+    className: "border-gray-300 text-gray-600 bg-gray-50",
+  },
+  tracking: {
+    label: "Tracking",
+    className: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  },
+  mixing: {
+    label: "Mixing",
+    className: "bg-blue-100 text-blue-800 border-blue-200",
+  },
+  mastering: {
+    label: "Mastering",
+    className: "bg-purple-100 text-purple-800 border-purple-200",
+  },
+  complete: {
+    label: "Complete",
+    className: "bg-green-100 text-green-800 border-green-200",
+  },
+};
+
+export function ProjectStatusBadge({ status, className }: ProjectStatusBadgeProps) {
+  const config = STATUS_CONFIG[status] ?? STATUS_CONFIG.pre_production;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border",
+        config.className,
+        className
+      )}
+    >
+      {config.label}
+    </span>
+  );
+}
+
+// Workflow order: pre-production → tracking → mixing → mastering → complete
+export const PROJECT_STATUS_OPTIONS: {
+  value: ProjectStatus;
+  label: string;
+  description: string;
+}[] = [
+  { value: "pre_production", label: "Pre-production", description: "Planning, scratch demos" },
+  { value: "tracking", label: "Tracking", description: "Recording instruments" },
+  { value: "mixing", label: "Mixing", description: "Balancing, effects, bouncing" },
+  { value: "mastering", label: "Mastering", description: "Final polish" },
+  { value: "complete", label: "Complete", description: "Done!" },
+];
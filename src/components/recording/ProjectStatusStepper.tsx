@@ -0,0 +1,66 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Check } from "lucide-react";
+import { PROJECT_STATUS_OPTIONS, type ProjectStatus } from "./ProjectStatusBadge";
+
+interface ProjectStatusStepperProps {
+  status: ProjectStatus;
+  onStatusChange: (status: ProjectStatus) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The project's stage within the recording workflow; click the next or
+ * previous stage to move there
+ */
+export function ProjectStatusStepper({
+  status,
+  onStatusChange,
+  disabled = false,
+}: ProjectStatusStepperProps) {
+  const currentIndex = PROJECT_STATUS_OPTIONS.findIndex((o) => o.value === status);
+
+  return (
+    <ol className="grid grid-cols-5 gap-1">
+      {PROJECT_STATUS_OPTIONS.map((option, index) => {
+        const isDone = index < currentIndex;
+        const isCurrent = index === currentIndex;
+        // Mirrors updateStatus: one stage at a time, unless the status is unrecognized
+        const isReachable = currentIndex === -1 || Math.abs(index - currentIndex) === 1;
+
+        return (
+          <li key={option.value}>
+            <button
+              type="button"
+              onClick={() => onStatusChange(option.value)}
+              disabled={disabled || !isReachable}
+              title={option.description}
+              className={cn(
+                "flex w-full flex-col items-start gap-0.5 rounded-md border-t-4 px-2 py-1.5 text-left transition-colors",
+                isCurrent && "border-primary bg-primary/5",
+                isDone && "border-primary/40",
+                !isCurrent && !isDone && "border-muted",
+                isReachable && "hover:bg-muted/50",
+                "disabled:cursor-default"
+              )}
+            >
+              <span
+                className={cn(
+                  "flex items-center gap-1 text-xs font-medium sm:text-sm",
+                  !isCurrent && "text-muted-foreground"
+                )}
+              >
+                {isDone && <Check className="h-3.5 w-3.5" />}
+                {option.label}
+              </span>
+              <span className="hidden text-xs text-muted-foreground md:block">
+                {option.description}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  MoreVertical,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  StickyNote,
+  Link2,
+} from "lucide-react";
+
+export interface RecordingSongData {
+  _id: Id<"recordingSongs">;
+  title: string;
+  mixNotes?: string;
+  position: number;
+  sourceSongId?: Id<"songs">;
+  sourceSong: {
+    _id: Id<"songs">;
+    bandId: Id<"bands">;
+    title: string;
+  } | null;
+  bounceCount: number;
+}
+
+interface RecordingSongRowProps {
+  song: RecordingSongData;
+  index: number;
+  total: number;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRemove: () => void;
+  onMixNotesChange: (mixNotes: string) => void;
+  /** Rendered below the song row (e.g. bounces) */
+  children?: React.ReactNode;
+}
+
+export function RecordingSongRow({
+  song,
+  index,
+  total,
+  onMoveUp,
+  onMoveDown,
+  onRemove,
+  onMixNotesChange,
+  children,
+}: RecordingSongRowProps) {
+  // Local state so typing doesn't fight with live query updates
+  const [localNotes, setLocalNotes] = useState(song.mixNotes ?? "");
+  const [showNotes, setShowNotes] = useState(!!song.mixNotes);
+
+  const [syncedNotes, setSyncedNotes] = useState(song.mixNotes);
+
+  // Pick up changes saved elsewhere
+  if (song.mixNotes !== syncedNotes) {
+    setSyncedNotes(song.mixNotes);
+    setLocalNotes(song.mixNotes ?? "");
+  }
+
+  const handleNotesBlur = () => {
+    if (localNotes.trim() !== (song.mixNotes ?? "")) {
+      onMixNotesChange(localNotes);
+    }
+    if (!localNotes.trim()) {
+      setShowNotes(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-card overflow-hidden">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <span className="w-6 text-right font-mono text-sm text-muted-foreground tabular-nums">
+          {index + 1}
+        </span>
+
+        <div className="min-w-0 flex-1">
+          <p className="font-medium truncate">{song.title}</p>
+          {song.sourceSong && (
+            <Link
+              href={`/bands/${song.sourceSong.bandId}/songs/${song.sourceSong._id}`}
+              className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+            >
+              <Link2 className="h-3 w-3" />
+              {song.sourceSong.title === song.title ? "Band song" : song.sourceSong.title}
+            </Link>
+          )}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7">
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={onMoveUp} disabled={index === 0}>
+              <ChevronUp className="mr-2 h-4 w-4" />
+              Move Up
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onMoveDown} disabled={index === total - 1}>
+              <ChevronDown className="mr-2 h-4 w-4" />
+              Move Down
+            </DropdownMenuItem>
+            {!showNotes && (
+              <DropdownMenuItem onClick={() => setShowNotes(true)}>
+                <StickyNote className="mr-2 h-4 w-4" />
+                Mix Notes
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onRemove} className="text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remove
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {showNotes && (
+        <div className="flex items-center gap-2 border-t bg-muted/30 px-3 py-1.5">
+          <StickyNote className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          <Input
+            value={localNotes}
+            onChange={(e) => setLocalNotes(e.target.value)}
+            onBlur={handleNotesBlur}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            placeholder="e.g., Vocals up in chorus 2, less reverb on snare..."
+            className="h-7 text-xs border-0 bg-transparent shadow-none focus-visible:ring-0 px-0"
+            autoFocus={!song.mixNotes}
+          />
+        </div>
+      )}
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TRACKING_STATUS_OPTIONS, type TrackingStatus } from "./trackingStatus";
+
+export interface TrackingCellValues {
+  status: TrackingStatus;
+  performer: string;
+  notes: string;
+}
+
+interface TrackingCellDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  songTitle: string;
+  instrumentLabel: string;
+  initialValues: TrackingCellValues;
+  onSave: (values: TrackingCellValues) => Promise<void>;
+}
+
+export function TrackingCellDialog({
+  open,
+  onOpenChange,
+  songTitle,
+  instrumentLabel,
+  initialValues,
+  onSave,
+}: TrackingCellDialogProps) {
+  const [status, setStatus] = useState<TrackingStatus>(initialValues.status);
+  const [performer, setPerformer] = useState(initialValues.performer);
+  const [notes, setNotes] = useState(initialValues.notes);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await onSave({ status, performer: performer.trim(), notes: notes.trim() });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {songTitle} — {instrumentLabel}
+            </DialogTitle>
+            <DialogDescription>Who&apos;s playing it and where it stands.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="cell-status">Status</Label>
+                <Select
+                  value={status}
+                  onValueChange={(value) => setStatus(value as TrackingStatus)}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="cell-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRACKING_STATUS_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cell-performer">Performer</Label>
+                <Input
+                  id="cell-performer"
+                  placeholder="Optional"
+                  value={performer}
+                  onChange={(e) => setPerformer(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cell-notes">Notes</Label>
+              <Textarea
+                id="cell-notes"
+                placeholder="Takes to comp, punch-ins needed, mic setup..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={isSubmitting}
+                rows={3}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
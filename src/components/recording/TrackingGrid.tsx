@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { INSTRUMENTS } from "@/components/gear";
+import { cn } from "@/lib/utils";
+import {
+  Plus,
+  Check,
+  RotateCcw,
+  CircleDot,
+  Pencil,
+  MoreHorizontal,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { TrackingCellDialog, type TrackingCellValues } from "./TrackingCellDialog";
+import {
+  TRACKING_STATUS_OPTIONS,
+  getNextTrackingStatus,
+  getTrackingStatusOption,
+  type TrackingStatus,
+} from "./trackingStatus";
+import { getTrackingPercent } from "./ProjectCard";
+
+interface TrackingGridProps {
+  projectId: Id<"recordingProjects">;
+}
+
+interface EditingCell {
+  recordingSongId: Id<"recordingSongs">;
+  songTitle: string;
+  instrument: string;
+  values: TrackingCellValues;
+}
+
+function getInstrumentLabel(instrument: string): string {
+  return INSTRUMENTS.find((i) => i.value === instrument)?.label ?? instrument;
+}
+
+function StatusIcon({ status }: { status: string }) {
+  switch (status) {
+    case "complete":
+      return <Check className="h-4 w-4" />;
+    case "needs_redo":
+      return <RotateCcw className="h-4 w-4" />;
+    case "in_progress":
+      return <CircleDot className="h-4 w-4" />;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Songs × instruments matrix of what's been tracked
+ *
+ * Click a cell to cycle its status; the pencil opens performer and notes.
+ */
+export function TrackingGrid({ projectId }: TrackingGridProps) {
+  const [customInstrument, setCustomInstrument] = useState("");
+  const [showCustomInput, setShowCustomInput] = useState(false);
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+
+  const grid = useQuery(api.recordingProjects.getTrackingGrid, { projectId });
+  const updateCell = useMutation(api.recordingProjects.updateTrackingCell);
+  const addInstrument = useMutation(api.recordingProjects.addTrackingInstrument);
+  const removeInstrument = useMutation(api.recordingProjects.removeTrackingInstrument);
+
+  if (grid === undefined) {
+    return <div className="h-40 bg-muted rounded-lg animate-pulse" />;
+  }
+
+  if (grid === null || grid.rows.length === 0) {
+    return null;
+  }
+
+  const suggestedInstruments = INSTRUMENTS.filter(
+    (i) => i.value !== "other" && !grid.instruments.includes(i.value)
+  );
+
+  const handleCycle = async (
+    recordingSongId: Id<"recordingSongs">,
+    instrument: string,
+    status: string
+  ) => {
+    try {
+      await updateCell({
+        recordingSongId,
+        instrument,
+        status: getNextTrackingStatus(status),
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update cell");
+    }
+  };
+
+  const handleAddInstrument = async (instrument: string) => {
+    try {
+      await addInstrument({ projectId, instrument });
+      setCustomInstrument("");
+      setShowCustomInput(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add instrument");
+    }
+  };
+
+  const handleRemoveInstrument = async (instrument: string) => {
+    try {
+      await removeInstrument({ projectId, instrument });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove instrument");
+    }
+  };
+
+  const handleSaveCell = async (values: TrackingCellValues) => {
+    if (!editingCell) return;
+    await updateCell({
+      recordingSongId: editingCell.recordingSongId,
+      instrument: editingCell.instrument,
+      status: values.status,
+      performer: values.performer,
+      notes: values.notes,
+    });
+  };
+
+  const overallPercent = getTrackingPercent(grid.progress);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Tracking</h2>
+        <div className="flex items-center gap-2">
+          {showCustomInput ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (customInstrument.trim()) handleAddInstrument(customInstrument);
+              }}
+              className="flex items-center gap-1"
+            >
+              <Input
+                value={customInstrument}
+                onChange={(e) => setCustomInstrument(e.target.value)}
+                placeholder="e.g., strings"
+                className="h-8 w-36"
+                autoFocus
+                onBlur={() => {
+                  if (!customInstrument.trim()) setShowCustomInput(false);
+                }}
+              />
+              <Button type="submit" size="sm" disabled={!customInstrument.trim()}>
+                Add
+              </Button>
+            </form>
+          ) : (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Instrument
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {suggestedInstruments.map((instrument) => (
+                  <DropdownMenuItem
+                    key={instrument.value}
+                    onClick={() => handleAddInstrument(instrument.value)}
+                  >
+                    {instrument.label}
+                  </DropdownMenuItem>
+                ))}
+                {suggestedInstruments.length > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuItem onClick={() => setShowCustomInput(true)}>
+                  Other...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+
+      {grid.instruments.length === 0 ? (
+        <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          Add the instruments you&apos;re tracking to build the grid.
+        </p>
+      ) : (
+        <>
+          {/* Overall progress */}
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {grid.progress.complete} of {grid.progress.total} parts tracked
+              </span>
+              <span className="tabular-nums">{overallPercent}%</span>
+            </div>
+            <Progress value={overallPercent} className="h-1.5" />
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="sticky left-0 z-10 bg-muted px-3 py-2 text-left font-medium">
+                    Song
+                  </th>
+                  {grid.instruments.map((instrument) => (
+                    <th key={instrument} className="min-w-24 px-2 py-2 font-medium">
+                      <div className="flex items-center justify-center gap-1">
+                        <span className="capitalize">{getInstrumentLabel(instrument)}</span>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-6 w-6">
+                              <MoreHorizontal className="h-3.5 w-3.5" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                              onClick={() => handleRemoveInstrument(instrument)}
+                              className="text-destructive"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Remove Column
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right font-medium">Done</th>
+                </tr>
+              </thead>
+              <tbody>
+                {grid.rows.map((row) => (
+                  <tr key={row._id} className="border-t">
+                    <td className="sticky left-0 z-10 max-w-48 truncate bg-card px-3 py-2 font-medium">
+                      {row.title}
+                    </td>
+                    {grid.instruments.map((instrument) => {
+                      const cell = row.cells.find((c) => c.instrument === instrument);
+                      const status = cell?.status ?? "not_started";
+                      const option = getTrackingStatusOption(status);
+
+                      return (
+                        <td key={instrument} className="border-l p-1">
+                          <div
+                            className={cn(
+                              "group relative flex h-12 items-center justify-center rounded transition-colors",
+                              option.className
+                            )}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => handleCycle(row._id, instrument, status)}
+                              className="flex h-full w-full flex-col items-center justify-center gap-0.5 px-1"
+                              title={[option.label, cell?.performer, cell?.notes]
+                                .filter(Boolean)
+                                .join(" • ")}
+                            >
+                              <StatusIcon status={status} />
+                              {cell?.performer && (
+                                <span className="max-w-full truncate text-[10px] leading-none">
+                                  {cell.performer}
+                                </span>
+                              )}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setEditingCell({
+                                  recordingSongId: row._id,
+                                  songTitle: row.title,
+                                  instrument,
+                                  values: {
+                                    status: status as TrackingStatus,
+                                    performer: cell?.performer ?? "",
+                                    notes: cell?.notes ?? "",
+                                  },
+                                })
+                              }
+                              className="absolute right-0.5 top-0.5 rounded p-0.5 opacity-40 hover:opacity-100 group-hover:opacity-80"
+                              title="Performer and notes"
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </button>
+                            {cell?.notes && (
+                              <span className="absolute bottom-1 right-1 h-1.5 w-1.5 rounded-full bg-current opacity-60" />
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
+                    <td className="border-l px-3 py-2 text-right font-mono tabular-nums text-muted-foreground">
+                      {getTrackingPercent(row.progress)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t bg-muted/30">
+                  <td className="sticky left-0 z-10 bg-muted px-3 py-2 font-medium">Done</td>
+                  {grid.instrumentProgress.map((progress) => (
+                    <td
+                      key={progress.instrument}
+                      className="border-l px-2 py-2 text-center font-mono tabular-nums text-muted-foreground"
+                    >
+                      {getTrackingPercent(progress)}%
+                    </td>
+                  ))}
+                  <td className="border-l px-3 py-2 text-right font-mono font-medium tabular-nums">
+                    {overallPercent}%
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            {TRACKING_STATUS_OPTIONS.map((option) => (
+              <span key={option.value} className="flex items-center gap-1.5">
+                <span className={cn("h-3 w-3 rounded-sm border", option.className)} />
+                {option.label}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {editingCell && (
+        <TrackingCellDialog
+          key={`${editingCell.recordingSongId}-${editingCell.instrument}`}
+          open
+          onOpenChange={(open) => {
+            if (!open) setEditingCell(null);
+          }}
+          songTitle={editingCell.songTitle}
+          instrumentLabel={getInstrumentLabel(editingCell.instrument)}
+          initialValues={editingCell.values}
+          onSave={handleSaveCell}
+        />
+      )}
+    </div>
+  );
+}
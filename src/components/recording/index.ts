@@ -0,0 +1,23 @@
+export {
+  ProjectStatusBadge,
+  PROJECT_STATUS_OPTIONS,
+  type ProjectStatus,
+} from "./ProjectStatusBadge";
+export { ProjectStatusStepper } from "./ProjectStatusStepper";
+export { ProjectCard, getTrackingPercent } from "./ProjectCard";
+export { CreateProjectDialog } from "./CreateProjectDialog";
+export { AddRecordingSongDialog } from "./AddRecordingSongDialog";
+export { RecordingSongRow, type RecordingSongData } from "./RecordingSongRow";
+export { TrackingGrid } from "./TrackingGrid";
+export { TrackingCellDialog, type TrackingCellValues } from "./TrackingCellDialog";
+export {
+  TRACKING_STATUS_OPTIONS,
+  getTrackingStatusOption,
+  getNextTrackingStatus,
+  type TrackingStatus,
+} from "./trackingStatus";
+export { BouncePanel } from "./BouncePanel";
+export { BouncePlayer, type BounceData } from "./BouncePlayer";
+export { BounceUploadButton } from "./BounceUploadButton";
+export { BounceComparePlayer } from "./BounceComparePlayer";
+export { BounceLabelDialog } from "./BounceLabelDialog";
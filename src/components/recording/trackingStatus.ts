@@ -0,0 +1,40 @@
+export type TrackingStatus = "not_started" | "in_progress" | "needs_redo" | "complete";
+
+// Click order in the grid: not started → in progress → needs redo → complete
+export const TRACKING_STATUS_OPTIONS: {
+  value: TrackingStatus;
+  label: string;
+  className: string;
+}[] = [
+  {
+    value: "not_started",
+    label: "Not Started",
+    className: "bg-muted/40 text-muted-foreground hover:bg-muted",
+  },
+  {
+    value: "in_progress",
+    label: "In Progress",
+    className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200",
+  },
+  {
+    value: "needs_redo",
+    label: "Needs Redo",
+    className: "bg-red-100 text-red-800 hover:bg-red-200",
+  },
+  {
+    value: "complete",
+    label: "Complete",
+    className: "bg-green-100 text-green-800 hover:bg-green-200",
+  },
+];
+
+export function getTrackingStatusOption(status: string) {
+  return (
+    TRACKING_STATUS_OPTIONS.find((o) => o.value === status) ?? TRACKING_STATUS_OPTIONS[0]
+  );
+}
+
+export function getNextTrackingStatus(status: string): TrackingStatus {
+  const index = TRACKING_STATUS_OPTIONS.findIndex((o) => o.value === status);
+  return TRACKING_STATUS_OPTIONS[(index + 1) % TRACKING_STATUS_OPTIONS.length].value;
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { PracticeStatusBadge, PracticeStatus } from "@/components/songs";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface AddSongToSetlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bandId: Id<"bands">;
+  setlistId: Id<"setlists">;
+  /** Songs already in the setlist (shown as added) */
+  existingSongIds: Id<"songs">[];
+}
+
+export function AddSongToSetlistDialog({
+  open,
+  onOpenChange,
+  bandId,
+  setlistId,
+  existingSongIds,
+}: AddSongToSetlistDialogProps) {
+  const [search, setSearch] = useState("");
+  const [addingSongId, setAddingSongId] = useState<Id<"songs"> | null>(null);
+
+  const songs = useQuery(api.songs.listByBand, open ? { bandId } : "skip");
+  const addItem = useMutation(api.setlists.addItem);
+
+  const existing = useMemo(() => new Set(existingSongIds), [existingSongIds]);
+
+  const filteredSongs = useMemo(() => {
+    if (!songs) return [];
+    const query = search.trim().toLowerCase();
+    if (!query) return songs;
+    return songs.filter((s) => s.title.toLowerCase().includes(query));
+  }, [songs, search]);
+
+  const handleAdd = async (songId: Id<"songs">, title: string) => {
+    setAddingSongId(songId);
+    try {
+      await addItem({ setlistId, songId });
+      toast.success(`Added ${title}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add song");
+    } finally {
+      setAddingSongId(null);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setSearch("");
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Songs</DialogTitle>
+          <DialogDescription>
+            Songs are added to the end of the setlist.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <Input
+            placeholder="Search songs..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            autoFocus
+          />
+
+          <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+            {songs === undefined ? (
+              <div className="p-3 space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="h-8 bg-muted rounded animate-pulse" />
+                ))}
+              </div>
+            ) : filteredSongs.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">
+                {songs.length === 0 ? "This band has no songs yet" : "No matching songs"}
+              </p>
+            ) : (
+              filteredSongs.map((song) => {
+                const isInSet = existing.has(song._id);
+                return (
+                  <button
+                    key={song._id}
+                    type="button"
+                    disabled={isInSet || addingSongId !== null}
+                    onClick={() => handleAdd(song._id, song.title)}
+                    className={cn(
+                      "w-full px-3 py-2 text-left text-sm flex items-center justify-between gap-2 transition-colors",
+                      isInSet ? "opacity-60 cursor-default" : "hover:bg-accent"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{song.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[song.key && `${song.key}${song.mode ? ` ${song.mode}` : ""}`, song.tempo && `${song.tempo} BPM`]
+                          .filter(Boolean)
+                          .join(" • ") || "No details yet"}
+                      </p>
+                    </div>
+                    {isInSet ? (
+                      <Badge variant="secondary" className="text-[10px] h-5">
+                        In set
+                      </Badge>
+                    ) : (
+                      <PracticeStatusBadge status={song.practiceStatus as PracticeStatus} />
+                    )}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
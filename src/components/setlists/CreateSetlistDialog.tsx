@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface CreateSetlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bandId: Id<"bands">;
+  onSuccess?: (setlistId: Id<"setlists">) => void;
+}
+
+export function CreateSetlistDialog({
+  open,
+  onOpenChange,
+  bandId,
+  onSuccess,
+}: CreateSetlistDialogProps) {
+  const [name, setName] = useState("");
+  const [date, setDate] = useState("");
+  const [venue, setVenue] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createSetlist = useMutation(api.setlists.create);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Setlist name is required");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const setlistId = await createSetlist({
+        bandId,
+        name: name.trim(),
+        date: date || undefined,
+        venue: venue.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      resetForm();
+      onOpenChange(false);
+      onSuccess?.(setlistId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create setlist");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setDate("");
+    setVenue("");
+    setNotes("");
+    setError(null);
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetForm();
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New Setlist</DialogTitle>
+            <DialogDescription>
+              Build the running order for a show or rehearsal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Name */}
+            <div className="space-y-2">
+              <Label htmlFor="setlist-name">Name *</Label>
+              <Input
+                id="setlist-name"
+                placeholder="e.g., Friday at The Basement"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+                autoFocus
+              />
+            </div>
+
+            {/* Date and Venue */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="setlist-date">Date</Label>
+                <Input
+                  id="setlist-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="setlist-venue">Venue</Label>
+                <Input
+                  id="setlist-venue"
+                  placeholder="Optional"
+                  value={venue}
+                  onChange={(e) => setVenue(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label htmlFor="setlist-notes">Notes</Label>
+              <Textarea
+                id="setlist-notes"
+                placeholder="Load-in time, set length, backline..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={isSubmitting}
+                rows={3}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? "Creating..." : "Create Setlist"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
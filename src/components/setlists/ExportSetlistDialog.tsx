@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Download } from "lucide-react";
+import { downloadSetlistPdf, type SetlistPdfData } from "./setlistPdf";
+
+interface ExportSetlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  data: SetlistPdfData;
+}
+
+export function ExportSetlistDialog({ open, onOpenChange, data }: ExportSetlistDialogProps) {
+  const [includeGearSheet, setIncludeGearSheet] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasGearChanges = data.songs.some((song) => song.gearChanges.length > 0);
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+
+    try {
+      await downloadSetlistPdf(data, {
+        includeGearSheet: includeGearSheet && hasGearChanges,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setError(null);
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Print Setlist</DialogTitle>
+          <DialogDescription>
+            Download a PDF with the running order in large type for the stage floor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="include-gear-sheet"
+              checked={includeGearSheet && hasGearChanges}
+              onCheckedChange={(checked) => setIncludeGearSheet(checked === true)}
+              disabled={isExporting || !hasGearChanges}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="include-gear-sheet">Include gear cheat sheet</Label>
+              <p className="text-xs text-muted-foreground">
+                {hasGearChanges
+                  ? "Adds pages listing the gear changes before each song, with knob positions drawn as dials."
+                  : "No gear changes between these songs."}
+              </p>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isExporting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? "Creating..." : "Download PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { INSTRUMENTS } from "@/components/gear";
+import type { InstrumentGearDelta, PatchChange } from "../../../convex/gearDelta";
+
+interface GearDeltaDisplayProps {
+  instruments: InstrumentGearDelta[];
+  /** Larger type for stage use */
+  size?: "sm" | "lg";
+  className?: string;
+}
+
+/**
+ * Format a 0-1 knob position on the 0-10 dial scale used by KnobDial
+ */
+export function formatKnobPosition(position: number): string {
+  return (Math.round(position * 20) / 2).toString();
+}
+
+export function formatPatch(patch?: string, patchName?: string): string {
+  if (patch && patchName) return `${patch} ${patchName}`;
+  return patch || patchName || "—";
+}
+
+export function getInstrumentLabel(instrument: string): string {
+  return INSTRUMENTS.find((i) => i.value === instrument)?.label ?? instrument;
+}
+
+function PatchChangeText({ change }: { change: PatchChange }) {
+  return (
+    <span>
+      Patch{" "}
+      {(change.from || change.fromName) && (
+        <>
+          <span className="text-muted-foreground">{formatPatch(change.from, change.fromName)}</span>
+          {" → "}
+        </>
+      )}
+      <span className="font-medium">{formatPatch(change.to, change.toName)}</span>
+    </span>
+  );
+}
+
+/**
+ * Shows the gear changes needed before a song: pedals on/off,
+ * knob moves (from → to), and synth patch changes.
+ */
+export function GearDeltaDisplay({ instruments, size = "sm", className }: GearDeltaDisplayProps) {
+  if (instruments.length === 0) return null;
+
+  const showInstrumentLabels = instruments.length > 1;
+
+  return (
+    <div
+      className={cn(
+        "space-y-2",
+        size === "sm" ? "text-xs" : "text-lg",
+        className
+      )}
+    >
+      {instruments.map(({ instrument, changes }) => (
+        <div key={instrument} className="space-y-1">
+          {showInstrumentLabels && (
+            <p className="font-medium text-muted-foreground uppercase tracking-wide text-[0.7em]">
+              {getInstrumentLabel(instrument)}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-1.5">
+            {changes.map((change) => (
+              <div
+                key={change.name}
+                className={cn(
+                  "inline-flex flex-wrap items-center gap-x-2 rounded border px-2 py-0.5",
+                  change.toggle === "on" && "bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-900",
+                  change.toggle === "off" && "bg-red-100 text-red-800 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-900",
+                  !change.toggle && "bg-muted/50"
+                )}
+              >
+                <span className="font-medium">
+                  {change.toggle === "on" && "+ "}
+                  {change.toggle === "off" && "− "}
+                  {change.name}
+                </span>
+                {change.patchChange && <PatchChangeText change={change.patchChange} />}
+                {change.knobChanges.map((knob) => (
+                  <span key={knob.label} className="font-mono tabular-nums">
+                    {knob.label}{" "}
+                    {knob.from !== undefined && (
+                      <>
+                        <span className="opacity-60">{formatKnobPosition(knob.from)}</span>
+                        {" → "}
+                      </>
+                    )}
+                    <span className="font-semibold">{formatKnobPosition(knob.to)}</span>
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { Id } from "../../../convex/_generated/dataModel";
+import type { InstrumentGearDelta } from "../../../convex/gearDelta";
+import { GearDeltaDisplay, getInstrumentLabel } from "./GearDeltaDisplay";
+import type { SetlistItemData } from "./SetlistItemRow";
+import { ArrowRightLeft, SlidersHorizontal } from "lucide-react";
+
+export interface GigSectionData {
+  _id: Id<"songSections">;
+  instrument: string;
+  name: string;
+  notes?: string;
+}
+
+interface GigModeSongProps {
+  item: SetlistItemData;
+  gearChanges: InstrumentGearDelta[];
+  sections: GigSectionData[];
+}
+
+/**
+ * Format key, mode, tempo and time signature as one line
+ */
+export function formatSongMeta(song: NonNullable<SetlistItemData["song"]>): string {
+  return [
+    song.key && (song.mode ? `${song.key} ${song.mode}` : song.key),
+    song.tempo && `${song.tempo} BPM`,
+    song.timeSignature,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+/**
+ * Large-type view of one song for reading from a music stand
+ */
+export function GigModeSong({ item, gearChanges, sections }: GigModeSongProps) {
+  const song = item.song;
+
+  // Section names grouped by instrument, in running order
+  const sectionsByInstrument = new Map<string, GigSectionData[]>();
+  for (const section of sections) {
+    const list = sectionsByInstrument.get(section.instrument) ?? [];
+    list.push(section);
+    sectionsByInstrument.set(section.instrument, list);
+  }
+  const showInstrumentLabels = sectionsByInstrument.size > 1;
+
+  const meta = song ? formatSongMeta(song) : "";
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-4xl md:text-6xl font-bold tracking-tight leading-tight">
+          {song ? song.title : "Archived song"}
+        </h1>
+        {meta && (
+          <p className="text-2xl md:text-3xl font-medium text-muted-foreground tabular-nums">
+            {meta}
+          </p>
+        )}
+      </div>
+
+      {item.transitionNotes && (
+        <div className="flex items-start gap-3 rounded-lg border bg-muted/40 p-4 text-xl md:text-2xl">
+          <ArrowRightLeft className="mt-1 h-6 w-6 shrink-0 text-muted-foreground" />
+          <p className="whitespace-pre-wrap">{item.transitionNotes}</p>
+        </div>
+      )}
+
+      {gearChanges.length > 0 && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-wide text-muted-foreground">
+            <SlidersHorizontal className="h-4 w-4" />
+            Gear changes
+          </p>
+          <GearDeltaDisplay instruments={gearChanges} size="lg" />
+        </div>
+      )}
+
+      {sectionsByInstrument.size > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
+            Sections
+          </p>
+          {[...sectionsByInstrument].map(([instrument, instrumentSections]) => (
+            <div key={instrument} className="space-y-1.5">
+              {showInstrumentLabels && (
+                <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  {getInstrumentLabel(instrument)}
+                </p>
+              )}
+              <ol className="flex flex-wrap gap-2">
+                {instrumentSections.map((section) => (
+                  <li
+                    key={section._id}
+                    className="rounded-md border px-3 py-1 text-lg md:text-xl"
+                  >
+                    {section.name}
+                    {section.notes && (
+                      <span className="block text-sm text-muted-foreground">
+                        {section.notes}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
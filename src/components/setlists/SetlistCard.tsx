@@ -0,0 +1,62 @@
+"use client";
+
+import Link from "next/link";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ListMusic } from "lucide-react";
+import { Id } from "../../../convex/_generated/dataModel";
+import { formatDurationLong } from "@/lib/audio";
+
+interface SetlistCardProps {
+  setlist: {
+    _id: Id<"setlists">;
+    bandId: Id<"bands">;
+    name?: string;
+    date?: string;
+    venue?: string;
+    songCount: number;
+    estimatedDurationSeconds?: number;
+  };
+}
+
+/**
+ * Format a YYYY-MM-DD date string without timezone shifting
+ */
+export function formatSetlistDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function SetlistCard({ setlist }: SetlistCardProps) {
+  return (
+    <Link href={`/bands/${setlist.bandId}/setlists/${setlist._id}`}>
+      <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-lg leading-tight">
+            <ListMusic className="h-4 w-4 text-muted-foreground" />
+            {setlist.name || "Untitled setlist"}
+          </CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-2">
+            {setlist.date && <span>{formatSetlistDate(setlist.date)}</span>}
+            {setlist.venue && <span>{setlist.venue}</span>}
+            <span>
+              {setlist.songCount} {setlist.songCount === 1 ? "song" : "songs"}
+            </span>
+            {setlist.estimatedDurationSeconds !== undefined && (
+              <span>{formatDurationLong(setlist.estimatedDurationSeconds)}</span>
+            )}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    </Link>
+  );
+}
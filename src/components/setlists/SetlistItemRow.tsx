@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PracticeStatusBadge, PracticeStatus } from "@/components/songs";
+import { formatDuration } from "@/lib/audio";
+import {
+  MoreVertical,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  ArrowRightLeft,
+  AlertTriangle,
+} from "lucide-react";
+
+export interface SetlistItemData {
+  _id: Id<"setlistItems">;
+  songId: Id<"songs">;
+  position: number;
+  transitionNotes?: string;
+  notes?: string;
+  song: {
+    _id: Id<"songs">;
+    title: string;
+    key?: string;
+    mode?: string;
+    tempo?: number;
+    timeSignature?: string;
+    durationSeconds?: number;
+    practiceStatus: string;
+  } | null;
+}
+
+interface SetlistItemRowProps {
+  item: SetlistItemData;
+  index: number;
+  total: number;
+  bandId: Id<"bands">;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRemove: () => void;
+  onTransitionNotesChange: (notes: string) => void;
+  /** Resolved length from the duration estimate; falls back to the song's own */
+  duration?: {
+    durationSeconds?: number;
+    source?: "song" | "audio";
+  };
+  /** Rendered between the song row and the transition notes (e.g. gear changes) */
+  children?: React.ReactNode;
+}
+
+export function SetlistItemRow({
+  item,
+  index,
+  total,
+  bandId,
+  onMoveUp,
+  onMoveDown,
+  onRemove,
+  onTransitionNotesChange,
+  duration,
+  children,
+}: SetlistItemRowProps) {
+  // Local state so typing doesn't fight with live query updates
+  const [localNotes, setLocalNotes] = useState(item.transitionNotes ?? "");
+  const [showNotes, setShowNotes] = useState(!!item.transitionNotes);
+
+  const [syncedNotes, setSyncedNotes] = useState(item.transitionNotes);
+
+  // Pick up changes saved elsewhere
+  if (item.transitionNotes !== syncedNotes) {
+    setSyncedNotes(item.transitionNotes);
+    setLocalNotes(item.transitionNotes ?? "");
+  }
+
+  const handleNotesBlur = () => {
+    if (localNotes.trim() !== (item.transitionNotes ?? "")) {
+      onTransitionNotesChange(localNotes);
+    }
+    if (!localNotes.trim()) {
+      setShowNotes(false);
+    }
+  };
+
+  const song = item.song;
+  const durationSeconds = duration ? duration.durationSeconds : song?.durationSeconds;
+
+  return (
+    <div className="rounded-lg border bg-card overflow-hidden">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <span className="w-6 text-right font-mono text-sm text-muted-foreground tabular-nums">
+          {index + 1}
+        </span>
+
+        <div className="min-w-0 flex-1">
+          {song ? (
+            <Link
+              href={`/bands/${bandId}/songs/${song._id}`}
+              className="font-medium truncate hover:underline block"
+            >
+              {song.title}
+            </Link>
+          ) : (
+            <span className="font-medium italic text-muted-foreground">
+              Archived song
+            </span>
+          )}
+          {song && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              {song.key && (
+                <span>
+                  {song.key}
+                  {song.mode && ` ${song.mode}`}
+                </span>
+              )}
+              {song.tempo && <span>{song.tempo} BPM</span>}
+              {song.timeSignature && <span>{song.timeSignature}</span>}
+            </div>
+          )}
+        </div>
+
+        {durationSeconds !== undefined ? (
+          <span
+            className="font-mono text-sm text-muted-foreground tabular-nums"
+            title={duration?.source === "audio" ? "From the primary audio file" : undefined}
+          >
+            {duration?.source === "audio" && "~"}
+            {formatDuration(durationSeconds)}
+          </span>
+        ) : (
+          song && (
+            <span
+              className="flex items-center gap-1 text-xs text-yellow-600 dark:text-yellow-400"
+              title="Set a duration or upload audio to include this song in the set length"
+            >
+              <AlertTriangle className="h-3.5 w-3.5" />
+              No length
+            </span>
+          )
+        )}
+
+        {song && (
+          <PracticeStatusBadge
+            status={song.practiceStatus as PracticeStatus}
+            className="hidden sm:inline-flex"
+          />
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7">
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={onMoveUp} disabled={index === 0}>
+              <ChevronUp className="mr-2 h-4 w-4" />
+              Move Up
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onMoveDown} disabled={index === total - 1}>
+              <ChevronDown className="mr-2 h-4 w-4" />
+              Move Down
+            </DropdownMenuItem>
+            {!showNotes && (
+              <DropdownMenuItem onClick={() => setShowNotes(true)}>
+                <ArrowRightLeft className="mr-2 h-4 w-4" />
+                Transition Notes
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onRemove} className="text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remove
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {children}
+
+      {showNotes && (
+        <div className="flex items-center gap-2 border-t bg-muted/30 px-3 py-1.5">
+          <ArrowRightLeft className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          <Input
+            value={localNotes}
+            onChange={(e) => setLocalNotes(e.target.value)}
+            onBlur={handleNotesBlur}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            placeholder="e.g., Capo 2, count in at 140, segue from previous..."
+            className="h-7 text-xs border-0 bg-transparent shadow-none focus-visible:ring-0 px-0"
+            autoFocus={!item.transitionNotes}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
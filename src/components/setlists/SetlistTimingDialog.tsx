@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SetlistTimingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  setlistId: Id<"setlists">;
+  /** Current gap between songs, in seconds */
+  songGapSeconds: number;
+  /** Current gap before songs with heavy gear changes, in seconds */
+  gearChangeGapSeconds: number;
+}
+
+export function SetlistTimingDialog({
+  open,
+  onOpenChange,
+  setlistId,
+  songGapSeconds,
+  gearChangeGapSeconds,
+}: SetlistTimingDialogProps) {
+  const [songGap, setSongGap] = useState(songGapSeconds.toString());
+  const [gearChangeGap, setGearChangeGap] = useState(gearChangeGapSeconds.toString());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [wasOpen, setWasOpen] = useState(open);
+
+  const updateSetlist = useMutation(api.setlists.update);
+
+  // Start from the saved values each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setSongGap(songGapSeconds.toString());
+      setGearChangeGap(gearChangeGapSeconds.toString());
+      setError(null);
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const songGapValue = Number(songGap);
+    const gearChangeGapValue = Number(gearChangeGap);
+
+    if (
+      songGap.trim() === "" ||
+      gearChangeGap.trim() === "" ||
+      !Number.isFinite(songGapValue) ||
+      !Number.isFinite(gearChangeGapValue) ||
+      songGapValue < 0 ||
+      gearChangeGapValue < 0
+    ) {
+      setError("Gaps must be zero or more seconds");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await updateSetlist({
+        id: setlistId,
+        songGapSeconds: songGapValue,
+        gearChangeGapSeconds: gearChangeGapValue,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save timing");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Set Timing</DialogTitle>
+            <DialogDescription>
+              Time allowed between songs when estimating the set length.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="song-gap">Between songs (seconds)</Label>
+              <Input
+                id="song-gap"
+                type="number"
+                min={0}
+                value={songGap}
+                onChange={(e) => setSongGap(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="gear-change-gap">After big gear changes (seconds)</Label>
+              <Input
+                id="gear-change-gap"
+                type="number"
+                min={0}
+                value={gearChangeGap}
+                onChange={(e) => setGearChangeGap(e.target.value)}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used instead of the normal gap when the next song needs several
+                pedal, knob, or patch changes.
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
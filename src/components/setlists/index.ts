@@ -0,0 +1,23 @@
+export { SetlistCard, formatSetlistDate } from "./SetlistCard";
+export { CreateSetlistDialog } from "./CreateSetlistDialog";
+export { AddSongToSetlistDialog } from "./AddSongToSetlistDialog";
+export { SetlistItemRow, type SetlistItemData } from "./SetlistItemRow";
+export {
+  GearDeltaDisplay,
+  formatKnobPosition,
+  formatPatch,
+  getInstrumentLabel,
+} from "./GearDeltaDisplay";
+export { SetlistTimingDialog } from "./SetlistTimingDialog";
+export {
+  GigModeSong,
+  formatSongMeta,
+  type GigSectionData,
+} from "./GigModeSong";
+export { ExportSetlistDialog } from "./ExportSetlistDialog";
+export {
+  downloadSetlistPdf,
+  type SetlistPdfData,
+  type SetlistPdfSong,
+  type SetlistPdfOptions,
+} from "./setlistPdf";
@@ -0,0 +1,379 @@
+import type { jsPDF } from "jspdf";
+import type { InstrumentGearDelta, GearPieceDelta } from "../../../convex/gearDelta";
+import { formatKnobPosition, formatPatch, getInstrumentLabel } from "./GearDeltaDisplay";
+import { formatSetlistDate } from "./SetlistCard";
+
+/**
+ * Printable stage setlist and gear cheat sheet
+ *
+ * Drawn client-side with jsPDF: page one is the running order in large type,
+ * followed by optional pages listing the gear changes before each song with
+ * knob positions drawn as dials.
+ */
+
+export interface SetlistPdfSong {
+  title: string;
+  key?: string;
+  mode?: string;
+  tempo?: number;
+  timeSignature?: string;
+  transitionNotes?: string;
+  gearChanges: InstrumentGearDelta[];
+}
+
+export interface SetlistPdfData {
+  name: string;
+  date?: string;
+  venue?: string;
+  songs: SetlistPdfSong[];
+}
+
+export interface SetlistPdfOptions {
+  includeGearSheet: boolean;
+}
+
+// ============ LAYOUT ============
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const MAX_ROW_HEIGHT = 72;
+const MIN_ROW_HEIGHT = 22;
+
+const KNOB_RADIUS = 13;
+const KNOB_SPACING = 50;
+const KNOB_ROW_HEIGHT = 52;
+
+// Dial sweep matches KnobDial: 7 o'clock to 5 o'clock
+const KNOB_START_ANGLE = (-135 * Math.PI) / 180;
+const KNOB_END_ANGLE = (135 * Math.PI) / 180;
+
+// Standard PDF fonts only cover Latin-1, so separators stay in that range
+const SEPARATOR = "  ·  ";
+
+// ============ HELPERS ============
+
+function formatSongMetaLine(song: SetlistPdfSong): string {
+  return [
+    song.key && (song.mode ? `${song.key} ${song.mode}` : song.key),
+    song.tempo && `${song.tempo} BPM`,
+    song.timeSignature,
+  ]
+    .filter(Boolean)
+    .join(SEPARATOR);
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the width at the current font size
+ */
+function fitText(doc: jsPDF, text: string, maxWidth: number): string {
+  if (doc.getTextWidth(text) <= maxWidth) return text;
+
+  let shortened = text;
+  while (shortened.length > 1 && doc.getTextWidth(`${shortened}...`) > maxWidth) {
+    shortened = shortened.slice(0, -1);
+  }
+  return `${shortened.trimEnd()}...`;
+}
+
+function knobPoint(cx: number, cy: number, radius: number, angle: number) {
+  return {
+    x: cx + radius * Math.cos(angle - Math.PI / 2),
+    y: cy + radius * Math.sin(angle - Math.PI / 2),
+  };
+}
+
+function drawArc(
+  doc: jsPDF,
+  cx: number,
+  cy: number,
+  radius: number,
+  fromAngle: number,
+  toAngle: number
+) {
+  const steps = Math.max(2, Math.ceil(((toAngle - fromAngle) * 180) / Math.PI / 6));
+  let previous = knobPoint(cx, cy, radius, fromAngle);
+  for (let i = 1; i <= steps; i++) {
+    const point = knobPoint(cx, cy, radius, fromAngle + ((toAngle - fromAngle) * i) / steps);
+    doc.line(previous.x, previous.y, point.x, point.y);
+    previous = point;
+  }
+}
+
+/**
+ * Draw a knob dial the way KnobDial renders it: grey track, filled value
+ * arc and a dot at the position, with the 0-10 value in the middle
+ */
+function drawKnob(doc: jsPDF, cx: number, cy: number, position: number) {
+  const valueAngle = KNOB_START_ANGLE + position * (KNOB_END_ANGLE - KNOB_START_ANGLE);
+
+  doc.setLineCap("round");
+
+  doc.setDrawColor(215);
+  doc.setLineWidth(2.5);
+  drawArc(doc, cx, cy, KNOB_RADIUS, KNOB_START_ANGLE, KNOB_END_ANGLE);
+
+  doc.setDrawColor(20);
+  if (position > 0) {
+    drawArc(doc, cx, cy, KNOB_RADIUS, KNOB_START_ANGLE, valueAngle);
+  }
+
+  const dot = knobPoint(cx, cy, KNOB_RADIUS, valueAngle);
+  doc.setFillColor(20, 20, 20);
+  doc.circle(dot.x, dot.y, 2.6, "F");
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.setTextColor(20);
+  doc.text(formatKnobPosition(position), cx, cy + 3, { align: "center" });
+}
+
+function describeChange(change: GearPieceDelta): string {
+  const parts: string[] = [];
+  if (change.toggle === "on") parts.push("ON");
+  if (change.toggle === "off") parts.push("OFF");
+  if (change.patchChange && (change.patchChange.to || change.patchChange.toName)) {
+    const to = formatPatch(change.patchChange.to, change.patchChange.toName);
+    const from =
+      change.patchChange.from || change.patchChange.fromName
+        ? `${formatPatch(change.patchChange.from, change.patchChange.fromName)} -> `
+        : "";
+    parts.push(`Patch ${from}${to}`);
+  }
+  return parts.join(SEPARATOR);
+}
+
+// ============ PAGES ============
+
+function drawHeader(doc: jsPDF, data: SetlistPdfData, title?: string): number {
+  let y = MARGIN + 14;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.setTextColor(20);
+  doc.text(fitText(doc, title ?? data.name, CONTENT_WIDTH), MARGIN, y);
+
+  const subtitle = [
+    title ? data.name : undefined,
+    data.date && formatSetlistDate(data.date),
+    data.venue,
+  ]
+    .filter(Boolean)
+    .join(SEPARATOR);
+
+  if (subtitle) {
+    y += 16;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(110);
+    doc.text(fitText(doc, subtitle, CONTENT_WIDTH), MARGIN, y);
+  }
+
+  y += 10;
+  doc.setDrawColor(200);
+  doc.setLineWidth(0.75);
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+
+  return y + 12;
+}
+
+/**
+ * Running order, sized so the whole set fits on one page where possible
+ */
+function drawSetlistPage(doc: jsPDF, data: SetlistPdfData) {
+  let y = drawHeader(doc, data);
+  const bottom = PAGE_HEIGHT - MARGIN;
+
+  const count = Math.max(data.songs.length, 1);
+  const rowHeight = Math.max(MIN_ROW_HEIGHT, Math.min(MAX_ROW_HEIGHT, (bottom - y) / count));
+  const titleSize = Math.max(13, Math.min(40, rowHeight * 0.55));
+  const metaSize = Math.max(9, titleSize * 0.42);
+  const numberWidth = titleSize * 1.3;
+
+  data.songs.forEach((song, index) => {
+    if (y + rowHeight > bottom) {
+      doc.addPage();
+      y = drawHeader(doc, data);
+    }
+
+    const baseline = y + rowHeight / 2 + titleSize * 0.35;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(titleSize * 0.6);
+    doc.setTextColor(140);
+    doc.text(`${index + 1}`, MARGIN + numberWidth - 8, baseline, { align: "right" });
+
+    const meta = formatSongMetaLine(song);
+    let metaWidth = 0;
+    if (meta) {
+      doc.setFontSize(metaSize);
+      doc.setTextColor(90);
+      metaWidth = doc.getTextWidth(meta);
+      doc.text(meta, PAGE_WIDTH - MARGIN, baseline, { align: "right" });
+    }
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(titleSize);
+    doc.setTextColor(0);
+    const titleWidth = CONTENT_WIDTH - numberWidth - (meta ? metaWidth + 16 : 0);
+    doc.text(fitText(doc, song.title, titleWidth), MARGIN + numberWidth, baseline);
+
+    y += rowHeight;
+  });
+}
+
+function knobsPerRow(): number {
+  return Math.floor((CONTENT_WIDTH - 24) / KNOB_SPACING);
+}
+
+function measureChange(change: GearPieceDelta): number {
+  const knobRows = Math.ceil(change.knobChanges.length / knobsPerRow());
+  return 16 + knobRows * KNOB_ROW_HEIGHT;
+}
+
+/**
+ * Gear changes before each song, with target knob positions drawn as dials
+ */
+function drawGearPages(doc: jsPDF, data: SetlistPdfData) {
+  doc.addPage();
+  let y = drawHeader(doc, data, "Gear Changes");
+  const bottom = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = drawHeader(doc, data, "Gear Changes");
+    }
+  };
+
+  const songsWithChanges = data.songs
+    .map((song, index) => ({ song, index }))
+    .filter(({ song }) => song.gearChanges.length > 0);
+
+  if (songsWithChanges.length === 0) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(11);
+    doc.setTextColor(110);
+    doc.text("No gear changes between songs.", MARGIN, y + 12);
+    return;
+  }
+
+  for (const { song, index } of songsWithChanges) {
+    // Keep the song heading with its first change
+    const firstChange = song.gearChanges[0].changes[0];
+    ensureSpace(40 + (firstChange ? measureChange(firstChange) : 0));
+
+    y += 16;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.setTextColor(0);
+    doc.text(fitText(doc, `${index + 1}. ${song.title}`, CONTENT_WIDTH), MARGIN, y);
+
+    if (song.transitionNotes) {
+      y += 13;
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(9);
+      doc.setTextColor(90);
+      doc.text(fitText(doc, song.transitionNotes, CONTENT_WIDTH), MARGIN, y);
+    }
+    y += 6;
+
+    const showInstrumentLabels = song.gearChanges.length > 1;
+
+    for (const { instrument, changes } of song.gearChanges) {
+      if (showInstrumentLabels) {
+        ensureSpace(14 + (changes[0] ? measureChange(changes[0]) : 0));
+        y += 12;
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(8);
+        doc.setTextColor(120);
+        doc.text(getInstrumentLabel(instrument).toUpperCase(), MARGIN + 12, y);
+      }
+
+      for (const change of changes) {
+        ensureSpace(measureChange(change));
+
+        y += 14;
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(10);
+        doc.setTextColor(0);
+        doc.text(change.name, MARGIN + 12, y);
+
+        const description = describeChange(change);
+        if (description) {
+          const nameWidth = doc.getTextWidth(change.name);
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(60);
+          doc.text(
+            fitText(doc, description, CONTENT_WIDTH - 24 - nameWidth),
+            MARGIN + 24 + nameWidth,
+            y
+          );
+        }
+
+        // Knob dials, wrapping onto more rows as needed
+        const perRow = knobsPerRow();
+        change.knobChanges.forEach((knob, knobIndex) => {
+          const column = knobIndex % perRow;
+          if (column === 0) {
+            y += KNOB_ROW_HEIGHT;
+          }
+          const cx = MARGIN + 12 + KNOB_SPACING / 2 + column * KNOB_SPACING;
+          const cy = y - KNOB_ROW_HEIGHT + 20;
+
+          drawKnob(doc, cx, cy, knob.to);
+
+          doc.setFont("helvetica", "normal");
+          doc.setFontSize(7);
+          doc.setTextColor(60);
+          doc.text(fitText(doc, knob.label, KNOB_SPACING - 4), cx, cy + KNOB_RADIUS + 10, {
+            align: "center",
+          });
+          if (knob.from !== undefined) {
+            doc.setTextColor(140);
+            doc.text(`was ${formatKnobPosition(knob.from)}`, cx, cy + KNOB_RADIUS + 18, {
+              align: "center",
+            });
+          }
+        });
+      }
+    }
+
+    y += 8;
+    doc.setDrawColor(230);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  }
+}
+
+// ============ EXPORT ============
+
+function toFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "setlist"}.pdf`;
+}
+
+/**
+ * Build the setlist PDF and trigger a download
+ */
+export async function downloadSetlistPdf(
+  data: SetlistPdfData,
+  options: SetlistPdfOptions
+): Promise<void> {
+  // Loaded on demand so the PDF library stays out of the main bundle
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+
+  drawSetlistPage(doc, data);
+  if (options.includeGearSheet) {
+    drawGearPages(doc, data);
+  }
+
+  doc.save(toFileName(data.name));
+}
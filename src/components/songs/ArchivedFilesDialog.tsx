@@ -65,7 +65,8 @@ export function ArchivedFilesDialog({
       if (result.becamePrimary && result.detected && (
         result.detected.durationSeconds !== undefined ||
         result.detected.tempo !== undefined ||
-        result.detected.key !== undefined
+        result.detected.key !== undefined ||
+        result.detected.mode !== undefined
       )) {
         if (result.songHasNoMetadata) {
           // Auto-apply detected metadata
@@ -74,6 +75,7 @@ export function ArchivedFilesDialog({
             durationSeconds: result.detected.durationSeconds,
             tempo: result.detected.tempo,
             key: result.detected.key,
+            mode: result.detected.mode,
           });
           toast.success("Song metadata updated from restored file");
         } else if (result.hasConflict && onMetadataDetected) {
@@ -22,6 +22,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { INSTRUMENTS } from "@/components/gear";
 
 interface EditFileDialogProps {
   open: boolean;
@@ -31,6 +32,7 @@ interface EditFileDialogProps {
     fileName?: string;
     variantLabel?: string;
     fileType: string;
+    instrument?: string;
   } | null;
   onSuccess?: () => void;
 }
@@ -45,6 +47,9 @@ const FILE_TYPES = [
   { value: "other", label: "Other" },
 ] as const;
 
+// Select value for stems without an instrument tag
+const UNTAGGED = "none";
+
 export function EditFileDialog({
   open,
   onOpenChange,
@@ -54,6 +59,7 @@ export function EditFileDialog({
   const [fileName, setFileName] = useState("");
   const [variantLabel, setVariantLabel] = useState("");
   const [fileType, setFileType] = useState("");
+  const [instrument, setInstrument] = useState(UNTAGGED);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -65,6 +71,7 @@ export function EditFileDialog({
       setFileName(file.fileName || "");
       setVariantLabel(file.variantLabel || "");
       setFileType(file.fileType);
+      setInstrument(file.instrument ?? UNTAGGED);
     }
   }, [file]);
 
@@ -81,6 +88,8 @@ export function EditFileDialog({
         fileName: fileName.trim() || undefined,
         variantLabel: variantLabel.trim() || undefined,
         fileType: fileType || undefined,
+        // Only stems carry an instrument; an empty string clears it
+        instrument: fileType === "stem" && instrument !== UNTAGGED ? instrument : "",
       });
       onOpenChange(false);
       onSuccess?.();
@@ -156,6 +165,30 @@ export function EditFileDialog({
               </Select>
             </div>
 
+            {/* Instrument (stems only) */}
+            {fileType === "stem" && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-instrument">Instrument</Label>
+                <Select
+                  value={instrument}
+                  onValueChange={setInstrument}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="edit-instrument">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNTAGGED}>Untagged</SelectItem>
+                    {INSTRUMENTS.map((inst) => (
+                      <SelectItem key={inst.value} value={inst.value}>
+                        {inst.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {error && <p className="text-sm text-destructive">{error}</p>}
           </div>
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useState, useRef, useImperativeHandle, forwardRef } from "react";
+import { useCallback, useEffect, useState, useRef, useImperativeHandle, forwardRef } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
@@ -10,7 +10,12 @@ import { Progress } from "@/components/ui/progress";
 import { Upload, X, FileAudio, FileVideo, FileText, File } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useFileUpload, detectFileType } from "@/hooks/useFileUpload";
-import { analyzeAudio, isAudioFile } from "@/lib/audio";
+import {
+  analyzeAudio,
+  isAudioFile,
+  isAnalysisAbortError,
+  type AnalysisStage,
+} from "@/lib/audio";
 
 export interface MetadataUpdateInfo {
   songId: Id<"songs">;
@@ -20,11 +25,14 @@ export interface MetadataUpdateInfo {
     durationSeconds?: number;
     tempo?: number;
     key?: string;
+    mode?: string;
+    analysisConfidence?: number;
   };
   current: {
     durationSeconds?: number;
     tempo?: number;
     key?: string;
+    mode?: string;
   };
 }
 
@@ -42,6 +50,15 @@ interface FileUploadDropzoneProps {
   onMetadataDetected?: (info: MetadataUpdateInfo) => void;
 }
 
+const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  decoding: "Decoding audio...",
+  peaks: "Building waveform...",
+  loudness: "Measuring loudness...",
+  tempo: "Detecting tempo...",
+  key: "Detecting key...",
+  structure: "Finding sections...",
+};
+
 export interface FileUploadDropzoneRef {
   openFilePicker: () => void;
 }
@@ -58,12 +75,25 @@ export const FileUploadDropzone = forwardRef<FileUploadDropzoneRef, FileUploadDr
   }, ref) {
   const [isDragging, setIsDragging] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<{
+    stage: AnalysisStage;
+    progress: number;
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Lets analysis be cancelled from the UI or when the page unmounts
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const { isUploading, progress, error, upload, reset } = useFileUpload();
   const saveSongFile = useMutation(api.files.saveSongFile);
   const saveAudioAnalysis = useMutation(api.waveform.saveSongFileAnalysis);
+  const saveSectionDrafts = useMutation(api.sectionDrafts.saveFromAnalysis);
+  const savePeakLevels = useMutation(api.waveform.saveSongFilePeakLevels);
   const applySongMetadata = useMutation(api.waveform.applySongMetadata);
 
+  // Stop any running analysis when navigating away
+  useEffect(() => {
+    return () => analysisAbortRef.current?.abort();
+  }, []);
+
   // Expose methods to parent via ref
   useImperativeHandle(ref, () => ({
     openFilePicker: () => fileInputRef.current?.click(),
@@ -92,23 +122,44 @@ export const FileUploadDropzone = forwardRef<FileUploadDropzoneRef, FileUploadDr
 
         // If it's an audio file, analyze it in the background for waveform visualization
         if (isAudioFile(result.mimeType) && fileType === "audio") {
+          const controller = new AbortController();
+          analysisAbortRef.current = controller;
           setIsAnalyzing(true);
           try {
-            const analysis = await analyzeAudio(file);
+            const analysis = await analyzeAudio(file, {
+              signal: controller.signal,
+              onProgress: (stage, progress) => setAnalysisProgress({ stage, progress }),
+            });
             const analysisResult = await saveAudioAnalysis({
               fileId: saveResult.fileId,
               waveformPeaks: analysis.waveformPeaks,
               durationSeconds: analysis.durationSeconds,
               detectedTempo: analysis.detectedTempo,
               detectedKey: analysis.detectedKey,
+              detectedMode: analysis.detectedMode,
               analysisConfidence: analysis.analysisConfidence,
+              integratedLoudness: analysis.integratedLoudness,
+              truePeak: analysis.truePeak,
+              crestFactor: analysis.crestFactor,
+              clippedRuns: analysis.clippedRuns,
+            });
+            await savePeakLevels({
+              fileId: saveResult.fileId,
+              levels: analysis.peakLevels,
             });
+            if (analysisResult.isPrimary && analysis.structureSegments.length > 0) {
+              await saveSectionDrafts({
+                fileId: saveResult.fileId,
+                segments: analysis.structureSegments,
+              });
+            }
 
             // If this is a primary audio file and has metadata to potentially update
             if (analysisResult.isPrimary && (
               analysisResult.detected.durationSeconds !== undefined ||
               analysisResult.detected.tempo !== undefined ||
-              analysisResult.detected.key !== undefined
+              analysisResult.detected.key !== undefined ||
+              analysisResult.detected.mode !== undefined
             )) {
               // Auto-apply if song has no metadata, otherwise show confirmation dialog
               if (analysisResult.songHasNoMetadata) {
@@ -118,6 +169,7 @@ export const FileUploadDropzone = forwardRef<FileUploadDropzoneRef, FileUploadDr
                   durationSeconds: analysisResult.detected.durationSeconds,
                   tempo: analysisResult.detected.tempo,
                   key: analysisResult.detected.key,
+                  mode: analysisResult.detected.mode,
                 });
               } else if (analysisResult.hasConflict) {
                 // Show confirmation dialog
@@ -126,9 +178,13 @@ export const FileUploadDropzone = forwardRef<FileUploadDropzoneRef, FileUploadDr
             }
           } catch (analysisErr) {
             // Don't fail the upload if analysis fails - just log it
-            console.warn("Audio analysis failed:", analysisErr);
+            if (!isAnalysisAbortError(analysisErr)) {
+              console.warn("Audio analysis failed:", analysisErr);
+            }
           } finally {
+            analysisAbortRef.current = null;
             setIsAnalyzing(false);
+            setAnalysisProgress(null);
           }
         }
       } catch (err) {
@@ -137,7 +193,7 @@ export const FileUploadDropzone = forwardRef<FileUploadDropzoneRef, FileUploadDr
         reset();
       }
     },
-    [upload, saveSongFile, saveAudioAnalysis, applySongMetadata, songId, onSuccess, onError, onMetadataDetected, error, reset]
+    [upload, saveSongFile, saveAudioAnalysis, savePeakLevels, saveSectionDrafts, applySongMetadata, songId, onSuccess, onError, onMetadataDetected, error, reset]
   );
 
   const handleDrop = useCallback(
@@ -185,26 +241,26 @@ export const FileUploadDropzone = forwardRef<FileUploadDropzoneRef, FileUploadDr
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">
-              {isUploading ? "Uploading..." : "Analyzing audio..."}
+              {isUploading
+                ? "Uploading..."
+                : analysisProgress
+                  ? ANALYSIS_STAGE_LABELS[analysisProgress.stage]
+                  : "Analyzing audio..."}
+            </span>
+            <span className="text-sm font-medium">
+              {isUploading ? progress : Math.round((analysisProgress?.progress ?? 0) * 100)}%
             </span>
-            {isUploading && <span className="text-sm font-medium">{progress}%</span>}
           </div>
-          {isUploading ? (
-            <Progress value={progress} />
-          ) : (
-            <Progress value={100} className="animate-pulse" />
-          )}
-          {isUploading && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={reset}
-              className="w-full"
-            >
-              <X className="h-4 w-4 mr-2" />
-              Cancel
-            </Button>
-          )}
+          <Progress value={isUploading ? progress : (analysisProgress?.progress ?? 0) * 100} />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={isUploading ? reset : () => analysisAbortRef.current?.abort()}
+            className="w-full"
+          >
+            <X className="h-4 w-4 mr-2" />
+            {isUploading ? "Cancel" : "Skip Analysis"}
+          </Button>
         </div>
       </Card>
     );
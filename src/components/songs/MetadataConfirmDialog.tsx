@@ -19,6 +19,9 @@ interface MetadataValues {
   durationSeconds?: number;
   tempo?: number;
   key?: string;
+  mode?: string;
+  /** Confidence of the tempo/key estimate (0-1) */
+  analysisConfidence?: number;
 }
 
 interface MetadataConfirmDialogProps {
@@ -53,6 +56,7 @@ export function MetadataConfirmDialog({
         durationSeconds: detected.durationSeconds,
         tempo: detected.tempo,
         key: detected.key,
+        mode: detected.mode,
       });
       onOpenChange(false);
       onSuccess?.();
@@ -67,7 +71,11 @@ export function MetadataConfirmDialog({
   };
 
   // Build diff rows
-  const diffs: { label: string; current: string; detected: string }[] = [];
+  const diffs: { label: string; current: string; detected: string; note?: string }[] = [];
+  const confidenceNote =
+    detected.analysisConfidence !== undefined
+      ? `${Math.round(detected.analysisConfidence * 100)}% confidence`
+      : undefined;
 
   if (detected.durationSeconds !== undefined) {
     diffs.push({
@@ -82,6 +90,7 @@ export function MetadataConfirmDialog({
       label: "Tempo",
       current: current.tempo !== undefined ? `${current.tempo} BPM` : "—",
       detected: `${detected.tempo} BPM`,
+      note: confidenceNote,
     });
   }
 
@@ -90,6 +99,15 @@ export function MetadataConfirmDialog({
       label: "Key",
       current: current.key ?? "—",
       detected: detected.key,
+      note: confidenceNote,
+    });
+  }
+
+  if (detected.mode !== undefined) {
+    diffs.push({
+      label: "Mode",
+      current: current.mode ?? "—",
+      detected: detected.mode,
     });
   }
 
@@ -126,6 +144,9 @@ export function MetadataConfirmDialog({
                     <span className="text-green-600 dark:text-green-400 font-medium">
                       {diff.detected}
                     </span>
+                    {diff.note && (
+                      <span className="ml-2 text-xs text-muted-foreground">{diff.note}</span>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -0,0 +1,186 @@
+"use client";
+
+import { forwardRef, useCallback, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  WaveformPlayer,
+  type WaveformLoop,
+  type WaveformMarker,
+  type WaveformPlayerRef,
+} from "@/components/audio";
+import { decodePeakLevel, formatDuration, getPeakLevelForWidth } from "@/lib/audio";
+import { Bookmark, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface SongFileWaveformProps {
+  fileId: Id<"songFiles">;
+  audioUrl: string;
+  /** Stored 200-value overview, shown until a finer level loads */
+  peaks?: number[];
+  duration?: number;
+  onPlayStateChange?: (isPlaying: boolean) => void;
+  onTimeUpdate?: (time: number) => void;
+  markers?: WaveformMarker[];
+  onMarkerMove?: (id: string, time: number) => void;
+  className?: string;
+}
+
+/**
+ * Zoomable, loopable waveform for a song file
+ *
+ * Starts from the overview peaks and fetches finer levels of the stored
+ * peak pyramid as the player zooms in. Resolution only ever goes up, so
+ * zooming back out doesn't refetch. Loops can be saved per file and
+ * recalled with one click.
+ */
+export const SongFileWaveform = forwardRef<WaveformPlayerRef, SongFileWaveformProps>(
+  function SongFileWaveform({
+    fileId,
+    audioUrl,
+    peaks,
+    duration,
+    onPlayStateChange,
+    onTimeUpdate,
+    markers,
+    onMarkerMove,
+    className,
+  }, ref) {
+    const playerRef = useRef<WaveformPlayerRef | null>(null);
+    const [bucketCount, setBucketCount] = useState<number | null>(null);
+    const [currentLoop, setCurrentLoop] = useState<WaveformLoop | null>(null);
+    const [loopName, setLoopName] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    const level = useQuery(
+      api.waveform.getSongFilePeakLevel,
+      bucketCount !== null ? { fileId, bucketCount } : "skip"
+    );
+    const savedLoops = useQuery(api.practiceLoops.listByFile, { fileId });
+    const createLoop = useMutation(api.practiceLoops.create);
+    const removeLoop = useMutation(api.practiceLoops.remove);
+
+    const detailPeaks = useMemo(() => (level ? decodePeakLevel(level) : undefined), [level]);
+
+    // Keep a handle for recalling loops while still forwarding the parent's ref
+    const setPlayerRef = useCallback((player: WaveformPlayerRef | null) => {
+      playerRef.current = player;
+      if (typeof ref === "function") {
+        ref(player);
+      } else if (ref) {
+        ref.current = player;
+      }
+    }, [ref]);
+
+    const handleZoom = useCallback((waveformWidth: number) => {
+      const needed = getPeakLevelForWidth(waveformWidth);
+      setBucketCount((prev) => (prev === null || needed > prev ? needed : prev));
+    }, []);
+
+    const handleSaveLoop = async () => {
+      if (!currentLoop || isSaving) return;
+      setIsSaving(true);
+      try {
+        await createLoop({
+          fileId,
+          name: loopName.trim() || `Loop at ${formatDuration(currentLoop.start)}`,
+          startSeconds: currentLoop.start,
+          endSeconds: currentLoop.end,
+          playbackRate: playerRef.current?.getPlaybackRate(),
+        });
+        setLoopName("");
+        toast.success("Loop saved");
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to save loop");
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    const handleRemoveLoop = async (id: Id<"practiceLoops">) => {
+      try {
+        await removeLoop({ id });
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to delete loop");
+      }
+    };
+
+    return (
+      <div className={className}>
+        <WaveformPlayer
+          ref={setPlayerRef}
+          audioUrl={audioUrl}
+          peaks={peaks}
+          duration={duration}
+          detailPeaks={detailPeaks}
+          onZoom={handleZoom}
+          onPlayStateChange={onPlayStateChange}
+          onTimeUpdate={onTimeUpdate}
+          markers={markers}
+          onMarkerMove={onMarkerMove}
+          onLoopChange={setCurrentLoop}
+          zoomable
+          loopable
+        />
+
+        {(currentLoop || (savedLoops && savedLoops.length > 0)) && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            {savedLoops?.map((loop) => (
+              <div key={loop._id} className="flex items-center rounded-md border bg-background">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 rounded-r-none"
+                  onClick={() =>
+                    playerRef.current?.setLoop(
+                      { start: loop.startSeconds, end: loop.endSeconds },
+                      loop.playbackRate
+                    )
+                  }
+                >
+                  <Bookmark className="h-3.5 w-3.5" />
+                  {loop.name}
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {formatDuration(loop.startSeconds)}–{formatDuration(loop.endSeconds)}
+                    {loop.playbackRate !== undefined && loop.playbackRate < 1 &&
+                      ` · ${Math.round(loop.playbackRate * 100)}%`}
+                  </span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 rounded-l-none"
+                  title="Delete loop"
+                  onClick={() => handleRemoveLoop(loop._id)}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+
+            {currentLoop && (
+              <div className="flex items-center gap-2">
+                <Input
+                  value={loopName}
+                  onChange={(e) => setLoopName(e.target.value)}
+                  placeholder="Name this loop, e.g. Solo"
+                  maxLength={60}
+                  className="h-7 w-48 text-sm"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSaveLoop();
+                  }}
+                />
+                <Button size="sm" className="h-7" onClick={handleSaveLoop} disabled={isSaving}>
+                  Save Loop
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
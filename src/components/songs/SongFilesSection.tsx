@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo, forwardRef, useImperativeHandle } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
@@ -33,22 +33,44 @@ import {
   ChevronUp,
   Archive,
   FileAudio,
+  SlidersHorizontal,
 } from "lucide-react";
 import { FileUploadDropzone, FileTypeIcon, FileUploadDropzoneRef, MetadataUpdateInfo } from "./FileUploadDropzone";
 import { ExternalUrlDialog } from "./ExternalUrlDialog";
 import { EditFileDialog } from "./EditFileDialog";
 import { MetadataConfirmDialog } from "./MetadataConfirmDialog";
 import { ArchivedFilesDialog } from "./ArchivedFilesDialog";
-import { WaveformPlayer, type WaveformPlayerRef } from "@/components/audio";
+import { SongFileWaveform } from "./SongFileWaveform";
+import { StemMixer, type MixerStem } from "./StemMixer";
+import {
+  LoudnessReport,
+  type WaveformMarker,
+  type WaveformPlayerRef,
+} from "@/components/audio";
+import { INSTRUMENTS } from "@/components/gear";
 import { formatFileSize } from "@/hooks/useFileUpload";
+import { recordPracticeSong } from "@/hooks/usePracticeTimer";
 import { formatDuration } from "@/lib/audio";
 import { toast } from "sonner";
 
 interface SongFilesSectionProps {
   songId: Id<"songs">;
-  compact?: boolean;
+  /** Playback position of the primary audio while it plays (null when stopped) */
+  onPrimaryPlayheadChange?: (seconds: number | null) => void;
+}
+
+export interface SongFilesSectionRef {
+  /** Open the primary audio player and play from the given time */
+  playPrimaryFrom: (seconds: number) => void;
+  /** Current position of the primary audio, or null if its player isn't open */
+  getPrimaryTime: () => number | null;
 }
 
+// Section timing markers on the primary audio
+const SECTION_START_COLOR = "rgb(16, 185, 129)"; // emerald-500
+const SECTION_END_COLOR = "rgb(148, 163, 184)"; // slate-400
+const MIN_SECTION_SECONDS = 0.5;
+
 // File type display labels
 const FILE_TYPE_LABELS: Record<string, string> = {
   audio: "Audio",
@@ -77,14 +99,17 @@ interface EditableFile {
   fileName?: string;
   variantLabel?: string;
   fileType: string;
+  instrument?: string;
 }
 
-export function SongFilesSection({ songId, compact = false }: SongFilesSectionProps) {
+export const SongFilesSection = forwardRef<SongFilesSectionRef, SongFilesSectionProps>(
+  function SongFilesSection({ songId, onPrimaryPlayheadChange }, ref) {
   const [showExternalDialog, setShowExternalDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingFile, setEditingFile] = useState<EditableFile | null>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [expandedAudioId, setExpandedAudioId] = useState<Id<"songFiles"> | null>(null);
+  const [showStemMixer, setShowStemMixer] = useState(false);
   const [playingFileId, setPlayingFileId] = useState<Id<"songFiles"> | null>(null);
   const [showMetadataDialog, setShowMetadataDialog] = useState(false);
   const [metadataUpdate, setMetadataUpdate] = useState<MetadataUpdateInfo | null>(null);
@@ -97,9 +122,135 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
   const setPrimary = useMutation(api.files.setPrimary);
   const deleteFile = useMutation(api.files.softDelete);
   const applySongMetadata = useMutation(api.waveform.applySongMetadata);
+  const sections = useQuery(api.songSections.listBySong, { songId });
+  // Optimistic so dragged markers stay where they were dropped
+  const setSectionTiming = useMutation(api.songSections.setTiming).withOptimisticUpdate(
+    (localStore, args) => {
+      const current = localStore.getQuery(api.songSections.listBySong, { songId });
+      if (!current) return;
+      localStore.setQuery(
+        api.songSections.listBySong,
+        { songId },
+        current.map((section) =>
+          section._id === args.id
+            ? { ...section, startSeconds: args.startSeconds, endSeconds: args.endSeconds }
+            : section
+        )
+      );
+    }
+  );
+
+  const primaryAudio = files?.find(
+    (file) => file.isPrimary && file.fileType === "audio" && file.storageId && file.url
+  );
+
+  const mixerStems = useMemo<MixerStem[]>(
+    () =>
+      (files ?? [])
+        .filter((file) => file.fileType === "stem" && file.storageId && file.url)
+        .map((file) => ({
+          id: file._id,
+          name: file.variantLabel || file.fileName || "Stem",
+          url: file.url!,
+          instrument: file.instrument,
+        })),
+    [files]
+  );
+  // The mixer decodes its stems once, so it remounts when the set changes
+  const mixerKey = mixerStems.map((stem) => stem.id).join(",");
+
+  const toggleStemMixer = () => {
+    // Don't play a file over the mix
+    if (!showStemMixer && playingFileId) {
+      waveformRefs.current.get(playingFileId)?.pause();
+    }
+    setShowStemMixer(!showStemMixer);
+  };
+
+  // Start (and end, when set) of every timed section, draggable to adjust
+  const sectionMarkers = useMemo<WaveformMarker[]>(() => {
+    if (!sections) return [];
+    const markers: WaveformMarker[] = [];
+    for (const section of sections) {
+      if (section.startSeconds === undefined) continue;
+      const instrument = INSTRUMENTS.find((inst) => inst.value === section.instrument);
+      const label = instrument ? `${section.name} (${instrument.label})` : section.name;
+      markers.push({
+        id: `${section._id}:start`,
+        time: section.startSeconds,
+        label,
+        color: SECTION_START_COLOR,
+        draggable: true,
+      });
+      if (section.endSeconds !== undefined) {
+        markers.push({
+          id: `${section._id}:end`,
+          time: section.endSeconds,
+          label: `End of ${label}`,
+          color: SECTION_END_COLOR,
+          draggable: true,
+        });
+      }
+    }
+    return markers;
+  }, [sections]);
+
+  const handleSectionMarkerMove = useCallback(async (markerId: string, time: number) => {
+    const [sectionId, edge] = markerId.split(":");
+    const section = sections?.find((s) => s._id === sectionId);
+    if (!section || section.startSeconds === undefined) return;
+
+    const rounded = Math.round(time * 100) / 100;
+    let { startSeconds, endSeconds } = section;
+    if (edge === "start") {
+      startSeconds = Math.max(
+        0,
+        endSeconds !== undefined ? Math.min(rounded, endSeconds - MIN_SECTION_SECONDS) : rounded
+      );
+    } else {
+      endSeconds = Math.max(rounded, startSeconds + MIN_SECTION_SECONDS);
+    }
+
+    try {
+      await setSectionTiming({ id: section._id, startSeconds, endSeconds });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to move section");
+    }
+  }, [sections, setSectionTiming]);
+
+  // Only reported while playing, in quarter seconds to keep re-renders down
+  const handlePrimaryTimeUpdate = useCallback((time: number) => {
+    if (primaryAudio && playingFileId === primaryAudio._id) {
+      onPrimaryPlayheadChange?.(Math.floor(time * 4) / 4);
+    }
+  }, [primaryAudio, playingFileId, onPrimaryPlayheadChange]);
+
+  useImperativeHandle(ref, () => ({
+    playPrimaryFrom: (seconds: number) => {
+      if (!primaryAudio) return;
+      const playFrom = () => {
+        const player = waveformRefs.current.get(primaryAudio._id);
+        player?.seekTo(seconds);
+        player?.play();
+      };
+      if (expandedAudioId === primaryAudio._id) {
+        playFrom();
+      } else {
+        // Expand first, then play after a short delay for WaveSurfer to initialize
+        setExpandedAudioId(primaryAudio._id);
+        setTimeout(playFrom, 100);
+      }
+    },
+    getPrimaryTime: () => {
+      if (!primaryAudio) return null;
+      return waveformRefs.current.get(primaryAudio._id)?.getCurrentTime() ?? null;
+    },
+  }), [primaryAudio, expandedAudioId]);
 
   // Toggle audio player expansion (without auto-playing)
   const toggleAudioExpanded = useCallback((fileId: Id<"songFiles">) => {
+    // Collapsing or switching players stops the primary audio
+    onPrimaryPlayheadChange?.(null);
     setExpandedAudioId((prev) => {
       // If collapsing, clear the playing state since WaveformPlayer will unmount
       if (prev === fileId) {
@@ -108,7 +259,7 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
       }
       return fileId;
     });
-  }, []);
+  }, [onPrimaryPlayheadChange]);
 
   // Handle play button click - expand if needed and trigger play
   const handlePlayClick = useCallback((fileId: Id<"songFiles">, e: React.MouseEvent) => {
@@ -125,17 +276,23 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
       }
     } else {
       // Expand first, then play after a short delay for WaveSurfer to initialize
+      onPrimaryPlayheadChange?.(null);
       setExpandedAudioId(fileId);
       setTimeout(() => {
         waveformRefs.current.get(fileId)?.play();
       }, 100);
     }
-  }, [expandedAudioId]);
+  }, [expandedAudioId, onPrimaryPlayheadChange]);
 
   // Handle play state changes from WaveformPlayer
   const handlePlayStateChange = useCallback((fileId: Id<"songFiles">, isPlaying: boolean) => {
     setPlayingFileId(isPlaying ? fileId : null);
-  }, []);
+    if (isPlaying) {
+      recordPracticeSong(songId);
+    } else if (fileId === primaryAudio?._id) {
+      onPrimaryPlayheadChange?.(null);
+    }
+  }, [songId, primaryAudio, onPrimaryPlayheadChange]);
 
   const isLoading = files === undefined;
   const hasFiles = files && files.length > 0;
@@ -199,7 +356,8 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
       if (result.detected && (
         result.detected.durationSeconds !== undefined ||
         result.detected.tempo !== undefined ||
-        result.detected.key !== undefined
+        result.detected.key !== undefined ||
+        result.detected.mode !== undefined
       )) {
         if (result.songHasNoMetadata) {
           // Auto-apply detected metadata
@@ -208,6 +366,7 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
             durationSeconds: result.detected.durationSeconds,
             tempo: result.detected.tempo,
             key: result.detected.key,
+            mode: result.detected.mode,
           });
           toast.success("Song metadata updated from audio");
         } else if (result.hasConflict) {
@@ -235,7 +394,8 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
       if (result.newPrimaryFileId && result.detected && (
         result.detected.durationSeconds !== undefined ||
         result.detected.tempo !== undefined ||
-        result.detected.key !== undefined
+        result.detected.key !== undefined ||
+        result.detected.mode !== undefined
       )) {
         if (result.songHasNoMetadata) {
           // Auto-apply detected metadata
@@ -244,6 +404,7 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
             durationSeconds: result.detected.durationSeconds,
             tempo: result.detected.tempo,
             key: result.detected.key,
+            mode: result.detected.mode,
           });
           toast.success("Song metadata updated from new primary");
         } else if (result.hasConflict) {
@@ -344,6 +505,7 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
               const isAudio = file.fileType === "audio" && file.storageId && file.url;
               const isExpanded = expandedAudioId === file._id;
               const isPlaying = playingFileId === file._id;
+              const isPrimaryAudio = file._id === primaryAudio?._id;
               // Determine clickable URL for non-audio files
               const clickableUrl = !isAudio ? (file.externalUrl || file.url) : null;
 
@@ -518,7 +680,18 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
                   {/* Waveform player - shown when expanded */}
                   {isAudio && isExpanded && file.url && (
                     <div className="px-3 pb-3 border-t bg-muted/30">
-                      <WaveformPlayer
+                      <LoudnessReport
+                        integratedLoudness={file.integratedLoudness}
+                        truePeak={file.truePeak}
+                        crestFactor={file.crestFactor}
+                        clippedRuns={file.clippedRuns}
+                        referenceLoudness={
+                          isPrimaryAudio ? undefined : primaryAudio?.integratedLoudness
+                        }
+                        referenceLabel="the primary track"
+                        className="pt-3"
+                      />
+                      <SongFileWaveform
                         ref={(ref) => {
                           if (ref) {
                             waveformRefs.current.set(file._id, ref);
@@ -526,9 +699,14 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
                             waveformRefs.current.delete(file._id);
                           }
                         }}
+                        fileId={file._id}
                         audioUrl={file.url}
                         peaks={file.waveformPeaks}
+                        duration={file.durationSeconds}
                         onPlayStateChange={(playing) => handlePlayStateChange(file._id, playing)}
+                        markers={isPrimaryAudio ? sectionMarkers : undefined}
+                        onMarkerMove={isPrimaryAudio ? handleSectionMarkerMove : undefined}
+                        onTimeUpdate={isPrimaryAudio ? handlePrimaryTimeUpdate : undefined}
                         className="pt-3"
                       />
                     </div>
@@ -539,6 +717,33 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
           </div>
         ) : null}
 
+        {/* Stem mixer - all stems played in sync */}
+        {mixerStems.length > 0 && (
+          <div className="rounded-lg border">
+            <button
+              type="button"
+              className="flex w-full items-center justify-between p-3 text-sm font-medium"
+              onClick={toggleStemMixer}
+            >
+              <span className="flex items-center gap-2">
+                <SlidersHorizontal className="h-4 w-4" />
+                Stem Mixer
+                <span className="font-normal text-muted-foreground">
+                  {mixerStems.length} {mixerStems.length === 1 ? "stem" : "stems"}
+                </span>
+              </span>
+              {showStemMixer ? (
+                <ChevronUp className="h-4 w-4" />
+              ) : (
+                <ChevronDown className="h-4 w-4" />
+              )}
+            </button>
+            {showStemMixer && (
+              <StemMixer key={mixerKey} songId={songId} stems={mixerStems} className="border-t px-3 py-3" />
+            )}
+          </div>
+        )}
+
         {/* Upload dropzone - shown as overlay when dragging over files, normal when no files */}
         <FileUploadDropzone
           ref={dropzoneRef}
@@ -589,4 +794,4 @@ export function SongFilesSection({ songId, compact = false }: SongFilesSectionPr
       </CardContent>
     </Card>
   );
-}
+});
@@ -0,0 +1,449 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Play, Pause, SkipBack, Loader2, Volume2, Download } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import { INSTRUMENTS } from "@/components/gear";
+import {
+  DEFAULT_STEM_SETTINGS,
+  StemMixer as StemMixerEngine,
+  analyzeAudio,
+  encodeWav,
+  formatDuration,
+  isAnalysisAbortError,
+  type StemChannelSettings,
+} from "@/lib/audio";
+
+// Bars in the master waveform
+const MASTER_PEAKS = 200;
+
+// Select value for stems without an instrument tag
+const UNTAGGED = "none";
+
+export interface MixerStem {
+  id: Id<"songFiles">;
+  name: string;
+  url: string;
+  /** Part the stem carries, from INSTRUMENTS */
+  instrument?: string;
+}
+
+interface StemMixerProps {
+  songId: Id<"songs">;
+  /** Remount (via key) when the stem list changes; stems load once on mount */
+  stems: MixerStem[];
+  className?: string;
+}
+
+function formatPan(pan: number): string {
+  if (Math.abs(pan) < 0.05) return "C";
+  return `${pan < 0 ? "L" : "R"}${Math.round(Math.abs(pan) * 100)}`;
+}
+
+/**
+ * Play all of a song's stems together with per-stem mute, solo, volume and pan
+ *
+ * Stems tagged with an instrument enable one-click "minus my part" mixes,
+ * which can be rendered to WAV and saved as a new file for the song.
+ */
+export function StemMixer({ songId, stems, className }: StemMixerProps) {
+  const engineRef = useRef<StemMixerEngine | null>(null);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [masterPeaks, setMasterPeaks] = useState<number[]>([]);
+  const [masterVolume, setMasterVolume] = useState(1);
+  const [settings, setSettings] = useState<Record<string, StemChannelSettings>>(() =>
+    Object.fromEntries(stems.map((stem) => [stem.id, { ...DEFAULT_STEM_SETTINGS }]))
+  );
+  const [minusInstrument, setMinusInstrument] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  // Lets analysis of a saved mix be cancelled when the page unmounts
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  const { upload } = useFileUpload();
+  const updateFile = useMutation(api.files.updateMetadata);
+  const saveSongFile = useMutation(api.files.saveSongFile);
+  const saveAudioAnalysis = useMutation(api.waveform.saveSongFileAnalysis);
+  const savePeakLevels = useMutation(api.waveform.saveSongFilePeakLevels);
+
+  // Load every stem once; the parent remounts this component when stems change
+  const stemsRef = useRef(stems);
+  useEffect(() => {
+    const engine = new StemMixerEngine();
+    const controller = new AbortController();
+    engineRef.current = engine;
+
+    engine.onEnded = () => {
+      setIsPlaying(false);
+      setCurrentTime(engine.duration);
+    };
+
+    engine
+      .load(stemsRef.current, {
+        numPeaks: MASTER_PEAKS,
+        signal: controller.signal,
+        onProgress: (loaded, total) => setLoadProgress(loaded / total),
+      })
+      .then(() => {
+        setDuration(engine.duration);
+        setMasterPeaks(engine.getMasterPeaks());
+        setIsLoaded(true);
+      })
+      .catch((err) => {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        console.error("Stem loading failed:", err);
+        setError(err instanceof Error ? err.message : "Failed to load stems");
+      });
+
+    return () => {
+      controller.abort();
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  // Stop any running analysis when navigating away
+  useEffect(() => {
+    return () => analysisAbortRef.current?.abort();
+  }, []);
+
+  // Follow the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      setCurrentTime(engineRef.current?.getCurrentTime() ?? 0);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const togglePlay = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (engine.isPlaying()) {
+      engine.pause();
+      setIsPlaying(false);
+    } else {
+      engine.play();
+      setIsPlaying(true);
+    }
+  };
+
+  const seek = (seconds: number) => {
+    engineRef.current?.seek(seconds);
+    setCurrentTime(seconds);
+  };
+
+  const updateStem = (id: string, update: Partial<StemChannelSettings>) => {
+    const engine = engineRef.current;
+    engine?.updateStem(id, update);
+    setSettings((prev) => ({ ...prev, [id]: { ...prev[id], ...update } }));
+    if (engine) setMasterPeaks(engine.getMasterPeaks());
+  };
+
+  // Mute every stem of one instrument (and nothing else), or undo it
+  const toggleMinus = (instrument: string) => {
+    const next = minusInstrument === instrument ? null : instrument;
+    const nextSettings = { ...settings };
+    for (const stem of stems) {
+      const update = { muted: next !== null && stem.instrument === next, soloed: false };
+      engineRef.current?.updateStem(stem.id, update);
+      nextSettings[stem.id] = { ...nextSettings[stem.id], ...update };
+    }
+    setSettings(nextSettings);
+    setMinusInstrument(next);
+    if (engineRef.current) setMasterPeaks(engineRef.current.getMasterPeaks());
+  };
+
+  const handleTagInstrument = async (stemId: Id<"songFiles">, value: string) => {
+    try {
+      await updateFile({ id: stemId, instrument: value === UNTAGGED ? "" : value });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to tag stem");
+    }
+  };
+
+  // Render the current mix and add it to the song's files
+  const handleSaveMix = async () => {
+    const engine = engineRef.current;
+    const instrument = INSTRUMENTS.find((inst) => inst.value === minusInstrument);
+    if (!engine || !instrument || isRendering) return;
+
+    const variantLabel = `Minus ${instrument.label.toLowerCase()}`;
+    setIsRendering(true);
+    try {
+      const rendered = await engine.renderMix();
+      const file = new File([encodeWav(rendered)], `minus-${instrument.value}.wav`, {
+        type: "audio/wav",
+      });
+
+      const result = await upload(file);
+      if (!result) {
+        throw new Error("Failed to upload the mix");
+      }
+      const { fileId } = await saveSongFile({
+        songId,
+        storageId: result.storageId,
+        fileType: "audio",
+        fileName: result.fileName,
+        fileSize: result.fileSize,
+        mimeType: result.mimeType,
+        variantLabel,
+      });
+      toast.success(`Saved "${variantLabel}"`);
+
+      // Waveform and levels, as for any uploaded audio
+      try {
+        const controller = new AbortController();
+        analysisAbortRef.current = controller;
+        // A mix of the song's own stems has its tempo and key, so skip detecting them
+        const analysis = await analyzeAudio(file, {
+          signal: controller.signal,
+          skipMusicalFeatures: true,
+        });
+        await saveAudioAnalysis({
+          fileId,
+          waveformPeaks: analysis.waveformPeaks,
+          durationSeconds: analysis.durationSeconds,
+          integratedLoudness: analysis.integratedLoudness,
+          truePeak: analysis.truePeak,
+          crestFactor: analysis.crestFactor,
+          clippedRuns: analysis.clippedRuns,
+        });
+        await savePeakLevels({ fileId, levels: analysis.peakLevels });
+      } catch (analysisErr) {
+        if (!isAnalysisAbortError(analysisErr)) {
+          console.warn("Audio analysis failed:", analysisErr);
+        }
+      } finally {
+        analysisAbortRef.current = null;
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save the mix");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleMasterVolume = (volume: number) => {
+    engineRef.current?.setMasterVolume(volume);
+    setMasterVolume(volume);
+  };
+
+  const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isLoaded || duration === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  if (error) {
+    return (
+      <div className={cn("text-sm text-destructive", className)}>
+        {error}
+      </div>
+    );
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className={cn("space-y-2", className)}>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading {stems.length} {stems.length === 1 ? "stem" : "stems"}...
+        </div>
+        <Progress value={loadProgress * 100} className="h-1" />
+      </div>
+    );
+  }
+
+  const anySoloed = Object.values(settings).some((s) => s.soloed);
+  const progress = duration > 0 ? currentTime / duration : 0;
+  const taggedInstruments = INSTRUMENTS.filter((inst) =>
+    stems.some((stem) => stem.instrument === inst.value)
+  );
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {/* Master waveform of the current mix */}
+      <div
+        className="flex h-16 cursor-pointer items-center gap-px"
+        onClick={handleWaveformClick}
+        role="slider"
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+      >
+        {masterPeaks.map((peak, i) => (
+          <div
+            key={i}
+            className={cn(
+              "flex-1 rounded-sm",
+              (i + 0.5) / masterPeaks.length <= progress ? "bg-primary" : "bg-muted-foreground/40"
+            )}
+            style={{ height: `${Math.max(2, peak * 100)}%` }}
+          />
+        ))}
+      </div>
+
+      {/* Transport */}
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={togglePlay}>
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => seek(0)}>
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <span className="font-mono text-xs text-muted-foreground">
+          {formatDuration(currentTime)} / {formatDuration(duration)}
+        </span>
+        <div className="ml-auto flex w-32 items-center gap-2">
+          <Volume2 className="h-4 w-4 text-muted-foreground" />
+          <Slider
+            value={[masterVolume]}
+            min={0}
+            max={1}
+            step={0.01}
+            onValueChange={([v]) => handleMasterVolume(v)}
+            aria-label="Master volume"
+          />
+        </div>
+      </div>
+
+      {/* Practice-along: everything except one part */}
+      {taggedInstruments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {taggedInstruments.map((inst) => (
+            <Button
+              key={inst.value}
+              variant={minusInstrument === inst.value ? "default" : "outline"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => toggleMinus(inst.value)}
+            >
+              Minus {inst.label}
+            </Button>
+          ))}
+          {minusInstrument && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-7 text-xs"
+              onClick={handleSaveMix}
+              disabled={isRendering}
+            >
+              {isRendering ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Download className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              Save as WAV
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Channel strips */}
+      <div className="space-y-1.5">
+        {stems.map((stem) => {
+          const stemSettings = settings[stem.id];
+          const isAudible = anySoloed ? stemSettings.soloed : !stemSettings.muted;
+
+          return (
+            <div key={stem.id} className="flex items-center gap-2">
+              <span
+                className={cn(
+                  "w-24 truncate text-sm",
+                  !isAudible && "text-muted-foreground line-through"
+                )}
+                title={stem.name}
+              >
+                {stem.name}
+              </span>
+              <Select
+                value={stem.instrument ?? UNTAGGED}
+                onValueChange={(value) => handleTagInstrument(stem.id, value)}
+              >
+                <SelectTrigger className="h-7 w-24 text-xs" aria-label={`${stem.name} instrument`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNTAGGED}>Untagged</SelectItem>
+                  {INSTRUMENTS.map((inst) => (
+                    <SelectItem key={inst.value} value={inst.value}>
+                      {inst.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant={stemSettings.muted ? "destructive" : "outline"}
+                size="sm"
+                className="h-7 w-7 p-0 text-xs"
+                onClick={() => {
+                  setMinusInstrument(null);
+                  updateStem(stem.id, { muted: !stemSettings.muted });
+                }}
+                title="Mute"
+              >
+                M
+              </Button>
+              <Button
+                variant={stemSettings.soloed ? "default" : "outline"}
+                size="sm"
+                className="h-7 w-7 p-0 text-xs"
+                onClick={() => {
+                  setMinusInstrument(null);
+                  updateStem(stem.id, { soloed: !stemSettings.soloed });
+                }}
+                title="Solo"
+              >
+                S
+              </Button>
+              <Slider
+                value={[stemSettings.volume]}
+                min={0}
+                max={1}
+                step={0.01}
+                onValueChange={([v]) => updateStem(stem.id, { volume: v })}
+                className="flex-1"
+                aria-label={`${stem.name} volume`}
+              />
+              <Slider
+                value={[stemSettings.pan]}
+                min={-1}
+                max={1}
+                step={0.05}
+                onValueChange={([v]) => updateStem(stem.id, { pan: v })}
+                className="w-20"
+                aria-label={`${stem.name} pan`}
+              />
+              <span className="w-8 text-right font-mono text-xs text-muted-foreground">
+                {formatPan(stemSettings.pan)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -7,4 +7,5 @@ export { CreateSongDialog } from "./CreateSongDialog";
 export { FileUploadDropzone, FileTypeIcon } from "./FileUploadDropzone";
 export { ExternalUrlDialog } from "./ExternalUrlDialog";
 export { EditFileDialog } from "./EditFileDialog";
-export { SongFilesSection } from "./SongFilesSection";
+export { SongFilesSection, type SongFilesSectionRef } from "./SongFilesSection";
+export { StemMixer, type MixerStem } from "./StemMixer";
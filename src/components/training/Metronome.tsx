@@ -0,0 +1,389 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Minus, Play, Plus, Square } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { getLocalDateString } from "@/components/practice";
+import {
+  Metronome as MetronomeEngine,
+  MAX_BPM,
+  MIN_BPM,
+  parseTimeSignature,
+  type TempoRamp,
+} from "@/lib/audio";
+import {
+  DEFAULT_SPEED_TRAINER_SETTINGS,
+  SpeedTrainerControls,
+  type SpeedTrainerSettings,
+} from "./SpeedTrainerControls";
+
+// Mirrors TIME_SIGNATURES in convex/songs.ts
+const TIME_SIGNATURES = ["4/4", "3/4", "6/8", "2/4", "5/4", "7/8", "12/8"] as const;
+
+const SUBDIVISIONS = [
+  { value: 1, label: "Off" },
+  { value: 2, label: "2 per pulse" },
+  { value: 3, label: "3 per pulse" },
+  { value: 4, label: "4 per pulse" },
+] as const;
+
+// Taps further apart than this start a new tempo
+const TAP_RESET_MS = 2000;
+// Average over the most recent taps so the tempo settles without lagging
+const MAX_TAPS = 6;
+
+// Shorter speed trainer runs are treated as false starts and not logged
+const MIN_LOGGED_RUN_SECONDS = 30;
+
+interface MetronomeProps {
+  initialBpm?: number;
+  initialTimeSignature?: string;
+  /** Speed trainer runs are logged as practice sessions for this song */
+  songId?: Id<"songs">;
+  bandId?: Id<"bands">;
+  className?: string;
+}
+
+interface SpeedTrainerRun {
+  ramp: TempoRamp;
+  startedAt: number;
+  /** Fastest tempo actually heard so far */
+  maxTempo: number;
+}
+
+function clampBpm(bpm: number): number {
+  return Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(bpm)));
+}
+
+/**
+ * Click track with accented downbeats, subdivisions and tap tempo
+ *
+ * Odd meters click their grouping (7/8 as 2+2+3); tempo counts quarter
+ * notes, or dotted quarters in 6/8 and 12/8. In speed trainer mode the
+ * tempo setting is the target, and the click climbs toward it in steps.
+ */
+export function Metronome({
+  initialBpm = 120,
+  initialTimeSignature = "4/4",
+  songId,
+  bandId,
+  className,
+}: MetronomeProps) {
+  const engineRef = useRef<MetronomeEngine | null>(null);
+  const tapTimesRef = useRef<number[]>([]);
+  const runRef = useRef<SpeedTrainerRun | null>(null);
+  const [bpm, setBpm] = useState(() => clampBpm(initialBpm));
+  const [timeSignature, setTimeSignature] = useState(() =>
+    parseTimeSignature(initialTimeSignature) ? initialTimeSignature : "4/4"
+  );
+  const [subdivision, setSubdivision] = useState(1);
+  const [volume, setVolume] = useState(0.8);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentPulse, setCurrentPulse] = useState<number | null>(null);
+  const [trainerEnabled, setTrainerEnabled] = useState(false);
+  const [trainerSettings, setTrainerSettings] = useState<SpeedTrainerSettings>(
+    DEFAULT_SPEED_TRAINER_SETTINGS
+  );
+  // Tempo of the pulse being heard, which the speed trainer keeps changing
+  const [heardBpm, setHeardBpm] = useState<number | null>(null);
+
+  const createSession = useMutation(api.practiceSessions.create);
+
+  const meter = parseTimeSignature(timeSignature)!;
+  const timeSignatureOptions: string[] = TIME_SIGNATURES.includes(
+    timeSignature as (typeof TIME_SIGNATURES)[number]
+  )
+    ? [...TIME_SIGNATURES]
+    : [timeSignature, ...TIME_SIGNATURES];
+
+  useEffect(() => {
+    const engine = new MetronomeEngine();
+    engine.onTick = ({ pulse, bpm: tickBpm }) => {
+      setCurrentPulse(pulse);
+      setHeardBpm(tickBpm);
+      if (runRef.current) {
+        runRef.current.maxTempo = Math.max(runRef.current.maxTempo, tickBpm);
+      }
+    };
+    engineRef.current = engine;
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  // Keep the engine in step with the controls; changes apply from the next click
+  useEffect(() => {
+    engineRef.current?.setTempo(bpm);
+  }, [bpm]);
+
+  useEffect(() => {
+    const parsed = parseTimeSignature(timeSignature);
+    if (parsed) engineRef.current?.setMeter(parsed);
+  }, [timeSignature]);
+
+  useEffect(() => {
+    engineRef.current?.setSubdivision(subdivision);
+  }, [subdivision]);
+
+  useEffect(() => {
+    engineRef.current?.setVolume(volume);
+  }, [volume]);
+
+  const trainerStartBpm = clampBpm((bpm * trainerSettings.startPercent) / 100);
+  // The trainer switch is locked while playing, so this is the mode of the current run
+  const isTraining = isPlaying && trainerEnabled;
+
+  const logRun = async (run: SpeedTrainerRun) => {
+    const elapsedSeconds = (Date.now() - run.startedAt) / 1000;
+    if (!songId || run.maxTempo === 0 || elapsedSeconds < MIN_LOGGED_RUN_SECONDS) return;
+
+    try {
+      await createSession({
+        date: getLocalDateString(),
+        durationMinutes: Math.max(1, Math.round(elapsedSeconds / 60)),
+        bandId,
+        songIds: [songId],
+        notes: `Speed trainer: ${run.ramp.startBpm} to ${run.ramp.targetBpm} BPM, +${run.ramp.stepBpm} every ${run.ramp.measuresPerStep} ${run.ramp.measuresPerStep === 1 ? "bar" : "bars"}`,
+        maxTempo: run.maxTempo,
+        targetTempo: run.ramp.targetBpm,
+      });
+      toast.success(`Logged speed trainer run at ${run.maxTempo} BPM`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to log speed trainer run");
+    }
+  };
+
+  const togglePlay = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (engine.isRunning()) {
+      engine.stop();
+      setIsPlaying(false);
+      setCurrentPulse(null);
+      setHeardBpm(null);
+
+      const run = runRef.current;
+      runRef.current = null;
+      if (run) void logRun(run);
+    } else {
+      if (trainerEnabled) {
+        const ramp: TempoRamp = {
+          startBpm: trainerStartBpm,
+          targetBpm: bpm,
+          stepBpm: trainerSettings.stepBpm,
+          measuresPerStep: trainerSettings.measuresPerStep,
+          dropBack: trainerSettings.dropBack,
+        };
+        engine.setTempoRamp(ramp);
+        runRef.current = { ramp, startedAt: Date.now(), maxTempo: 0 };
+      } else {
+        engine.setTempoRamp(null);
+        engine.setTempo(bpm);
+      }
+      engine.start();
+      setIsPlaying(true);
+    }
+  };
+
+  const handleTap = () => {
+    const now = performance.now();
+    const taps = tapTimesRef.current;
+    if (taps.length > 0 && now - taps[taps.length - 1] > TAP_RESET_MS) {
+      taps.length = 0;
+    }
+    taps.push(now);
+    if (taps.length > MAX_TAPS) taps.shift();
+    if (taps.length < 2) return;
+
+    const averageMs = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+    setBpm(clampBpm(60000 / averageMs));
+  };
+
+  // Start index of each beat group, for the larger indicators
+  const groupStarts = new Set<number>();
+  meter.groups.reduce((start, size) => {
+    groupStarts.add(start);
+    return start + size;
+  }, 0);
+
+  return (
+    <div className={cn("space-y-4 rounded-lg border p-4", className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Metronome</h3>
+        <span className="font-mono text-2xl tabular-nums">
+          {isTraining && heardBpm !== null ? heardBpm : bpm} BPM
+        </span>
+      </div>
+
+      {/* Beat indicators */}
+      <div className="flex flex-wrap items-center gap-2">
+        {Array.from({ length: meter.pulsesPerMeasure }).map((_, i) => {
+          const isGroupStart = groupStarts.has(i);
+          const isActive = isPlaying && currentPulse === i;
+          return (
+            <div
+              key={i}
+              className={cn(
+                "rounded-full border-2 transition-colors duration-75",
+                isGroupStart ? "h-8 w-8" : "h-5 w-5",
+                isActive
+                  ? i === 0
+                    ? "border-primary bg-primary"
+                    : "border-primary bg-primary/60"
+                  : "border-muted-foreground/40"
+              )}
+            />
+          );
+        })}
+      </div>
+
+      {/* Tempo */}
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => setBpm((prev) => clampBpm(prev - 1))}
+          disabled={isTraining}
+          aria-label="Slower"
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Slider
+          value={[bpm]}
+          onValueChange={([value]) => setBpm(value)}
+          min={MIN_BPM}
+          max={MAX_BPM}
+          step={1}
+          disabled={isTraining}
+          aria-label={trainerEnabled ? "Target tempo" : "Tempo"}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => setBpm((prev) => clampBpm(prev + 1))}
+          disabled={isTraining}
+          aria-label="Faster"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="metronome-time-signature" className="text-xs text-muted-foreground">
+            Time Signature
+          </Label>
+          <Select value={timeSignature} onValueChange={setTimeSignature}>
+            <SelectTrigger id="metronome-time-signature" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeSignatureOptions.map((ts) => (
+                <SelectItem key={ts} value={ts}>
+                  {ts}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="metronome-subdivision" className="text-xs text-muted-foreground">
+            Subdivision
+          </Label>
+          <Select
+            value={subdivision.toString()}
+            onValueChange={(value) => setSubdivision(Number(value))}
+          >
+            <SelectTrigger id="metronome-subdivision" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUBDIVISIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value.toString()}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={togglePlay} className="w-24">
+          {isPlaying ? (
+            <Square className="mr-2 h-4 w-4" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          {isPlaying ? "Stop" : "Start"}
+        </Button>
+        <Button variant="outline" onClick={handleTap} disabled={isTraining}>
+          Tap
+        </Button>
+        <Slider
+          value={[volume]}
+          onValueChange={([value]) => setVolume(value)}
+          min={0}
+          max={1}
+          step={0.01}
+          className="ml-auto w-28"
+          aria-label="Volume"
+        />
+      </div>
+
+      {/* Speed trainer */}
+      <div className="space-y-3 rounded-md border p-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metronome-speed-trainer">Speed Trainer</Label>
+          <Switch
+            id="metronome-speed-trainer"
+            checked={trainerEnabled}
+            onCheckedChange={setTrainerEnabled}
+            disabled={isPlaying}
+          />
+        </div>
+        {trainerEnabled && (
+          <>
+            <SpeedTrainerControls
+              settings={trainerSettings}
+              onChange={setTrainerSettings}
+              disabled={isPlaying}
+            />
+            {isTraining && heardBpm !== null && bpm > trainerStartBpm ? (
+              <Progress
+                value={((heardBpm - trainerStartBpm) / (bpm - trainerStartBpm)) * 100}
+                className="h-1.5"
+              />
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {trainerStartBpm} to {bpm} BPM.{" "}
+                {songId
+                  ? "Each run is logged to your practice log."
+                  : "Open from a song to log runs."}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useId } from "react";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const START_PERCENT_OPTIONS = [50, 60, 70, 75, 80, 90] as const;
+const STEP_BPM_OPTIONS = [1, 2, 4, 5, 8, 10] as const;
+const MEASURES_PER_STEP_OPTIONS = [1, 2, 4, 8, 16] as const;
+
+export interface SpeedTrainerSettings {
+  /** Starting tempo as a percentage of the target */
+  startPercent: number;
+  stepBpm: number;
+  measuresPerStep: number;
+  dropBack: boolean;
+}
+
+export const DEFAULT_SPEED_TRAINER_SETTINGS: SpeedTrainerSettings = {
+  startPercent: 70,
+  stepBpm: 5,
+  measuresPerStep: 4,
+  dropBack: false,
+};
+
+interface SpeedTrainerControlsProps {
+  settings: SpeedTrainerSettings;
+  onChange: (settings: SpeedTrainerSettings) => void;
+  disabled?: boolean;
+}
+
+function NumberSelect({
+  value,
+  options,
+  onChange,
+  format = (option) => option.toString(),
+  disabled,
+}: {
+  value: number;
+  options: readonly number[];
+  onChange: (value: number) => void;
+  format?: (option: number) => string;
+  disabled?: boolean;
+}) {
+  return (
+    <Select
+      value={value.toString()}
+      onValueChange={(next) => onChange(Number(next))}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-7 w-16 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option.toString()}>
+            {format(option)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Speed trainer program, read as a sentence:
+ * "Start at 70%, +5 BPM every 4 bars, drop back and repeat"
+ */
+export function SpeedTrainerControls({ settings, onChange, disabled }: SpeedTrainerControlsProps) {
+  const dropBackId = useId();
+
+  const update = (partial: Partial<SpeedTrainerSettings>) => onChange({ ...settings, ...partial });
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1.5 text-muted-foreground">
+        <span>Start at</span>
+        <NumberSelect
+          value={settings.startPercent}
+          options={START_PERCENT_OPTIONS}
+          onChange={(startPercent) => update({ startPercent })}
+          format={(option) => `${option}%`}
+          disabled={disabled}
+        />
+        <span>then +</span>
+        <NumberSelect
+          value={settings.stepBpm}
+          options={STEP_BPM_OPTIONS}
+          onChange={(stepBpm) => update({ stepBpm })}
+          disabled={disabled}
+        />
+        <span>BPM every</span>
+        <NumberSelect
+          value={settings.measuresPerStep}
+          options={MEASURES_PER_STEP_OPTIONS}
+          onChange={(measuresPerStep) => update({ measuresPerStep })}
+          disabled={disabled}
+        />
+        <span>{settings.measuresPerStep === 1 ? "bar" : "bars"}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={dropBackId}
+          checked={settings.dropBack}
+          onCheckedChange={(dropBack) => update({ dropBack })}
+          disabled={disabled}
+        />
+        <label htmlFor={dropBackId} className="text-muted-foreground">
+          Drop back to the start after reaching the target
+        </label>
+      </div>
+    </div>
+  );
+}
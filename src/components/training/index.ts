@@ -0,0 +1,2 @@
+export { Metronome } from "./Metronome";
+export { SpeedTrainerControls, type SpeedTrainerSettings } from "./SpeedTrainerControls";
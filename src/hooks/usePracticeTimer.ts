@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "bandbrain:practice-timer";
+
+export interface PracticeTimerSong {
+  songId: string;
+}
+
+export interface PracticeTimerState {
+  startedAt: number;
+  songs: PracticeTimerSong[];
+}
+
+// ============ STORE ============
+// Module-level so the timer survives navigation, and mirrored to
+// localStorage so it survives reloads and stays in sync across tabs.
+
+let state: PracticeTimerState | null = null;
+let hasLoaded = false;
+const listeners = new Set<() => void>();
+
+function load() {
+  if (hasLoaded || typeof window === "undefined") return;
+  hasLoaded = true;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    state = stored ? (JSON.parse(stored) as PracticeTimerState) : null;
+  } catch {
+    state = null;
+  }
+}
+
+function setState(next: PracticeTimerState | null) {
+  state = next;
+  try {
+    if (next) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage may be unavailable (private mode); the timer still works in memory
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    hasLoaded = false;
+    load();
+    listener();
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+function getSnapshot() {
+  load();
+  return state;
+}
+
+function getServerSnapshot() {
+  return null;
+}
+
+/**
+ * Note that a song was worked on while the timer is running
+ * No-op when the timer is stopped, so callers don't need to check.
+ */
+export function recordPracticeSong(songId: string) {
+  load();
+  if (!state || state.songs.some((s) => s.songId === songId)) return;
+
+  setState({ ...state, songs: [...state.songs, { songId }] });
+}
+
+// ============ HOOK ============
+
+export function usePracticeTimer() {
+  const timer = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const start = useCallback(() => {
+    setState({ startedAt: Date.now(), songs: [] });
+  }, []);
+
+  /** Stop the timer and return what it recorded */
+  const stop = useCallback((): PracticeTimerState | null => {
+    load();
+    const finished = state;
+    setState(null);
+    return finished;
+  }, []);
+
+  /** Put a stopped timer back, e.g. when saving the session failed */
+  const restore = useCallback((previous: PracticeTimerState) => {
+    setState(previous);
+  }, []);
+
+  return {
+    timer,
+    isRunning: timer !== null,
+    start,
+    stop,
+    restore,
+  };
+}
@@ -2,45 +2,123 @@
  * Audio analysis utilities using Web Audio API
  *
  * Provides client-side audio analysis including:
- * - Waveform peak computation for visualization
+ * - Waveform peak computation for visualization (overview plus zoom levels)
  * - Audio duration detection
+ * - Integrated loudness (LUFS), true peak, crest factor and clipping
+ * - Tempo detection (onset envelope + autocorrelation)
+ * - Key and mode detection (chromagram + key profiles)
+ * - Section boundaries (self-similarity novelty curve)
  * - Basic audio metadata extraction
+ *
+ * Decoding happens on the main thread; everything else runs in a worker so
+ * long rehearsal recordings don't freeze the UI.
  */
 
+import type { AnalysisProgressCallback, AudioFeatures, FeatureSelection } from "./features";
+import type { AnalysisWorkerMessage, AnalysisWorkerRequest } from "./analysis.worker";
+
 // Number of peaks to compute for waveform display
 const DEFAULT_NUM_PEAKS = 200;
 
+// Share of the progress bar given to decoding
+const DECODE_PROGRESS_SHARE = 0.15;
+
 /**
  * Audio analysis result
  */
-export interface AudioAnalysisResult {
-  /** Normalized peaks for waveform display (0-1 range) */
-  waveformPeaks: number[];
+export interface AudioAnalysisResult extends AudioFeatures {
   /** Duration in seconds */
   durationSeconds: number;
   /** Sample rate in Hz */
   sampleRate: number;
   /** Number of audio channels */
   numberOfChannels: number;
-  /** Detected tempo in BPM (requires Essentia.js - not yet implemented) */
-  detectedTempo?: number;
-  /** Detected musical key (requires Essentia.js - not yet implemented) */
-  detectedKey?: string;
-  /** Confidence of tempo/key detection (0-1) */
-  analysisConfidence?: number;
+}
+
+export interface AnalyzeAudioOptions extends FeatureSelection {
+  /** Number of waveform peaks (default 200) */
+  numPeaks?: number;
+  /** Progress updates: current stage and overall progress (0-1) */
+  onProgress?: AnalysisProgressCallback;
+  /** Abort to stop decoding/analysis; the promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("Audio analysis cancelled", "AbortError");
+}
+
+/**
+ * Whether an error came from cancelling analysis via its AbortSignal
+ */
+export function isAnalysisAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
 }
 
 /**
- * Decode audio data and compute waveform peaks
+ * Run feature extraction in a dedicated worker
  *
- * Uses Web Audio API to decode the audio and compute peaks from the audio buffer.
- * Peaks are computed by sampling the audio at regular intervals and taking
- * the max absolute value in each segment.
+ * Channel data is transferred, so the arrays are unusable afterwards.
+ */
+function runAnalysisWorker(
+  request: AnalysisWorkerRequest,
+  onProgress: ((message: Extract<AnalysisWorkerMessage, { type: "progress" }>) => void) | undefined,
+  signal: AbortSignal | undefined
+): Promise<AudioFeatures> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message);
+      } else if (message.type === "result") {
+        finish();
+        resolve(message.features);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Audio analysis failed"));
+    };
+
+    worker.postMessage(
+      request,
+      request.channels.map((channel) => channel.buffer)
+    );
+  });
+}
+
+/**
+ * Decode audio data and compute waveform peaks, loudness, tempo and key
+ *
+ * Uses Web Audio API to decode the audio, then hands copies of the channel
+ * data to a worker for the heavy lifting.
  */
 export async function analyzeAudio(
   file: File | ArrayBuffer,
-  numPeaks: number = DEFAULT_NUM_PEAKS
+  { numPeaks = DEFAULT_NUM_PEAKS, onProgress, signal, ...selection }: AnalyzeAudioOptions = {}
 ): Promise<AudioAnalysisResult> {
+  if (signal?.aborted) throw createAbortError();
+  onProgress?.("decoding", 0);
+
   // Get ArrayBuffer from File if needed
   const arrayBuffer =
     file instanceof File ? await file.arrayBuffer() : file;
@@ -49,82 +127,42 @@ export async function analyzeAudio(
   const audioContext = new (window.AudioContext ||
     (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
 
+  let audioBuffer: AudioBuffer;
   try {
     // Decode the audio data
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
-
-    // Get audio metadata
-    const durationSeconds = audioBuffer.duration;
-    const sampleRate = audioBuffer.sampleRate;
-    const numberOfChannels = audioBuffer.numberOfChannels;
-
-    // Compute waveform peaks
-    const waveformPeaks = computePeaksFromBuffer(audioBuffer, numPeaks);
-
-    return {
-      waveformPeaks,
-      durationSeconds,
-      sampleRate,
-      numberOfChannels,
-    };
+    audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
   } finally {
     // Clean up audio context
     await audioContext.close();
   }
-}
-
-/**
- * Compute waveform peaks from an AudioBuffer
- *
- * Takes the max absolute value in each segment of the audio.
- * Uses all channels (summed) for better visualization.
- */
-function computePeaksFromBuffer(
-  audioBuffer: AudioBuffer,
-  numPeaks: number
-): number[] {
-  const { numberOfChannels, length } = audioBuffer;
-  const samplesPerPeak = Math.floor(length / numPeaks);
-  const peaks: number[] = new Array(numPeaks).fill(0);
-
-  // Process each channel and accumulate peaks
-  for (let channel = 0; channel < numberOfChannels; channel++) {
-    const channelData = audioBuffer.getChannelData(channel);
-
-    for (let peakIndex = 0; peakIndex < numPeaks; peakIndex++) {
-      const start = peakIndex * samplesPerPeak;
-      const end = Math.min(start + samplesPerPeak, length);
-
-      let maxValue = 0;
-      for (let i = start; i < end; i++) {
-        const absValue = Math.abs(channelData[i]);
-        if (absValue > maxValue) {
-          maxValue = absValue;
-        }
-      }
-
-      // Sum across channels (will normalize later)
-      peaks[peakIndex] += maxValue;
-    }
-  }
-
-  // Normalize peaks by number of channels and find max for final normalization
-  let maxPeak = 0;
-  for (let i = 0; i < numPeaks; i++) {
-    peaks[i] = peaks[i] / numberOfChannels;
-    if (peaks[i] > maxPeak) {
-      maxPeak = peaks[i];
-    }
-  }
-
-  // Normalize to 0-1 range
-  if (maxPeak > 0) {
-    for (let i = 0; i < numPeaks; i++) {
-      peaks[i] = peaks[i] / maxPeak;
-    }
-  }
 
-  return peaks;
+  if (signal?.aborted) throw createAbortError();
+
+  // Get audio metadata
+  const { duration: durationSeconds, sampleRate, numberOfChannels } = audioBuffer;
+
+  // Copies, since the AudioBuffer's own arrays can't be transferred
+  const channels = Array.from(
+    { length: numberOfChannels },
+    (_, i) => new Float32Array(audioBuffer.getChannelData(i))
+  );
+
+  const features = await runAnalysisWorker(
+    { channels, sampleRate, numPeaks, selection },
+    (message) =>
+      onProgress?.(
+        message.stage,
+        DECODE_PROGRESS_SHARE + message.progress * (1 - DECODE_PROGRESS_SHARE)
+      ),
+    signal
+  );
+
+  return {
+    ...features,
+    durationSeconds,
+    sampleRate,
+    numberOfChannels,
+  };
 }
 
 /**
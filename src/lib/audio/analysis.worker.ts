@@ -0,0 +1,46 @@
+/**
+ * Web Worker that runs feature extraction off the main thread
+ *
+ * Receives decoded channel data (transferred, not copied) and streams
+ * progress messages back before the final result.
+ */
+
+import {
+  extractFeatures,
+  type AnalysisStage,
+  type AudioFeatures,
+  type FeatureSelection,
+} from "./features";
+
+export interface AnalysisWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  numPeaks: number;
+  selection: FeatureSelection;
+}
+
+export type AnalysisWorkerMessage =
+  | { type: "progress"; stage: AnalysisStage; progress: number }
+  | { type: "result"; features: AudioFeatures }
+  | { type: "error"; message: string };
+
+function post(message: AnalysisWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { channels, sampleRate, numPeaks, selection } = event.data;
+
+  try {
+    const features = extractFeatures(
+      channels,
+      sampleRate,
+      numPeaks,
+      (stage, progress) => post({ type: "progress", stage, progress }),
+      selection
+    );
+    post({ type: "result", features });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Audio analysis failed" });
+  }
+};
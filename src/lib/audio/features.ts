@@ -0,0 +1,171 @@
+/**
+ * Feature extraction from decoded channel data
+ *
+ * Pure computation with no DOM access, so it can run inside the analysis
+ * worker. Decoding stays on the main thread (it needs an AudioContext).
+ */
+
+import { computeIntegratedLoudness, measureLevels } from "./loudness";
+import { detectTempo } from "./tempo";
+import { detectKey } from "./key";
+import { computePeakPyramid, type PeakLevel } from "./peaks";
+import { detectStructure, type StructureSegment } from "./structure";
+
+export interface AudioFeatures {
+  /** Normalized peaks for waveform display (0-1 range) */
+  waveformPeaks: number[];
+  /** Min/max peaks per channel at increasing resolutions, for zooming */
+  peakLevels: PeakLevel[];
+  /** Integrated loudness in LUFS (undefined for silence) */
+  integratedLoudness?: number;
+  /** True peak in dBTP (undefined for silence) */
+  truePeak?: number;
+  /** Sample peak to RMS ratio in dB (undefined for silence) */
+  crestFactor?: number;
+  /** Runs of consecutive full-scale samples */
+  clippedRuns: number;
+  /** Detected tempo in BPM (undefined when no clear pulse) */
+  detectedTempo?: number;
+  /** Detected musical key, spelled as in MUSICAL_KEYS */
+  detectedKey?: string;
+  /** Suggested mode from MODES (e.g. "Minor", "Mixolydian") */
+  detectedMode?: string;
+  /** Confidence of tempo/key detection (0-1); the lower of the two when both were found */
+  analysisConfidence?: number;
+  /** Likely sections, in order (empty when no clear changes were found) */
+  structureSegments: StructureSegment[];
+}
+
+export type AnalysisStage = "decoding" | "peaks" | "loudness" | "tempo" | "key" | "structure";
+
+/** Called with the stage about to run and overall progress (0-1) */
+export type AnalysisProgressCallback = (stage: AnalysisStage, progress: number) => void;
+
+/** Stages callers can leave out when they'd throw the results away */
+export interface FeatureSelection {
+  /** Skip the zoom pyramid; peakLevels comes back empty */
+  skipPeakLevels?: boolean;
+  /** Skip tempo, key and structure detection */
+  skipMusicalFeatures?: boolean;
+}
+
+// Rough share of total work per stage, for progress reporting
+const STAGE_WEIGHTS: Record<Exclude<AnalysisStage, "decoding">, number> = {
+  peaks: 0.1,
+  loudness: 0.15,
+  tempo: 0.3,
+  key: 0.2,
+  structure: 0.25,
+};
+
+const MUSICAL_STAGES: AnalysisStage[] = ["tempo", "key", "structure"];
+
+/**
+ * Compute waveform peaks from channel data
+ *
+ * Takes the max absolute value in each segment of the audio.
+ * Uses all channels (summed) for better visualization.
+ */
+export function computePeaks(channels: Float32Array[], numPeaks: number): number[] {
+  const length = channels[0]?.length ?? 0;
+  const samplesPerPeak = Math.floor(length / numPeaks);
+  const peaks: number[] = new Array(numPeaks).fill(0);
+
+  // Process each channel and accumulate peaks
+  for (const channelData of channels) {
+    for (let peakIndex = 0; peakIndex < numPeaks; peakIndex++) {
+      const start = peakIndex * samplesPerPeak;
+      const end = Math.min(start + samplesPerPeak, length);
+
+      let maxValue = 0;
+      for (let i = start; i < end; i++) {
+        const absValue = Math.abs(channelData[i]);
+        if (absValue > maxValue) {
+          maxValue = absValue;
+        }
+      }
+
+      // Sum across channels (will normalize later)
+      peaks[peakIndex] += maxValue;
+    }
+  }
+
+  // Normalize peaks by number of channels and find max for final normalization
+  let maxPeak = 0;
+  for (let i = 0; i < numPeaks; i++) {
+    peaks[i] = peaks[i] / channels.length;
+    if (peaks[i] > maxPeak) {
+      maxPeak = peaks[i];
+    }
+  }
+
+  // Normalize to 0-1 range
+  if (maxPeak > 0) {
+    for (let i = 0; i < numPeaks; i++) {
+      peaks[i] = peaks[i] / maxPeak;
+    }
+  }
+
+  return peaks;
+}
+
+/**
+ * Run the analysis stages over decoded channel data
+ *
+ * Progress is reported as a fraction of this function's work; callers that
+ * also decode can rescale it.
+ */
+export function extractFeatures(
+  channels: Float32Array[],
+  sampleRate: number,
+  numPeaks: number,
+  onProgress?: AnalysisProgressCallback,
+  { skipPeakLevels = false, skipMusicalFeatures = false }: FeatureSelection = {}
+): AudioFeatures {
+  const stages = (Object.keys(STAGE_WEIGHTS) as (keyof typeof STAGE_WEIGHTS)[]).filter(
+    (stage) => !skipMusicalFeatures || !MUSICAL_STAGES.includes(stage)
+  );
+  const totalWeight = stages.reduce((sum, stage) => sum + STAGE_WEIGHTS[stage], 0);
+
+  let completed = 0;
+  const runStage = <T>(stage: keyof typeof STAGE_WEIGHTS, fn: () => T): T => {
+    onProgress?.(stage, completed / totalWeight);
+    const result = fn();
+    completed += STAGE_WEIGHTS[stage];
+    return result;
+  };
+
+  const { waveformPeaks, peakLevels } = runStage("peaks", () => ({
+    waveformPeaks: computePeaks(channels, numPeaks),
+    peakLevels: skipPeakLevels ? [] : computePeakPyramid(channels),
+  }));
+  const { integratedLoudness, levels } = runStage("loudness", () => ({
+    integratedLoudness: computeIntegratedLoudness(channels, sampleRate),
+    levels: measureLevels(channels),
+  }));
+  const tempo = skipMusicalFeatures
+    ? null
+    : runStage("tempo", () => detectTempo(channels, sampleRate));
+  const key = skipMusicalFeatures ? null : runStage("key", () => detectKey(channels, sampleRate));
+  const structureSegments = skipMusicalFeatures
+    ? []
+    : runStage("structure", () => detectStructure(channels, sampleRate));
+
+  const confidences = [tempo?.confidence, key?.confidence].filter(
+    (c): c is number => c !== undefined
+  );
+
+  return {
+    waveformPeaks,
+    peakLevels,
+    integratedLoudness: integratedLoudness ?? undefined,
+    truePeak: levels.truePeak,
+    crestFactor: levels.crestFactor,
+    clippedRuns: levels.clippedRuns,
+    detectedTempo: tempo?.bpm,
+    detectedKey: key?.key,
+    detectedMode: key?.mode,
+    analysisConfidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+    structureSegments,
+  };
+}
@@ -5,5 +5,50 @@ export {
   isSupportedAudioFormat,
   formatDuration,
   formatDurationLong,
+  isAnalysisAbortError,
   type AudioAnalysisResult,
+  type AnalyzeAudioOptions,
 } from "./analysis";
+export {
+  computePeaks,
+  extractFeatures,
+  type AudioFeatures,
+  type AnalysisStage,
+  type FeatureSelection,
+  type AnalysisProgressCallback,
+} from "./features";
+export {
+  computePeakPyramid,
+  decodePeakLevel,
+  getPeakLevelForWidth,
+  PEAK_LEVELS,
+  type PeakLevel,
+} from "./peaks";
+export {
+  computeIntegratedLoudness,
+  getLoudnessMatchGains,
+  measureLevels,
+  type LevelStats,
+} from "./loudness";
+export { detectTempo, type TempoEstimate } from "./tempo";
+export { detectKey, type KeyEstimate } from "./key";
+export { detectStructure, type StructureSegment } from "./structure";
+export {
+  StemMixer,
+  DEFAULT_STEM_SETTINGS,
+  type StemSource,
+  type StemChannelSettings,
+} from "./stemMixer";
+export { encodeWav } from "./wav";
+export {
+  Metronome,
+  MIN_BPM,
+  MAX_BPM,
+  parseTimeSignature,
+  getPulseSeconds,
+  getRampTempo,
+  type Meter,
+  type MetronomeTick,
+  type TempoRamp,
+  type ClickType,
+} from "./metronome";
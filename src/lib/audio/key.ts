@@ -0,0 +1,193 @@
+/**
+ * Musical key and mode estimation
+ *
+ * Folds the spectrum into a 12-bin chromagram (energy per pitch class), then
+ * correlates it with Krumhansl-Kessler major/minor key profiles at all 12
+ * rotations. Once the tonic is known, diatonic mode templates decide whether
+ * a church mode fits better than plain major/minor.
+ */
+
+import { downmix, forEachSpectrum, getCenteredRange } from "./spectrum";
+
+// 4096-point frames at ~11kHz resolve about 2.7Hz per bin
+const TARGET_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 2048;
+
+const MAX_ANALYSIS_SECONDS = 120;
+const MIN_ANALYSIS_SECONDS = 5;
+
+// Below ~A1 bins are too coarse to separate semitones; above ~C7 is mostly
+// harmonics and cymbals
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 2100;
+
+// Frames quieter than this fraction of the loudest are skipped
+const SILENT_FRAME_RATIO = 0.01;
+
+const MIN_KEY_CONFIDENCE = 0.5;
+// A church mode must beat plain major/minor by this much to be suggested
+const MODE_MARGIN = 0.05;
+
+// Krumhansl-Kessler probe-tone profiles, indexed from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Conventional spellings, all present in MUSICAL_KEYS (convex/songs.ts)
+const MAJOR_KEY_NAMES = ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"];
+const MINOR_KEY_NAMES = ["C", "C#", "D", "Eb", "E", "F", "F#", "G", "G#", "A", "Bb", "B"];
+
+// Modes (as named in MODES) with their scale degrees; the first two are the
+// plain major/minor the key profiles decide between
+const MODE_SCALES = [
+  { mode: "Major", scale: [0, 2, 4, 5, 7, 9, 11], isMinor: false },
+  { mode: "Minor", scale: [0, 2, 3, 5, 7, 8, 10], isMinor: true },
+  { mode: "Mixolydian", scale: [0, 2, 4, 5, 7, 9, 10], isMinor: false },
+  { mode: "Lydian", scale: [0, 2, 4, 6, 7, 9, 11], isMinor: false },
+  { mode: "Dorian", scale: [0, 2, 3, 5, 7, 9, 10], isMinor: true },
+  { mode: "Phrygian", scale: [0, 1, 3, 5, 7, 8, 10], isMinor: true },
+];
+
+export interface KeyEstimate {
+  /** Tonic, spelled as in MUSICAL_KEYS */
+  key: string;
+  /** One of MODES */
+  mode: string;
+  /** Correlation with the best key profile (0-1) */
+  confidence: number;
+}
+
+function correlate(a: number[], b: number[]): number {
+  const n = a.length;
+  const meanA = a.reduce((sum, x) => sum + x, 0) / n;
+  const meanB = b.reduce((sum, x) => sum + x, 0) / n;
+
+  let numerator = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    numerator += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+
+  const denominator = Math.sqrt(varA * varB);
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Chroma vector rotated so index 0 is the given tonic
+ */
+function rotate(chroma: number[], tonic: number): number[] {
+  return chroma.map((_, i) => chroma[(i + tonic) % 12]);
+}
+
+/**
+ * Weighted scale template: tonic, third and fifth stand out from the other
+ * scale tones, and notes outside the scale sit lowest
+ */
+function getModeTemplate(scale: number[]): number[] {
+  return Array.from({ length: 12 }, (_, degree) => {
+    if (degree === 0) return 6;
+    if (!scale.includes(degree)) return 2.5;
+    if (degree === 3 || degree === 4 || degree === 7) return 4.5;
+    return 3.5;
+  });
+}
+
+/**
+ * Sum of per-frame normalized chroma, so loud passages don't dominate
+ */
+function computeChroma(samples: Float32Array, sampleRate: number): number[] | null {
+  const binPitchClass = new Int8Array(FRAME_SIZE / 2 + 1).fill(-1);
+  for (let bin = 1; bin < binPitchClass.length; bin++) {
+    const frequency = (bin * sampleRate) / FRAME_SIZE;
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+    const midi = Math.round(12 * Math.log2(frequency / 440) + 69);
+    binPitchClass[bin] = ((midi % 12) + 12) % 12;
+  }
+
+  const frames: Float32Array[] = [];
+  const frameEnergy: number[] = [];
+
+  forEachSpectrum(samples, FRAME_SIZE, HOP_SIZE, (magnitudes) => {
+    const frame = new Float32Array(12);
+    let energy = 0;
+    for (let bin = 0; bin < magnitudes.length; bin++) {
+      const pitchClass = binPitchClass[bin];
+      if (pitchClass === -1) continue;
+      frame[pitchClass] += magnitudes[bin];
+      energy += magnitudes[bin];
+    }
+    frames.push(frame);
+    frameEnergy.push(energy);
+  });
+
+  const maxEnergy = Math.max(0, ...frameEnergy);
+  if (maxEnergy === 0) {
+    return null;
+  }
+
+  const chroma = new Array(12).fill(0);
+  for (let f = 0; f < frames.length; f++) {
+    if (frameEnergy[f] < maxEnergy * SILENT_FRAME_RATIO) continue;
+    for (let i = 0; i < 12; i++) {
+      chroma[i] += frames[f][i] / frameEnergy[f];
+    }
+  }
+
+  return chroma;
+}
+
+/**
+ * Estimate key and mode from raw channel data
+ *
+ * Returns null for clips that are too short, silent, or atonal.
+ */
+export function detectKey(channels: Float32Array[], sampleRate: number): KeyEstimate | null {
+  const length = channels[0]?.length ?? 0;
+  if (length < MIN_ANALYSIS_SECONDS * sampleRate) {
+    return null;
+  }
+
+  const { startSample, endSample } = getCenteredRange(length, sampleRate, MAX_ANALYSIS_SECONDS);
+  const mono = downmix(channels, sampleRate, TARGET_SAMPLE_RATE, startSample, endSample);
+  const chroma = computeChroma(mono.samples, mono.sampleRate);
+  if (!chroma) {
+    return null;
+  }
+
+  let best = { tonic: 0, isMinor: false, score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = rotate(chroma, tonic);
+    const majorScore = correlate(rotated, MAJOR_PROFILE);
+    const minorScore = correlate(rotated, MINOR_PROFILE);
+    if (majorScore > best.score) best = { tonic, isMinor: false, score: majorScore };
+    if (minorScore > best.score) best = { tonic, isMinor: true, score: minorScore };
+  }
+
+  if (best.score < MIN_KEY_CONFIDENCE) {
+    return null;
+  }
+
+  // Stick with the profile's major/minor unless a mode on the same tonic
+  // clearly fits better
+  const rotated = rotate(chroma, best.tonic);
+  const scores = MODE_SCALES.map((m) => correlate(rotated, getModeTemplate(m.scale)));
+  let modeIndex = best.isMinor ? 1 : 0;
+  const baseline = scores[modeIndex];
+  for (let i = 2; i < MODE_SCALES.length; i++) {
+    if (scores[i] > baseline + MODE_MARGIN && scores[i] > scores[modeIndex]) {
+      modeIndex = i;
+    }
+  }
+  const { mode, isMinor } = MODE_SCALES[modeIndex];
+
+  return {
+    key: (isMinor ? MINOR_KEY_NAMES : MAJOR_KEY_NAMES)[best.tonic],
+    mode,
+    confidence: Math.round(Math.min(1, best.score) * 100) / 100,
+  };
+}
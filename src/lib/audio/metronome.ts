@@ -0,0 +1,305 @@
+/**
+ * Sample-accurate click track with Web Audio
+ *
+ * Browser timers jitter by tens of milliseconds, so clicks aren't played
+ * from timers directly. A short interval timer instead looks a little way
+ * ahead and schedules every click due in that window on the audio clock,
+ * which is what keeps the click steady (the "lookahead scheduler").
+ */
+
+export const MIN_BPM = 30;
+export const MAX_BPM = 300;
+
+// How often the scheduler wakes, and how far ahead of the audio clock it schedules
+const LOOKAHEAD_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+// Gives the first click time to be scheduled before it's due
+const START_DELAY_SECONDS = 0.05;
+
+const CLICK_SECONDS = 0.03;
+
+export type ClickType = "accent" | "beat" | "pulse" | "subdivision";
+
+// Higher and louder for stronger beats
+const CLICK_SOUNDS: Record<ClickType, { frequency: number; gain: number }> = {
+  accent: { frequency: 1760, gain: 1 },
+  beat: { frequency: 1320, gain: 0.7 },
+  pulse: { frequency: 1100, gain: 0.45 },
+  subdivision: { frequency: 880, gain: 0.3 },
+};
+
+export interface Meter {
+  /** Pulses per measure (the top number) */
+  pulsesPerMeasure: number;
+  /** Note value of one pulse (the bottom number) */
+  pulseUnit: number;
+  /** Pulses per felt beat across the measure, e.g. [2, 2, 3] for 7/8 */
+  groups: number[];
+  /** Compound meters (6/8, 12/8) count tempo in dotted beats of three pulses */
+  isCompound: boolean;
+}
+
+export interface MetronomeTick {
+  /** Pulse within the measure, from 0 */
+  pulse: number;
+  /** Measures since the metronome started, from 0 */
+  measure: number;
+  /** Tempo of the measure this pulse belongs to */
+  bpm: number;
+}
+
+/** Speed trainer program: climb from startBpm to targetBpm in steps */
+export interface TempoRamp {
+  startBpm: number;
+  targetBpm: number;
+  /** BPM added each step */
+  stepBpm: number;
+  /** Measures played at each tempo before stepping up */
+  measuresPerStep: number;
+  /** After a step at the target, drop back to the start and climb again */
+  dropBack: boolean;
+}
+
+/**
+ * Parse a time signature such as "7/8"
+ *
+ * Eighth-note meters divisible by three are compound (6/8 is two beats of
+ * three); other eighth-note meters group in twos with a closing three
+ * (7/8 is 2+2+3). Returns null for anything that isn't a time signature.
+ */
+export function parseTimeSignature(timeSignature: string): Meter | null {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(timeSignature);
+  if (!match) return null;
+
+  const pulsesPerMeasure = parseInt(match[1], 10);
+  const pulseUnit = parseInt(match[2], 10);
+  if (pulsesPerMeasure < 1 || pulsesPerMeasure > 32 || ![1, 2, 4, 8, 16].includes(pulseUnit)) {
+    return null;
+  }
+
+  if (pulseUnit < 8 || pulsesPerMeasure < 3) {
+    return {
+      pulsesPerMeasure,
+      pulseUnit,
+      groups: new Array<number>(pulsesPerMeasure).fill(1),
+      isCompound: false,
+    };
+  }
+
+  if (pulsesPerMeasure % 3 === 0) {
+    return {
+      pulsesPerMeasure,
+      pulseUnit,
+      groups: new Array<number>(pulsesPerMeasure / 3).fill(3),
+      isCompound: true,
+    };
+  }
+
+  const groups = new Array<number>(Math.floor(pulsesPerMeasure / 2)).fill(2);
+  if (pulsesPerMeasure % 2 === 1) {
+    groups[groups.length - 1] = 3;
+  }
+  return { pulsesPerMeasure, pulseUnit, groups, isCompound: false };
+}
+
+/**
+ * Seconds per pulse
+ *
+ * Tempo counts quarter notes, or dotted beats in compound meters, so 7/8
+ * at 120 clicks eighths at 240 and 6/8 at 80 clicks eighths at 240.
+ */
+export function getPulseSeconds(bpm: number, meter: Meter): number {
+  if (meter.isCompound) {
+    return 60 / bpm / 3;
+  }
+  return (60 / bpm) * (4 / meter.pulseUnit);
+}
+
+/**
+ * Tempo of a measure in a speed trainer run, counting measures from 0
+ */
+export function getRampTempo(ramp: TempoRamp, measure: number): number {
+  const stepBpm = Math.max(1, ramp.stepBpm);
+  const measuresPerStep = Math.max(1, Math.round(ramp.measuresPerStep));
+  // Steps below the target, then one step held at it
+  const stepsToTarget = Math.max(0, Math.ceil((ramp.targetBpm - ramp.startBpm) / stepBpm));
+
+  let step = Math.floor(measure / measuresPerStep);
+  if (ramp.dropBack) {
+    step %= stepsToTarget + 1;
+  }
+  return Math.min(ramp.targetBpm, ramp.startBpm + step * stepBpm);
+}
+
+export class Metronome {
+  /** Called as each pulse is heard (not when it's scheduled) */
+  onTick: ((tick: MetronomeTick) => void) | null = null;
+
+  private context: AudioContext;
+  private output: GainNode;
+  private bpm = 120;
+  private meter: Meter = parseTimeSignature("4/4")!;
+  private subdivision = 1;
+  private ramp: TempoRamp | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private tickTimeouts = new Set<ReturnType<typeof setTimeout>>();
+  // Next click to schedule
+  private nextClickTime = 0;
+  private pulse = 0;
+  private subdivisionIndex = 0;
+  private measure = 0;
+
+  constructor() {
+    this.context = new (window.AudioContext ||
+      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    this.output = this.context.createGain();
+    this.output.connect(this.context.destination);
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getTempo(): number {
+    return this.bpm;
+  }
+
+  /** Takes effect from the next click; ignored while a tempo ramp is set */
+  setTempo(bpm: number): void {
+    if (this.ramp) return;
+    this.bpm = this.clampTempo(bpm);
+  }
+
+  /**
+   * Run as a speed trainer, changing tempo on measure boundaries, or pass
+   * null to go back to a fixed tempo. Set it before start().
+   */
+  setTempoRamp(ramp: TempoRamp | null): void {
+    this.ramp = ramp;
+  }
+
+  setMeter(meter: Meter): void {
+    this.meter = meter;
+    if (this.pulse >= meter.pulsesPerMeasure) {
+      this.pulse = 0;
+    }
+  }
+
+  /** Clicks per pulse, 1 for none */
+  setSubdivision(subdivision: number): void {
+    this.subdivision = Math.max(1, Math.round(subdivision));
+    if (this.subdivisionIndex >= this.subdivision) {
+      this.subdivisionIndex = 0;
+    }
+  }
+
+  /** Linear gain, 0-1 */
+  setVolume(volume: number): void {
+    this.output.gain.setTargetAtTime(volume, this.context.currentTime, 0.01);
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    void this.context.resume();
+
+    this.pulse = 0;
+    this.subdivisionIndex = 0;
+    this.measure = 0;
+    if (this.ramp) {
+      this.bpm = this.clampTempo(getRampTempo(this.ramp, 0));
+    }
+    this.nextClickTime = this.context.currentTime + START_DELAY_SECONDS;
+    this.schedule();
+    this.timer = setInterval(() => this.schedule(), LOOKAHEAD_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer === null) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    for (const timeout of this.tickTimeouts) {
+      clearTimeout(timeout);
+    }
+    this.tickTimeouts.clear();
+  }
+
+  /** Stop and release the audio context */
+  dispose(): void {
+    this.stop();
+    this.onTick = null;
+    void this.context.close();
+  }
+
+  private schedule(): void {
+    const horizon = this.context.currentTime + SCHEDULE_AHEAD_SECONDS;
+    while (this.nextClickTime < horizon) {
+      this.playClick(this.getClickType(), this.nextClickTime);
+      if (this.subdivisionIndex === 0) {
+        this.notifyTick(
+          { pulse: this.pulse, measure: this.measure, bpm: this.bpm },
+          this.nextClickTime
+        );
+      }
+      this.advance();
+    }
+  }
+
+  private advance(): void {
+    this.nextClickTime += getPulseSeconds(this.bpm, this.meter) / this.subdivision;
+    this.subdivisionIndex++;
+    if (this.subdivisionIndex < this.subdivision) return;
+
+    this.subdivisionIndex = 0;
+    this.pulse++;
+    if (this.pulse >= this.meter.pulsesPerMeasure) {
+      this.pulse = 0;
+      this.measure++;
+      if (this.ramp) {
+        this.bpm = this.clampTempo(getRampTempo(this.ramp, this.measure));
+      }
+    }
+  }
+
+  private clampTempo(bpm: number): number {
+    return Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+  }
+
+  private getClickType(): ClickType {
+    if (this.subdivisionIndex > 0) return "subdivision";
+    if (this.pulse === 0) return "accent";
+
+    let groupStart = 0;
+    for (const size of this.meter.groups) {
+      if (groupStart === this.pulse) return "beat";
+      groupStart += size;
+    }
+    return "pulse";
+  }
+
+  private playClick(type: ClickType, time: number): void {
+    const { frequency, gain: peak } = CLICK_SOUNDS[type];
+    const oscillator = this.context.createOscillator();
+    const gain = this.context.createGain();
+
+    oscillator.type = "triangle";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(peak, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + CLICK_SECONDS);
+
+    oscillator.connect(gain);
+    gain.connect(this.output);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_SECONDS);
+    oscillator.onended = () => gain.disconnect();
+  }
+
+  // Deliver the tick when its click is heard, for visuals in step with the sound
+  private notifyTick(tick: MetronomeTick, time: number): void {
+    const delayMs = Math.max(0, (time - this.context.currentTime) * 1000);
+    const timeout = setTimeout(() => {
+      this.tickTimeouts.delete(timeout);
+      this.onTick?.(tick);
+    }, delayMs);
+    this.tickTimeouts.add(timeout);
+  }
+}
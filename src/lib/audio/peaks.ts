@@ -0,0 +1,108 @@
+/**
+ * Multi-resolution waveform peaks
+ *
+ * The 200-value overview in `waveformPeaks` is too coarse to find a spot in a
+ * long song, so analysis also builds a pyramid of finer levels. Each level
+ * stores the min and max of every bucket, per channel, quantized to signed
+ * bytes: 20,000 stereo buckets fit in 80KB.
+ */
+
+// Bucket counts per level, coarsest first
+export const PEAK_LEVELS = [200, 2000, 20000];
+
+// Horizontal pixels per bar in WaveformPlayer (bar width + gap)
+const PIXELS_PER_BAR = 3;
+
+export interface PeakLevel {
+  bucketCount: number;
+  channelCount: number;
+  /** Int8 values laid out as [bucket][channel][min, max], scaled to the file's peak */
+  data: ArrayBuffer;
+}
+
+/**
+ * Compute min/max peaks at each requested resolution
+ *
+ * Values are scaled so the loudest sample maps to ±127, which keeps quiet
+ * recordings from collapsing into a handful of quantization steps.
+ */
+export function computePeakPyramid(
+  channels: Float32Array[],
+  bucketCounts: number[] = PEAK_LEVELS
+): PeakLevel[] {
+  const length = channels[0]?.length ?? 0;
+  const channelCount = channels.length;
+
+  let maxAbs = 0;
+  for (const channelData of channels) {
+    for (let i = 0; i < length; i++) {
+      const absValue = Math.abs(channelData[i]);
+      if (absValue > maxAbs) maxAbs = absValue;
+    }
+  }
+  const scale = maxAbs > 0 ? 127 / maxAbs : 0;
+
+  // Clips shorter than a level's bucket count leave some buckets empty (zero)
+  return bucketCounts.map((bucketCount) => {
+    const values = new Int8Array(bucketCount * channelCount * 2);
+
+    for (let c = 0; c < channelCount; c++) {
+      const channelData = channels[c];
+      for (let bucket = 0; bucket < bucketCount; bucket++) {
+        const start = Math.floor((bucket * length) / bucketCount);
+        const end = Math.floor(((bucket + 1) * length) / bucketCount);
+
+        let min = 0;
+        let max = 0;
+        for (let i = start; i < end; i++) {
+          const value = channelData[i];
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+
+        const offset = (bucket * channelCount + c) * 2;
+        values[offset] = Math.round(min * scale);
+        values[offset + 1] = Math.round(max * scale);
+      }
+    }
+
+    return { bucketCount, channelCount, data: values.buffer };
+  });
+}
+
+/**
+ * Expand a stored level into per-channel arrays for wavesurfer
+ *
+ * Each bucket becomes a max/min pair, so a channel's array holds twice as
+ * many values as the level has buckets.
+ */
+export function decodePeakLevel(level: PeakLevel): Float32Array[] {
+  const values = new Int8Array(level.data);
+  const channels = Array.from(
+    { length: level.channelCount },
+    () => new Float32Array(level.bucketCount * 2)
+  );
+
+  for (let bucket = 0; bucket < level.bucketCount; bucket++) {
+    for (let c = 0; c < level.channelCount; c++) {
+      const offset = (bucket * level.channelCount + c) * 2;
+      channels[c][bucket * 2] = values[offset + 1] / 127;
+      channels[c][bucket * 2 + 1] = values[offset] / 127;
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Smallest level with at least one bucket per bar at the given waveform width
+ *
+ * Falls back to the finest level when even that is coarser than the display.
+ */
+export function getPeakLevelForWidth(
+  widthPixels: number,
+  bucketCounts: number[] = PEAK_LEVELS
+): number {
+  const barsNeeded = widthPixels / PIXELS_PER_BAR;
+  return bucketCounts.find((count) => count >= barsNeeded) ?? bucketCounts[bucketCounts.length - 1];
+}
@@ -0,0 +1,150 @@
+/**
+ * Short-time spectrum helpers shared by the tempo and key estimators
+ *
+ * Everything works on raw channel data rather than AudioBuffer so the same
+ * code can run off the main thread.
+ */
+
+/**
+ * Mix channels to mono and decimate by averaging blocks of samples
+ *
+ * Averaging is a crude low-pass, but good enough for onset and pitch-class
+ * analysis, which only need the lower few kHz.
+ */
+export function downmix(
+  channels: Float32Array[],
+  sampleRate: number,
+  targetSampleRate: number,
+  startSample: number = 0,
+  endSample: number = channels[0]?.length ?? 0
+): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / targetSampleRate));
+  const length = Math.floor((endSample - startSample) / factor);
+  const samples = new Float32Array(length);
+  const scale = 1 / (factor * channels.length);
+
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      const offset = startSample + i * factor;
+      let sum = 0;
+      for (let j = 0; j < factor; j++) {
+        sum += channel[offset + j];
+      }
+      samples[i] += sum * scale;
+    }
+  }
+
+  return { samples, sampleRate: sampleRate / factor };
+}
+
+// Twiddle factors per FFT size, computed once
+const twiddleCache = new Map<number, { cos: Float32Array; sin: Float32Array }>();
+
+function getTwiddles(n: number) {
+  let twiddles = twiddleCache.get(n);
+  if (!twiddles) {
+    const cos = new Float32Array(n / 2);
+    const sin = new Float32Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos((-2 * Math.PI * k) / n);
+      sin[k] = Math.sin((-2 * Math.PI * k) / n);
+    }
+    twiddles = { cos, sin };
+    twiddleCache.set(n, twiddles);
+  }
+  return twiddles;
+}
+
+/**
+ * In-place iterative radix-2 FFT; length must be a power of two
+ */
+export function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  const { cos, sin } = getTwiddles(n);
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wRe = cos[k * stride];
+        const wIm = sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectrum of each Hann-windowed frame
+ *
+ * The callback receives a reused buffer of frameSize / 2 + 1 magnitudes;
+ * copy it if you need to keep it.
+ */
+export function forEachSpectrum(
+  samples: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  callback: (magnitudes: Float32Array, frameIndex: number) => void
+): number {
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+  }
+
+  const re = new Float32Array(frameSize);
+  const im = new Float32Array(frameSize);
+  const magnitudes = new Float32Array(frameSize / 2 + 1);
+
+  let frameIndex = 0;
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let i = 0; i < magnitudes.length; i++) {
+      magnitudes[i] = Math.hypot(re[i], im[i]);
+    }
+    callback(magnitudes, frameIndex++);
+  }
+
+  return frameIndex;
+}
+
+/**
+ * Sample range of at most maxSeconds, centered in the recording
+ * Long rehearsal takes don't need to be scanned end to end.
+ */
+export function getCenteredRange(
+  length: number,
+  sampleRate: number,
+  maxSeconds: number
+): { startSample: number; endSample: number } {
+  const maxSamples = Math.floor(maxSeconds * sampleRate);
+  if (length <= maxSamples) {
+    return { startSample: 0, endSample: length };
+  }
+  const startSample = Math.floor((length - maxSamples) / 2);
+  return { startSample, endSample: startSample + maxSamples };
+}
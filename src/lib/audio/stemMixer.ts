@@ -0,0 +1,343 @@
+/**
+ * Sample-synced multitrack playback with Web Audio
+ *
+ * Separate <audio> elements drift apart, so every stem is decoded up front
+ * and started from its own AudioBufferSourceNode at the same context time.
+ * Each stem runs through a gain (volume, mute, solo) and a stereo panner
+ * into a shared master gain.
+ */
+
+export interface StemSource {
+  id: string;
+  url: string;
+}
+
+export interface StemChannelSettings {
+  /** Linear gain, 0-1 */
+  volume: number;
+  /** -1 (left) to 1 (right) */
+  pan: number;
+  muted: boolean;
+  soloed: boolean;
+}
+
+export const DEFAULT_STEM_SETTINGS: StemChannelSettings = {
+  volume: 1,
+  pan: 0,
+  muted: false,
+  soloed: false,
+};
+
+// Scheduling slightly ahead lets every source start on the same sample
+const START_DELAY_SECONDS = 0.05;
+// Time constant for gain changes, short enough to feel instant without clicks
+const GAIN_SMOOTHING_SECONDS = 0.01;
+// Offline renders louder than this are scaled down (about -0.1 dBFS)
+const RENDER_PEAK_CEILING = 0.99;
+
+interface StemChannel {
+  buffer: AudioBuffer;
+  gain: GainNode;
+  panner: StereoPannerNode;
+  settings: StemChannelSettings;
+  source: AudioBufferSourceNode | null;
+  /** Max absolute value per peak bucket, for the master waveform */
+  peaks: Float32Array;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("Stem loading cancelled", "AbortError");
+}
+
+export class StemMixer {
+  /** Length of the longest stem in seconds */
+  duration = 0;
+  /** Called when playback reaches the end of the longest stem */
+  onEnded: (() => void) | null = null;
+
+  private context: AudioContext;
+  private master: GainNode;
+  private channels = new Map<string, StemChannel>();
+  private playing = false;
+  // Context time at which the stems' zero point plays (while playing)
+  private startedAt = 0;
+  // Position to resume from (while paused)
+  private pausedAt = 0;
+
+  constructor() {
+    this.context = new (window.AudioContext ||
+      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    this.master = this.context.createGain();
+    this.master.connect(this.context.destination);
+  }
+
+  /**
+   * Fetch and decode every stem
+   *
+   * Decoding holds full PCM in memory, so this is deliberately sequential
+   * to keep the peak footprint to one compressed file at a time.
+   */
+  async load(
+    sources: StemSource[],
+    {
+      numPeaks,
+      onProgress,
+      signal,
+    }: { numPeaks: number; onProgress?: (loaded: number, total: number) => void; signal?: AbortSignal }
+  ): Promise<void> {
+    for (const [index, { id, url }] of sources.entries()) {
+      if (signal?.aborted) throw createAbortError();
+      onProgress?.(index, sources.length);
+
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`Failed to load stem (${response.status})`);
+      }
+      const buffer = await this.context.decodeAudioData(await response.arrayBuffer());
+      if (signal?.aborted) throw createAbortError();
+
+      const gain = this.context.createGain();
+      const panner = this.context.createStereoPanner();
+      gain.connect(panner);
+      panner.connect(this.master);
+
+      this.channels.set(id, {
+        buffer,
+        gain,
+        panner,
+        settings: { ...DEFAULT_STEM_SETTINGS },
+        source: null,
+        peaks: new Float32Array(0),
+      });
+      this.duration = Math.max(this.duration, buffer.duration);
+    }
+
+    // Peaks need the final duration so every stem shares the same time axis
+    for (const channel of this.channels.values()) {
+      channel.peaks = this.computeStemPeaks(channel.buffer, numPeaks);
+    }
+    onProgress?.(sources.length, sources.length);
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  getCurrentTime(): number {
+    if (!this.playing) return this.pausedAt;
+    return Math.min(this.duration, Math.max(0, this.context.currentTime - this.startedAt));
+  }
+
+  play(): void {
+    if (this.playing || this.channels.size === 0) return;
+    void this.context.resume();
+
+    // Starting from the very end replays from the top
+    const offset = this.pausedAt >= this.duration ? 0 : this.pausedAt;
+    const when = this.context.currentTime + START_DELAY_SECONDS;
+    this.startedAt = when - offset;
+    this.playing = true;
+
+    let longest: AudioBufferSourceNode | null = null;
+    let longestDuration = -1;
+    for (const channel of this.channels.values()) {
+      if (offset >= channel.buffer.duration) continue;
+      const source = this.context.createBufferSource();
+      source.buffer = channel.buffer;
+      source.connect(channel.gain);
+      source.start(when, offset);
+      channel.source = source;
+      if (channel.buffer.duration > longestDuration) {
+        longest = source;
+        longestDuration = channel.buffer.duration;
+      }
+    }
+
+    if (longest) {
+      longest.onended = () => {
+        if (!this.playing) return;
+        this.stopSources();
+        this.playing = false;
+        this.pausedAt = this.duration;
+        this.onEnded?.();
+      };
+    }
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.pausedAt = this.getCurrentTime();
+    this.playing = false;
+    this.stopSources();
+  }
+
+  seek(seconds: number): void {
+    const target = Math.min(this.duration, Math.max(0, seconds));
+    if (this.playing) {
+      this.playing = false;
+      this.stopSources();
+      this.pausedAt = target;
+      this.play();
+    } else {
+      this.pausedAt = target;
+    }
+  }
+
+  updateStem(id: string, settings: Partial<StemChannelSettings>): void {
+    const channel = this.channels.get(id);
+    if (!channel) return;
+    channel.settings = { ...channel.settings, ...settings };
+    channel.panner.pan.setTargetAtTime(
+      channel.settings.pan,
+      this.context.currentTime,
+      GAIN_SMOOTHING_SECONDS
+    );
+    // Solo affects every other stem's audibility
+    this.applyGains();
+  }
+
+  setMasterVolume(volume: number): void {
+    this.master.gain.setTargetAtTime(volume, this.context.currentTime, GAIN_SMOOTHING_SECONDS);
+  }
+
+  /**
+   * Waveform of the current mix, normalized to 0-1
+   *
+   * An upper bound built from per-stem peaks weighted by their gains, so it
+   * updates instantly as stems are muted or faded.
+   */
+  getMasterPeaks(): number[] {
+    const channels = [...this.channels.values()];
+    const numPeaks = channels[0]?.peaks.length ?? 0;
+    const peaks = new Array<number>(numPeaks).fill(0);
+
+    for (const channel of channels) {
+      const gain = this.getEffectiveGain(channel);
+      if (gain === 0) continue;
+      for (let i = 0; i < numPeaks; i++) {
+        peaks[i] += channel.peaks[i] * gain;
+      }
+    }
+
+    // Normalize against the full mix so fading a stem visibly shrinks the waveform
+    let fullMixMax = 0;
+    for (let i = 0; i < numPeaks; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel.peaks[i];
+      if (sum > fullMixMax) fullMixMax = sum;
+    }
+    return fullMixMax > 0 ? peaks.map((p) => Math.min(1, p / fullMixMax)) : peaks;
+  }
+
+  /**
+   * Render the current mix (volumes, mutes, solos and pans) offline
+   *
+   * Master volume is left out since it's only a listening level. If the
+   * stems sum past full scale, the render is turned down to fit.
+   */
+  async renderMix(): Promise<AudioBuffer> {
+    const channels = [...this.channels.values()];
+    const sampleRate = channels[0]?.buffer.sampleRate ?? this.context.sampleRate;
+    const offline = new OfflineAudioContext(
+      2,
+      Math.max(1, Math.ceil(this.duration * sampleRate)),
+      sampleRate
+    );
+
+    for (const channel of channels) {
+      const gainValue = this.getEffectiveGain(channel);
+      if (gainValue === 0) continue;
+
+      const source = offline.createBufferSource();
+      source.buffer = channel.buffer;
+      const gain = offline.createGain();
+      gain.gain.value = gainValue;
+      const panner = offline.createStereoPanner();
+      panner.pan.value = channel.settings.pan;
+
+      source.connect(gain);
+      gain.connect(panner);
+      panner.connect(offline.destination);
+      source.start(0);
+    }
+
+    const rendered = await offline.startRendering();
+
+    let peak = 0;
+    for (let c = 0; c < rendered.numberOfChannels; c++) {
+      const data = rendered.getChannelData(c);
+      for (let i = 0; i < data.length; i++) {
+        const absValue = Math.abs(data[i]);
+        if (absValue > peak) peak = absValue;
+      }
+    }
+    if (peak > RENDER_PEAK_CEILING) {
+      const scale = RENDER_PEAK_CEILING / peak;
+      for (let c = 0; c < rendered.numberOfChannels; c++) {
+        const data = rendered.getChannelData(c);
+        for (let i = 0; i < data.length; i++) {
+          data[i] *= scale;
+        }
+      }
+    }
+
+    return rendered;
+  }
+
+  /** Stop playback and release the audio context */
+  dispose(): void {
+    this.playing = false;
+    this.stopSources();
+    this.onEnded = null;
+    void this.context.close();
+  }
+
+  private getEffectiveGain(channel: StemChannel): number {
+    const anySoloed = [...this.channels.values()].some((c) => c.settings.soloed);
+    if (anySoloed) {
+      return channel.settings.soloed ? channel.settings.volume : 0;
+    }
+    return channel.settings.muted ? 0 : channel.settings.volume;
+  }
+
+  private applyGains(): void {
+    for (const channel of this.channels.values()) {
+      channel.gain.gain.setTargetAtTime(
+        this.getEffectiveGain(channel),
+        this.context.currentTime,
+        GAIN_SMOOTHING_SECONDS
+      );
+    }
+  }
+
+  private stopSources(): void {
+    for (const channel of this.channels.values()) {
+      if (!channel.source) continue;
+      channel.source.onended = null;
+      channel.source.stop();
+      channel.source.disconnect();
+      channel.source = null;
+    }
+  }
+
+  private computeStemPeaks(buffer: AudioBuffer, numPeaks: number): Float32Array {
+    const peaks = new Float32Array(numPeaks);
+    const samplesPerPeak = (this.duration * buffer.sampleRate) / numPeaks;
+
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const data = buffer.getChannelData(c);
+      for (let peak = 0; peak < numPeaks; peak++) {
+        const start = Math.floor(peak * samplesPerPeak);
+        const end = Math.min(data.length, Math.floor((peak + 1) * samplesPerPeak));
+        let max = 0;
+        for (let i = start; i < end; i++) {
+          const absValue = Math.abs(data[i]);
+          if (absValue > max) max = absValue;
+        }
+        if (max > peaks[peak]) peaks[peak] = max;
+      }
+    }
+
+    return peaks;
+  }
+}
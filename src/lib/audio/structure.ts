@@ -0,0 +1,305 @@
+/**
+ * Song structure segmentation
+ *
+ * Summarizes each second of audio as harmony (chroma) plus timbre (log band
+ * energies) and compares every second with every other in a self-similarity
+ * matrix. A checkerboard kernel slid along the diagonal gives a novelty
+ * curve: it peaks where the music before a point is self-similar, the music
+ * after it is too, but the two differ. Those peaks become section
+ * boundaries, and segments that sound alike (repeated choruses) are grouped.
+ */
+
+import { downmix, forEachSpectrum } from "./spectrum";
+
+// Same framing as key detection: fine enough for chroma, cheap enough for a whole song
+const TARGET_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 2048;
+
+// Frames are averaged into blocks of at least this length, longer for long
+// takes so the similarity matrix stays small
+const BLOCK_SECONDS = 1;
+const MAX_BLOCKS = 600;
+
+// Too short to have sections, or too long to be a single song
+const MIN_ANALYSIS_SECONDS = 30;
+const MAX_ANALYSIS_SECONDS = 20 * 60;
+
+const MIN_FREQUENCY = 55;
+const CHROMA_MAX_FREQUENCY = 2100;
+const BAND_MAX_FREQUENCY = 5000;
+const NUM_BANDS = 12;
+
+// Context the kernel compares on each side of a candidate boundary
+const KERNEL_HALF_SECONDS = 8;
+// Boundaries closer than this to each other (or the ends) are dropped
+const MIN_SECTION_SECONDS = 8;
+const MAX_SECTIONS = 16;
+// Novelty peaks must clear mean + this many standard deviations
+const PEAK_THRESHOLD_STDS = 0.5;
+// Similarity (after removing the song's average sound) for two segments to share a group
+const SAME_GROUP_SIMILARITY = 0.5;
+
+export interface StructureSegment {
+  startSeconds: number;
+  endSeconds: number;
+  /** Segments that sound alike share a group, numbered in order of first appearance */
+  group: number;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let sumSquares = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sumSquares += vector[i] * vector[i];
+  }
+  const norm = Math.sqrt(sumSquares);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * One unit-length feature vector per block: 12 chroma values followed by
+ * 12 standardized log band energies, each half weighted equally
+ */
+function computeBlockFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  framesPerBlock: number
+): Float32Array[] {
+  const binHz = sampleRate / FRAME_SIZE;
+  const numBins = FRAME_SIZE / 2 + 1;
+
+  // Map each bin to a pitch class and a log-spaced band (-1 = unused)
+  const pitchClassOfBin = new Int8Array(numBins).fill(-1);
+  const bandOfBin = new Int8Array(numBins).fill(-1);
+  const maxBandFrequency = Math.min(BAND_MAX_FREQUENCY, sampleRate / 2);
+  const bandRatio = Math.log(maxBandFrequency / MIN_FREQUENCY);
+  for (let bin = 1; bin < numBins; bin++) {
+    const frequency = bin * binHz;
+    if (frequency < MIN_FREQUENCY) continue;
+    if (frequency <= CHROMA_MAX_FREQUENCY) {
+      const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+      pitchClassOfBin[bin] = ((midi % 12) + 12) % 12;
+    }
+    if (frequency < maxBandFrequency) {
+      bandOfBin[bin] = Math.floor((NUM_BANDS * Math.log(frequency / MIN_FREQUENCY)) / bandRatio);
+    }
+  }
+
+  const chroma: Float32Array[] = [];
+  const bands: Float32Array[] = [];
+
+  forEachSpectrum(samples, FRAME_SIZE, HOP_SIZE, (magnitudes, frameIndex) => {
+    const block = Math.floor(frameIndex / framesPerBlock);
+    if (block === chroma.length) {
+      chroma.push(new Float32Array(12));
+      bands.push(new Float32Array(NUM_BANDS));
+    }
+    for (let bin = 1; bin < numBins; bin++) {
+      const energy = magnitudes[bin] * magnitudes[bin];
+      if (pitchClassOfBin[bin] >= 0) chroma[block][pitchClassOfBin[bin]] += energy;
+      if (bandOfBin[bin] >= 0) bands[block][bandOfBin[bin]] += energy;
+    }
+  });
+
+  // Standardize each band across the song so loud low end doesn't dominate
+  const numBlocks = chroma.length;
+  for (let band = 0; band < NUM_BANDS; band++) {
+    let mean = 0;
+    for (let block = 0; block < numBlocks; block++) {
+      bands[block][band] = Math.log10(bands[block][band] + 1e-10);
+      mean += bands[block][band];
+    }
+    mean /= numBlocks;
+
+    let variance = 0;
+    for (let block = 0; block < numBlocks; block++) {
+      variance += (bands[block][band] - mean) ** 2;
+    }
+    const std = Math.sqrt(variance / numBlocks) || 1;
+    for (let block = 0; block < numBlocks; block++) {
+      bands[block][band] = (bands[block][band] - mean) / std;
+    }
+  }
+
+  return chroma.map((blockChroma, block) => {
+    const features = new Float32Array(12 + NUM_BANDS);
+    features.set(normalize(blockChroma), 0);
+    features.set(normalize(bands[block]), 12);
+    return normalize(features);
+  });
+}
+
+/**
+ * Novelty at each block from a Gaussian-tapered checkerboard kernel
+ *
+ * Same-side pairs (both before or both after the block) add similarity,
+ * cross pairs subtract it.
+ */
+function computeNovelty(features: Float32Array[], halfWidth: number): Float32Array {
+  const n = features.length;
+  const similarity = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      const value = dot(features[i], features[j]);
+      similarity[i * n + j] = value;
+      similarity[j * n + i] = value;
+    }
+  }
+
+  const sigma = halfWidth / 2;
+  const kernelSize = halfWidth * 2;
+  const kernel = new Float32Array(kernelSize * kernelSize);
+  for (let a = 0; a < kernelSize; a++) {
+    for (let b = 0; b < kernelSize; b++) {
+      const x = a - halfWidth + 0.5;
+      const y = b - halfWidth + 0.5;
+      const sign = x < 0 === y < 0 ? 1 : -1;
+      kernel[a * kernelSize + b] = sign * Math.exp(-(x * x + y * y) / (2 * sigma * sigma));
+    }
+  }
+
+  const novelty = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let a = 0; a < kernelSize; a++) {
+      const row = i + a - halfWidth;
+      if (row < 0 || row >= n) continue;
+      for (let b = 0; b < kernelSize; b++) {
+        const col = i + b - halfWidth;
+        if (col < 0 || col >= n) continue;
+        sum += kernel[a * kernelSize + b] * similarity[row * n + col];
+      }
+    }
+    novelty[i] = Math.max(0, sum);
+  }
+
+  return novelty;
+}
+
+/**
+ * Strongest novelty peaks at least minGap blocks apart, in time order
+ */
+function pickBoundaries(novelty: Float32Array, minGap: number): number[] {
+  const n = novelty.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += novelty[i];
+  mean /= n;
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (novelty[i] - mean) ** 2;
+  const threshold = mean + PEAK_THRESHOLD_STDS * Math.sqrt(variance / n);
+
+  const candidates: number[] = [];
+  for (let i = minGap; i <= n - minGap; i++) {
+    if (novelty[i] <= threshold) continue;
+    let isPeak = true;
+    for (let j = Math.max(0, i - minGap); j <= Math.min(n - 1, i + minGap); j++) {
+      if (novelty[j] > novelty[i]) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (isPeak) candidates.push(i);
+  }
+
+  const boundaries: number[] = [];
+  for (const candidate of candidates.sort((a, b) => novelty[b] - novelty[a])) {
+    if (boundaries.length >= MAX_SECTIONS - 1) break;
+    if (boundaries.every((b) => Math.abs(b - candidate) >= minGap)) {
+      boundaries.push(candidate);
+    }
+  }
+  return boundaries.sort((a, b) => a - b);
+}
+
+/**
+ * Label segments so ones that sound alike share a group
+ *
+ * Compares each segment's average features with the song's overall average
+ * removed; otherwise everything in one song looks similar.
+ */
+function groupSegments(features: Float32Array[], edges: number[]): number[] {
+  const dims = features[0].length;
+  const songMean = new Float32Array(dims);
+  for (const vector of features) {
+    for (let d = 0; d < dims; d++) songMean[d] += vector[d] / features.length;
+  }
+
+  const profiles = edges.slice(0, -1).map((start, i) => {
+    const end = edges[i + 1];
+    const profile = new Float32Array(dims);
+    for (let block = start; block < end; block++) {
+      for (let d = 0; d < dims; d++) profile[d] += features[block][d];
+    }
+    for (let d = 0; d < dims; d++) profile[d] = profile[d] / (end - start) - songMean[d];
+    return normalize(profile);
+  });
+
+  // Each group is represented by its first segment
+  const representatives: Float32Array[] = [];
+  return profiles.map((profile) => {
+    let bestGroup = -1;
+    let bestSimilarity = SAME_GROUP_SIMILARITY;
+    representatives.forEach((representative, group) => {
+      const similarity = dot(profile, representative);
+      if (similarity >= bestSimilarity) {
+        bestGroup = group;
+        bestSimilarity = similarity;
+      }
+    });
+    if (bestGroup >= 0) return bestGroup;
+    representatives.push(profile);
+    return representatives.length - 1;
+  });
+}
+
+/**
+ * Split a recording into likely sections
+ *
+ * Returns an empty array when the recording is too short or too long, or
+ * when no clear section changes stand out.
+ */
+export function detectStructure(channels: Float32Array[], sampleRate: number): StructureSegment[] {
+  const length = channels[0]?.length ?? 0;
+  const durationSeconds = length / sampleRate;
+  if (durationSeconds < MIN_ANALYSIS_SECONDS || durationSeconds > MAX_ANALYSIS_SECONDS) {
+    return [];
+  }
+
+  const { samples, sampleRate: analysisRate } = downmix(channels, sampleRate, TARGET_SAMPLE_RATE);
+  const blockSeconds = Math.max(BLOCK_SECONDS, durationSeconds / MAX_BLOCKS);
+  const framesPerBlock = Math.max(1, Math.round((blockSeconds * analysisRate) / HOP_SIZE));
+  const secondsPerBlock = (framesPerBlock * HOP_SIZE) / analysisRate;
+
+  const features = computeBlockFeatures(samples, analysisRate, framesPerBlock);
+  const halfWidth = Math.max(2, Math.round(KERNEL_HALF_SECONDS / secondsPerBlock));
+  const minGap = Math.max(2, Math.round(MIN_SECTION_SECONDS / secondsPerBlock));
+  if (features.length < minGap * 2) return [];
+
+  const boundaries = pickBoundaries(computeNovelty(features, halfWidth), minGap);
+  if (boundaries.length === 0) return [];
+
+  const edges = [0, ...boundaries, features.length];
+  const groups = groupSegments(features, edges);
+
+  return groups.map((group, i) => ({
+    startSeconds: Math.round(edges[i] * secondsPerBlock * 100) / 100,
+    endSeconds:
+      i === groups.length - 1
+        ? Math.round(durationSeconds * 100) / 100
+        : Math.round(edges[i + 1] * secondsPerBlock * 100) / 100,
+    group,
+  }));
+}
@@ -0,0 +1,163 @@
+/**
+ * Tempo estimation from an onset envelope
+ *
+ * Builds a spectral-flux onset envelope (how much new energy appears in each
+ * frame), then autocorrelates it: the beat period shows up as the lag where
+ * the envelope best lines up with itself. A log-normal prior around 120 BPM
+ * breaks ties between the beat and its double/half.
+ */
+
+import { downmix, forEachSpectrum, getCenteredRange } from "./spectrum";
+
+// ~11kHz keeps drums and note attacks while making the FFTs cheap
+const TARGET_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 128;
+
+// A couple of minutes from the middle is plenty to lock onto a groove
+const MAX_ANALYSIS_SECONDS = 120;
+const MIN_ANALYSIS_SECONDS = 5;
+
+const MIN_BPM = 50;
+const MAX_BPM = 220;
+const PRIOR_CENTER_BPM = 120;
+// Prior width in octaves
+const PRIOR_SPREAD = 1;
+
+// Half-window for the moving average subtracted from the envelope
+const LOCAL_MEAN_SECONDS = 0.25;
+
+// Below these, report nothing rather than a guess. Onset strength is the
+// mean envelope value per frequency bin; steady tones sit far below it.
+const MIN_TEMPO_CONFIDENCE = 0.2;
+const MIN_ONSET_STRENGTH = 0.001;
+
+export interface TempoEstimate {
+  /** Tempo in BPM, rounded to a whole number */
+  bpm: number;
+  /** How clearly the beat stood out (0-1) */
+  confidence: number;
+}
+
+/**
+ * Spectral flux onset envelope, with the local average removed so only
+ * attacks that stand out from their surroundings remain
+ */
+function computeOnsetEnvelope(samples: Float32Array, framesPerSecond: number): Float32Array {
+  const numFrames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const flux = new Float32Array(numFrames);
+  let previous: Float32Array | null = null;
+
+  forEachSpectrum(samples, FRAME_SIZE, HOP_SIZE, (magnitudes, frameIndex) => {
+    // Log compression so quiet attacks still register
+    const current = new Float32Array(magnitudes.length);
+    for (let i = 0; i < magnitudes.length; i++) {
+      current[i] = Math.log1p(100 * magnitudes[i]);
+    }
+
+    if (previous) {
+      let sum = 0;
+      for (let i = 0; i < current.length; i++) {
+        const diff = current[i] - previous[i];
+        if (diff > 0) sum += diff;
+      }
+      flux[frameIndex] = sum;
+    }
+    previous = current;
+  });
+
+  const radius = Math.max(1, Math.round(LOCAL_MEAN_SECONDS * framesPerSecond));
+  const envelope = new Float32Array(numFrames);
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+
+  for (let i = 0; i < numFrames; i++) {
+    const lo = Math.max(0, i - radius);
+    const hi = Math.min(numFrames, i + radius + 1);
+    while (windowEnd < hi) windowSum += flux[windowEnd++];
+    while (windowStart < lo) windowSum -= flux[windowStart++];
+    envelope[i] = Math.max(0, flux[i] - windowSum / (hi - lo));
+  }
+
+  return envelope;
+}
+
+/**
+ * Estimate tempo from raw channel data
+ *
+ * Returns null for clips that are too short, silent, or have no clear pulse.
+ */
+export function detectTempo(channels: Float32Array[], sampleRate: number): TempoEstimate | null {
+  const length = channels[0]?.length ?? 0;
+  if (length < MIN_ANALYSIS_SECONDS * sampleRate) {
+    return null;
+  }
+
+  const { startSample, endSample } = getCenteredRange(length, sampleRate, MAX_ANALYSIS_SECONDS);
+  const mono = downmix(channels, sampleRate, TARGET_SAMPLE_RATE, startSample, endSample);
+  const framesPerSecond = mono.sampleRate / HOP_SIZE;
+  const envelope = computeOnsetEnvelope(mono.samples, framesPerSecond);
+
+  let envelopeSum = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    envelopeSum += envelope[i];
+  }
+  if (envelopeSum / envelope.length / (FRAME_SIZE / 2 + 1) < MIN_ONSET_STRENGTH) {
+    return null;
+  }
+
+  const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+  const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+  if (envelope.length <= maxLag * 2) {
+    return null;
+  }
+
+  // Normalized autocorrelation over the lags we care about (plus neighbours
+  // for interpolation)
+  const acf = new Float32Array(maxLag + 2);
+  for (let lag = 0; lag < acf.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag];
+    }
+    acf[lag] = sum / (envelope.length - lag);
+  }
+
+  let bestLag = -1;
+  let bestScore = 0;
+  let acfSum = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    acfSum += acf[lag];
+    const bpm = (60 * framesPerSecond) / lag;
+    const octaves = Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_SPREAD;
+    const score = acf[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === -1) {
+    return null;
+  }
+
+  // Parabolic interpolation for a sub-frame period
+  const left = acf[bestLag - 1];
+  const center = acf[bestLag];
+  const right = acf[bestLag + 1];
+  const denominator = left - 2 * center + right;
+  const offset = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+  const period = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+
+  // Peak-to-mean ratio: 0 when the chosen lag is no better than average
+  const mean = acfSum / (maxLag - minLag + 1);
+  const confidence = Math.max(0, Math.min(1, 1 - mean / center));
+  if (confidence < MIN_TEMPO_CONFIDENCE) {
+    return null;
+  }
+
+  return {
+    bpm: Math.round((60 * framesPerSecond) / period),
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
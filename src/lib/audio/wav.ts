@@ -0,0 +1,51 @@
+/**
+ * WAV encoding for rendered audio
+ *
+ * 16-bit PCM is what every DAW, phone and browser plays back, and keeps a
+ * five-minute stereo render around 50MB.
+ */
+
+const BYTES_PER_SAMPLE = 2;
+const HEADER_BYTES = 44;
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Encode an AudioBuffer as an interleaved 16-bit PCM WAV file
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const dataBytes = length * numberOfChannels * BYTES_PER_SAMPLE;
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+
+  // RIFF header and fmt chunk
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numberOfChannels * BYTES_PER_SAMPLE, true);
+  view.setUint16(32, numberOfChannels * BYTES_PER_SAMPLE, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+  writeString(view, 36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return new Blob([view.buffer], { type: "audio/wav" });
+}